@@ -0,0 +1,218 @@
+/**
+ * fs.promises-style file handle
+ *
+ * Returned by FileSystemService.open(). Positional reads and writes go
+ * through the backend's range methods, so appending to a log or patching an
+ * output file doesn't rewrite the whole file. Backends without range
+ * methods fall back to reading and rewriting the full contents.
+ */
+
+import type { FileSystemBackend, FileStats, OpenFlags } from './types.js'
+import { FileSystemError } from './errors.js'
+
+export interface FileHandleReadResult {
+  /** Number of bytes read; less than requested at the end of the file */
+  bytesRead: number
+  /** The buffer passed to read() */
+  buffer: Uint8Array
+}
+
+export interface FileHandleWriteResult {
+  bytesWritten: number
+}
+
+export class FileHandle {
+  private readonly readable: boolean
+  private readonly writable: boolean
+  private readonly append: boolean
+  /** File position used when no explicit position is given */
+  private position = 0
+  private closed = false
+  private modified = false
+  /** Operations run one at a time so the file position stays consistent */
+  private queue: Promise<unknown> = Promise.resolve()
+
+  constructor(
+    /** Path the handle was opened with */
+    readonly path: string,
+    readonly flags: OpenFlags,
+    private backend: FileSystemBackend,
+    private backendPath: string,
+    private onModified?: () => void,
+    /** Runs once before the first change to the file, e.g. to keep a revision */
+    private beforeModify?: () => Promise<void>,
+    /** Runs before each change with the size the file will have, e.g. to make room for it */
+    private beforeResize?: (size: number) => Promise<void>
+  ) {
+    this.readable = flags.startsWith('r') || flags.endsWith('+')
+    this.writable = flags !== 'r'
+    this.append = flags.startsWith('a')
+  }
+
+  /**
+   * Read up to `length` bytes into `buffer` at `offset`
+   * Reads from `position`, or from the current file position (advancing it)
+   * when `position` is null
+   */
+  read(
+    buffer: Uint8Array,
+    offset = 0,
+    length = buffer.length - offset,
+    position: number | null = null
+  ): Promise<FileHandleReadResult> {
+    return this.run('read', async () => {
+      if (!this.readable) {
+        throw new FileSystemError('EBADF', this.path, 'read')
+      }
+      if (offset < 0 || length < 0 || offset + length > buffer.length || (position !== null && position < 0)) {
+        throw new FileSystemError('EINVAL', this.path, 'read')
+      }
+
+      const start = position ?? this.position
+      const data = await this.readRange(start, start + length)
+      buffer.set(data, offset)
+      if (position === null) {
+        this.position += data.length
+      }
+      return { bytesRead: data.length, buffer }
+    })
+  }
+
+  /**
+   * Write data at `position`, or at the current file position (advancing it)
+   * when `position` is null. Handles opened in append mode always write at
+   * the end of the file.
+   */
+  write(data: Uint8Array | string, position: number | null = null): Promise<FileHandleWriteResult> {
+    return this.run('write', async () => {
+      if (!this.writable) {
+        throw new FileSystemError('EBADF', this.path, 'write')
+      }
+      if (position !== null && position < 0) {
+        throw new FileSystemError('EINVAL', this.path, 'write')
+      }
+
+      const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+      const start = this.append ? await this.size() : position ?? this.position
+      await this.writeRange(start, bytes)
+      if (position === null || this.append) {
+        this.position = start + bytes.length
+      }
+      return { bytesWritten: bytes.length }
+    })
+  }
+
+  /**
+   * Append data to the end of the file; the file position is unchanged
+   */
+  appendFile(data: Uint8Array | string): Promise<void> {
+    return this.run('write', async () => {
+      if (!this.writable) {
+        throw new FileSystemError('EBADF', this.path, 'write')
+      }
+
+      const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data
+      await this.writeRange(await this.size(), bytes)
+    })
+  }
+
+  /**
+   * Shrink or zero-extend the file to `size` bytes
+   */
+  truncate(size = 0): Promise<void> {
+    return this.run('ftruncate', async () => {
+      if (!this.writable) {
+        throw new FileSystemError('EBADF', this.path, 'ftruncate')
+      }
+      if (size < 0) {
+        throw new FileSystemError('EINVAL', this.path, 'ftruncate')
+      }
+
+      await this.beforeResize?.(size)
+      await this.prepareModify()
+      if (this.backend.truncate) {
+        await this.backend.truncate(this.backendPath, size)
+      } else {
+        const current = await this.backend.readBinary(this.backendPath)
+        const content = new Uint8Array(size)
+        content.set(current.subarray(0, size))
+        await this.backend.writeBinary(this.backendPath, content)
+      }
+      this.modified = true
+    })
+  }
+
+  stat(): Promise<FileStats> {
+    return this.run('fstat', () => this.backend.stat(this.backendPath))
+  }
+
+  /**
+   * Wait for pending operations and emit file:modified if the file changed
+   * Writes reach storage as they are made, so there is nothing else to flush
+   */
+  sync(): Promise<void> {
+    return this.run('fsync', async () => this.flush())
+  }
+
+  /**
+   * Sync and close the handle; later calls fail with EBADF
+   */
+  async close(): Promise<void> {
+    if (this.closed) return
+    this.closed = true
+    await this.queue
+    this.flush()
+  }
+
+  private flush(): void {
+    if (this.modified) {
+      this.modified = false
+      this.onModified?.()
+    }
+  }
+
+  private run<T>(syscall: string, operation: () => Promise<T>): Promise<T> {
+    if (this.closed) {
+      return Promise.reject(new FileSystemError('EBADF', this.path, syscall))
+    }
+
+    const result = this.queue.then(operation)
+    this.queue = result.catch(() => undefined)
+    return result
+  }
+
+  private async size(): Promise<number> {
+    return (await this.backend.stat(this.backendPath)).size
+  }
+
+  private async readRange(start: number, end: number): Promise<Uint8Array> {
+    if (this.backend.readRange) {
+      return this.backend.readRange(this.backendPath, start, end)
+    }
+    return (await this.backend.readBinary(this.backendPath)).slice(start, end)
+  }
+
+  private async prepareModify(): Promise<void> {
+    if (this.beforeModify) {
+      await this.beforeModify()
+      this.beforeModify = undefined
+    }
+  }
+
+  private async writeRange(position: number, data: Uint8Array): Promise<void> {
+    if (this.beforeResize) {
+      await this.beforeResize(Math.max(await this.size(), position + data.length))
+    }
+    await this.prepareModify()
+    if (this.backend.writeRange) {
+      await this.backend.writeRange(this.backendPath, position, data)
+    } else {
+      const current = await this.backend.readBinary(this.backendPath)
+      const content = new Uint8Array(Math.max(current.length, position + data.length))
+      content.set(current)
+      content.set(data, position)
+      await this.backend.writeBinary(this.backendPath, content)
+    }
+    this.modified = true
+  }
+}
@@ -5,6 +5,7 @@
  * abstracting over different backends:
  * - OPFS (primary storage for documents, compiler, output)
  * - IndexedDB (fallback for browsers without OPFS)
+ * - Memory (scratch mounts, SSR and tests)
  *
  * The service manages multiple mount points, allowing different parts
  * of the filesystem to be backed by different storage mechanisms.
@@ -24,17 +25,134 @@ import type {
   WriteOptions,
   WriteBinaryBatchEntry,
   WriteBinaryBatchOptions,
+  CopyOptions,
+  MigrateOptions,
+  MigrationVerification,
+  ReadStreamOptions,
+  OpenFlags,
+  TransactionOperation,
+  WatchOptions,
+  MountConfig,
+  ExternalChangeOptions,
+  GlobOptions,
+  TreeEntry,
+  WalkEntry,
+  WalkOptions,
+  DiskUsage,
+  StorageInfo,
+  CacheOptions,
+  HistoryOptions,
+  Revision,
+  TrashOptions,
+  TrashEntry,
+  HashAlgorithm,
+  ExportZipOptions,
+  ImportZipOptions,
+  ImportTarOptions,
 } from './types.js'
+import { FileSystemError, isFileSystemError } from './errors.js'
+import { FileHandle } from './FileHandle.js'
+import { FileSystemTransaction } from './FileSystemTransaction.js'
+import { FileSystemWatcher, watchEvents, type WatchListener } from './watch.js'
+import { createBroadcastBridge, type BroadcastOptions } from './broadcast.js'
+import { createBufferedWriteStream, createRangeStream, resolveRange } from './streams.js'
+import { DEFAULT_POLL_INTERVAL } from './opfsWatch.js'
+import { createGlobMatcher, getGlobBase } from './glob.js'
+import { MountCache } from './cache.js'
+import { digest } from './hash.js'
+import { createZipStream, readZip, type ZipEntry, type ZipArchiveEntry } from './zip.js'
+import { gunzipIfNeeded, readTar } from './tar.js'
+import { HISTORY_DIR, TRASH_DIR } from './constants.js'
 
 interface MountPoint {
   path: string
   backend: FileSystemBackend
+  /** As passed to mount(), to mount another backend the same way */
+  config: MountConfig
+  /** Stops external change detection */
+  stopWatching?: () => void
+  /** LRU tracking for cache mounts */
+  cache?: MountCache
+  /** Revision limits for history mounts */
+  history?: HistoryOptions
+  /** Retention of mounts with a trash */
+  trash?: Required<TrashOptions>
 }
 
-export type BackendPreference = 'opfs' | 'indexeddb' | 'auto'
+/** Record of a trashed entry, stored next to it */
+interface TrashInfo {
+  /** Backend-relative path the entry was deleted from */
+  path: string
+  deletedAt: number
+  isDirectory: boolean
+}
+
+const DEFAULT_MAX_REVISIONS = 10
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Names inside each trash entry's directory */
+const TRASH_ITEM = 'item'
+const TRASH_INFO = 'info.json'
+
+/** Tells apart ids created within the same millisecond */
+let idSequence = 0
+
+/** Id of a revision or trash entry; starts with its creation time */
+function createTimestampId(): string {
+  return `${Date.now()}-${(idSequence++).toString(36)}`
+}
+
+function bytesEqual(a: Uint8Array | undefined, b: Uint8Array | undefined): boolean {
+  if (!a || !b || a.length !== b.length) return false
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false
+  }
+  return true
+}
+
+/** Whether an id from a caller can be used as a single path component */
+function isValidId(id: string): boolean {
+  return id !== '' && id !== '.' && id !== '..' && !id.includes('/')
+}
+
+/** Whether a backend-relative path is in the history or trash directory */
+function isInternalPath(relativePath: string): boolean {
+  const name = relativePath.split('/')[1]
+  return name === HISTORY_DIR || name === TRASH_DIR
+}
+
+/**
+ * Whether listings leave out a backend-relative path: the history and trash
+ * directories of mounts using them. Once a mount no longer uses them, they
+ * are listed like any other directory, so they can be cleaned up.
+ */
+function isHiddenPath(mount: MountPoint, relativePath: string): boolean {
+  const name = relativePath.split('/')[1]
+  return (!!mount.history && name === HISTORY_DIR) || (!!mount.trash && name === TRASH_DIR)
+}
+
+/**
+ * Contents of a directory tree, with paths relative to the tree root
+ * Directories are listed parents first
+ */
+interface TreeListing {
+  dirs: string[]
+  files: Array<{ path: string; size: number; mtime: Date }>
+}
+
+/** Shared by the directories of one walk() */
+interface WalkState {
+  rootMount: MountPoint | undefined
+  followMounts: boolean
+  withStats: boolean
+  /** Children by backend-relative parent path, for mounts listed with listTree() */
+  trees: Map<MountPoint, Map<string, TreeEntry[]>>
+}
+
+export type BackendPreference = 'opfs' | 'indexeddb' | 'memory' | 'auto'
 
-export interface MountOptions {
-  /** Which backend to use: 'opfs', 'indexeddb', or 'auto' (default: 'auto') */
+export interface MountOptions extends MountConfig {
+  /** Which backend to use: 'opfs', 'indexeddb', 'memory', or 'auto' (default: 'auto') */
   backend?: BackendPreference
 }
 
@@ -47,6 +165,13 @@ export function isOPFSAvailable(): boolean {
     'getDirectory' in navigator.storage
 }
 
+/**
+ * Check if IndexedDB is available in the current environment
+ */
+export function isIndexedDBAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
+
 /**
  * Test if OPFS write support works (Safari doesn't support createWritable)
  */
@@ -100,6 +225,14 @@ export async function getBestBackend(): Promise<FileSystemBackend> {
 
   // Run the test once and cache the result
   bestBackendPromise = (async () => {
+    // Without any browser storage (SSR, plain runtimes) fall back to memory
+    if (!isOPFSAvailable() && !isIndexedDBAvailable()) {
+      const { memoryBackend } = await import('./MemoryBackend.js')
+      console.log('[FileSystem] No browser storage available, using memory backend')
+      cachedBestBackend = memoryBackend
+      return memoryBackend
+    }
+
     // Lazy import to avoid circular dependencies
     const { opfsBackend } = await import('./OPFSBackend.js')
     const { indexedDBBackend } = await import('./IndexedDBBackend.js')
@@ -138,6 +271,7 @@ export async function getBestBackend(): Promise<FileSystemBackend> {
 export async function getBackend(preference: BackendPreference): Promise<FileSystemBackend> {
   const { opfsBackend } = await import('./OPFSBackend.js')
   const { indexedDBBackend } = await import('./IndexedDBBackend.js')
+  const { memoryBackend } = await import('./MemoryBackend.js')
 
   switch (preference) {
     case 'opfs':
@@ -147,6 +281,8 @@ export async function getBackend(preference: BackendPreference): Promise<FileSys
       return opfsBackend
     case 'indexeddb':
       return indexedDBBackend
+    case 'memory':
+      return memoryBackend
     case 'auto':
     default:
       return getBestBackend()
@@ -156,20 +292,57 @@ export async function getBackend(preference: BackendPreference): Promise<FileSys
 export class FileSystemService {
   private mounts: MountPoint[] = []
   private eventHandlers: Set<FileSystemEventHandler> = new Set()
+  /** When each path last had an event, to recognise our own changes coming back from a backend watcher */
+  private recentEvents: Map<string, number> = new Map()
+  /** Keeps cache mounts informed of changes; set while any cache mount exists */
+  private stopCacheTracking: (() => void) | null = null
 
   /**
    * Mount a backend at a specific path
    * More specific paths take precedence
+   *
+   * @example
+   * // Also emit events when a compiler writes to OPFS directly
+   * fileSystem.mount('/output', opfsBackend, { detectExternalChanges: true })
+   *
+   * // Regenerable files, least recently used evicted beyond 500 MB
+   * fileSystem.mount('/compiler', opfsBackend, { cache: { maxBytes: 500 * 1024 * 1024 } })
+   *
+   * // Keep a week of earlier versions of each document
+   * fileSystem.mount('/documents', idbBackend, { history: { maxAgeDays: 7 } })
+   *
+   * // Deletes can be undone for 30 days
+   * fileSystem.mount('/projects', opfsBackend, { trash: true })
    */
-  mount(path: string, backend: FileSystemBackend): void {
+  mount(path: string, backend: FileSystemBackend, config: MountConfig = {}): void {
     // Normalize path
     const normalizedPath = this.normalizeMountPath(path)
 
     // Remove existing mount at same path
-    this.mounts = this.mounts.filter(m => m.path !== normalizedPath)
+    this.unmount(normalizedPath)
 
     // Add new mount
-    this.mounts.push({ path: normalizedPath, backend })
+    const mount: MountPoint = { path: normalizedPath, backend, config }
+    if (config.detectExternalChanges && backend.watchChanges) {
+      mount.stopWatching = this.watchExternalChanges(mount, config.detectExternalChanges)
+    }
+    if (config.cache) {
+      mount.cache = this.createMountCache(mount, config.cache)
+      this.stopCacheTracking ??= this.subscribe(event => this.trackCacheChange(event))
+    }
+    if (config.history) {
+      const options = config.history === true ? {} : config.history
+      mount.history = options.maxRevisions === undefined && options.maxAgeDays === undefined
+        ? { maxRevisions: DEFAULT_MAX_REVISIONS }
+        : options
+    }
+    if (config.trash) {
+      const retentionDays = config.trash === true ? undefined : config.trash.retentionDays
+      mount.trash = { retentionDays: retentionDays ?? DEFAULT_TRASH_RETENTION_DAYS }
+      // Entries may have expired since the backend was last mounted
+      this.purgeTrash(mount).catch(() => {})
+    }
+    this.mounts.push(mount)
 
     // Sort by path length descending (most specific first)
     this.mounts.sort((a, b) => b.path.length - a.path.length)
@@ -191,11 +364,14 @@ export class FileSystemService {
    *
    * // Force IndexedDB
    * await fileSystem.mountAuto('/documents', { backend: 'indexeddb' })
+   *
+   * // Scratch space that is never persisted
+   * await fileSystem.mountAuto('/tmp', { backend: 'memory' })
    */
   async mountAuto(path: string, options: MountOptions = {}): Promise<FileSystemBackend> {
     const preference = options.backend ?? 'auto'
     const backend = await getBackend(preference)
-    this.mount(path, backend)
+    this.mount(path, backend, options)
     return backend
   }
 
@@ -204,13 +380,287 @@ export class FileSystemService {
    */
   unmount(path: string): void {
     const normalizedPath = this.normalizeMountPath(path)
+    this.mounts.find(m => m.path === normalizedPath)?.stopWatching?.()
     this.mounts = this.mounts.filter(m => m.path !== normalizedPath)
+
+    if (this.stopCacheTracking && !this.mounts.some(m => m.cache)) {
+      this.stopCacheTracking()
+      this.stopCacheTracking = null
+    }
+  }
+
+  private createMountCache(mount: MountPoint, options: CacheOptions): MountCache {
+    const { backend } = mount
+    const mountDir = mount.path.slice(0, -1)
+
+    const scan = async () => {
+      const files = []
+      for await (const entry of this.walk(mount.path, { withStats: true })) {
+        if (!entry.isDirectory) {
+          files.push({ path: entry.path.slice(mountDir.length), size: entry.stats!.size, mtime: entry.stats!.mtime })
+        }
+      }
+      return files
+    }
+
+    const evict = async (path: string) => {
+      await backend.deleteFile(path)
+      this.emit({ type: 'file:deleted', path: mountDir + path })
+    }
+
+    return new MountCache(options, scan, evict)
+  }
+
+  /** Keep cache mounts up to date with changes, however they were made */
+  private trackCacheChange(event: FileSystemEvent): void {
+    if (!this.isMounted(event.path)) return
+    const { backend, relativePath, mount } = this.getBackendForPath(event.path)
+    const cache = mount.cache
+    if (!cache) return
+
+    switch (event.type) {
+      case 'file:created':
+      case 'file:modified':
+        backend.stat(relativePath)
+          .then(stats => cache.record(relativePath, stats.size))
+          .catch(() => {})
+        break
+      case 'file:deleted':
+      case 'directory:deleted':
+      case 'file:trashed':
+        cache.forget(relativePath)
+        break
+    }
+  }
+
+  /** Backend directory holding the revisions of a file */
+  private getHistoryDir(relativePath: string): string {
+    return `/${HISTORY_DIR}${relativePath}`
+  }
+
+  /** Keep the contents of a file about to be overwritten, on history mounts */
+  private async saveRevision(mount: MountPoint, relativePath: string): Promise<void> {
+    if (await this.copyRevision(mount, relativePath)) {
+      await this.pruneRevisions(mount.backend, this.getHistoryDir(relativePath), mount.history!)
+    }
+  }
+
+  /**
+   * Copy a file's contents into its history directory without pruning,
+   * returning the revision's backend path, or null if none was needed
+   */
+  private async copyRevision(mount: MountPoint, relativePath: string): Promise<string | null> {
+    const { backend, history } = mount
+    if (!history || relativePath.startsWith(`/${HISTORY_DIR}/`)) return null
+    if (!(await backend.exists(relativePath))) return null
+    // Writing over a directory fails on its own
+    if ((await backend.stat(relativePath)).isDirectory) return null
+
+    const dir = this.getHistoryDir(relativePath)
+    const revision = `${dir}/${createTimestampId()}`
+    await backend.mkdir(dir)
+    // Copying within the backend lets deduplicating storage share the contents
+    await backend.copyFile(relativePath, revision)
+    return revision
+  }
+
+  /** Revision files in a history directory, newest first */
+  private async listRevisions(
+    backend: FileSystemBackend,
+    dir: string
+  ): Promise<Array<{ id: string; savedAt: Date; sequence: number }>> {
+    let entries: FileEntry[]
+    try {
+      entries = await backend.readdir(dir)
+    } catch (error) {
+      if (isFileSystemError(error) && (error.code === 'ENOENT' || error.code === 'ENOTDIR')) return []
+      throw error
+    }
+
+    // Subdirectories hold the revisions of files inside a directory of the same name
+    return entries
+      .filter(entry => !entry.isDirectory)
+      .map(entry => {
+        const [time, sequence] = entry.name.split('-')
+        return { id: entry.name, savedAt: new Date(Number(time)), sequence: parseInt(sequence, 36) }
+      })
+      .sort((a, b) => b.savedAt.getTime() - a.savedAt.getTime() || b.sequence - a.sequence)
+  }
+
+  /** Delete revisions beyond a history mount's limits */
+  private async pruneRevisions(backend: FileSystemBackend, dir: string, history: HistoryOptions): Promise<void> {
+    const cutoff = history.maxAgeDays !== undefined ? Date.now() - history.maxAgeDays * DAY_MS : -Infinity
+    const revisions = await this.listRevisions(backend, dir)
+    for (const [index, revision] of revisions.entries()) {
+      if (index >= (history.maxRevisions ?? Infinity) || revision.savedAt.getTime() < cutoff) {
+        await backend.deleteFile(`${dir}/${revision.id}`)
+      }
+    }
+  }
+
+  /** Delete the revisions of a file, or of everything in a directory tree */
+  private async dropRevisions(backend: FileSystemBackend, relativePath: string, isDirectory: boolean): Promise<void> {
+    const dir = this.getHistoryDir(relativePath)
+    if (isInternalPath(relativePath) || !(await backend.exists(dir))) return
+    if (isDirectory) {
+      await backend.rmdir(dir, { recursive: true })
+      return
+    }
+
+    for (const entry of await backend.readdir(dir)) {
+      if (!entry.isDirectory) await backend.deleteFile(entry.path)
+    }
+    if ((await backend.readdir(dir)).length === 0) {
+      await backend.rmdir(dir)
+    }
+  }
+
+  /** Move the revisions of a renamed file or directory tree along with it */
+  private async moveRevisions(
+    source: { backend: FileSystemBackend; relativePath: string },
+    target: { backend: FileSystemBackend; relativePath: string },
+    isDirectory: boolean
+  ): Promise<void> {
+    if (isInternalPath(source.relativePath) || isInternalPath(target.relativePath)) return
+    const from = this.getHistoryDir(source.relativePath)
+    const to = this.getHistoryDir(target.relativePath)
+    if (!(await source.backend.exists(from))) return
+
+    if (source.backend === target.backend && isDirectory && !(await target.backend.exists(to))) {
+      await target.backend.mkdir(this.getParentPath(to))
+      await target.backend.rename(from, to)
+      return
+    }
+
+    // A file's own revisions are the files directly in its history directory
+    const tree = await this.collectTree(source.backend, from, (_path, isDir) => isDirectory || !isDir)
+    for (const dir of ['', ...tree.dirs]) {
+      await target.backend.mkdir(to + dir)
+    }
+    if (source.backend === target.backend) {
+      for (const file of tree.files) {
+        await source.backend.rename(from + file.path, to + file.path)
+      }
+    } else {
+      await this.transferFiles(source.backend, target.backend, tree.files.map(file => ({
+        from: from + file.path,
+        to: to + file.path,
+        mtime: file.mtime
+      })))
+    }
+    await this.dropRevisions(source.backend, source.relativePath, isDirectory)
+  }
+
+  private isTrashPath(relativePath: string): boolean {
+    return relativePath === `/${TRASH_DIR}` || relativePath.startsWith(`/${TRASH_DIR}/`)
+  }
+
+  /** Move a file or directory tree into its mount's trash */
+  private async moveToTrash(
+    mount: MountPoint,
+    path: string,
+    relativePath: string,
+    isDirectory: boolean,
+    silent?: boolean
+  ): Promise<void> {
+    const { backend } = mount
+    const syscall = isDirectory ? 'rmdir' : 'unlink'
+    if (relativePath === '/') {
+      throw new FileSystemError('EACCES', path, syscall)
+    }
+    if (!(await backend.exists(relativePath))) {
+      throw new FileSystemError('ENOENT', path, syscall)
+    }
+    if ((await backend.stat(relativePath)).isDirectory !== isDirectory) {
+      throw new FileSystemError(isDirectory ? 'ENOTDIR' : 'EISDIR', path, syscall)
+    }
+
+    const id = createTimestampId()
+    const dir = `/${TRASH_DIR}/${id}`
+    const info: TrashInfo = { path: relativePath, deletedAt: Date.now(), isDirectory }
+    await backend.mkdir(dir)
+    try {
+      await backend.writeFile(`${dir}/${TRASH_INFO}`, JSON.stringify(info))
+      await backend.rename(relativePath, `${dir}/${TRASH_ITEM}`)
+    } catch (error) {
+      await backend.rmdir(dir, { recursive: true }).catch(() => {})
+      throw error
+    }
+
+    if (!silent) {
+      this.emit({ type: 'file:trashed', path: this.normalizePath(path), id, isDirectory })
+    }
+    // The delete itself succeeded; expired entries are purged again on the next one
+    await this.purgeTrash(mount).catch(() => {})
+  }
+
+  /** Entries in a backend's trash; incomplete ones are left out */
+  private async readTrash(backend: FileSystemBackend): Promise<Array<{ id: string; info: TrashInfo }>> {
+    let entries: FileEntry[]
+    try {
+      entries = await backend.readdir(`/${TRASH_DIR}`)
+    } catch (error) {
+      if (isFileSystemError(error) && (error.code === 'ENOENT' || error.code === 'ENOTDIR')) return []
+      throw error
+    }
+
+    const trash = []
+    for (const entry of entries) {
+      const dir = `/${TRASH_DIR}/${entry.name}`
+      if (!entry.isDirectory || !(await backend.exists(`${dir}/${TRASH_ITEM}`))) continue
+      try {
+        trash.push({ id: entry.name, info: JSON.parse(await backend.readFile(`${dir}/${TRASH_INFO}`)) as TrashInfo })
+      } catch {
+        // Interrupted while trashing
+      }
+    }
+    return trash
+  }
+
+  /** Permanently delete trash entries past the mount's retention */
+  private async purgeTrash(mount: MountPoint): Promise<void> {
+    const cutoff = Date.now() - mount.trash!.retentionDays * DAY_MS
+    for (const { id, info } of await this.readTrash(mount.backend)) {
+      if (info.deletedAt < cutoff) {
+        await this.deleteTrashEntry(mount.backend, id, info)
+      }
+    }
+  }
+
+  /** Permanently delete a trash entry, and its revisions unless its path has been taken again */
+  private async deleteTrashEntry(backend: FileSystemBackend, id: string, info: TrashInfo): Promise<void> {
+    await backend.rmdir(`/${TRASH_DIR}/${id}`, { recursive: true })
+    if (!(await backend.exists(info.path))) {
+      await this.dropRevisions(backend, info.path, info.isDirectory)
+    }
+  }
+
+  /**
+   * Re-emit a backend's own change reports under the mount path
+   * Reports for paths that had an event within the last couple of scan
+   * intervals are taken to be echoes of changes made through the service.
+   */
+  private watchExternalChanges(
+    mount: MountPoint,
+    detect: true | ExternalChangeOptions
+  ): () => void {
+    const options = detect === true ? {} : detect
+    const echoWindow = 2 * (options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL)
+    const prefix = mount.path.slice(0, -1)
+
+    return mount.backend.watchChanges!((event) => {
+      const path = prefix + event.path
+      const last = this.recentEvents.get(path)
+      if (last !== undefined && Date.now() - last < echoWindow) return
+      // Bypass emit() so repeated external changes to one path aren't mistaken for echoes
+      this.eventHandlers.forEach(handler => handler({ ...event, path }))
+    }, options)
   }
 
   /**
    * Get the backend for a given path
    */
-  private getBackendForPath(path: string): { backend: FileSystemBackend; relativePath: string } {
+  private getBackendForPath(path: string): { backend: FileSystemBackend; relativePath: string; mount: MountPoint } {
     const normalizedPath = this.normalizePath(path)
 
     for (const mount of this.mounts) {
@@ -220,11 +670,11 @@ export class FileSystemService {
         if (!relativePath.startsWith('/')) {
           relativePath = '/' + relativePath
         }
-        return { backend: mount.backend, relativePath }
+        return { backend: mount.backend, relativePath, mount }
       }
     }
 
-    throw new Error(`No filesystem mounted for path: ${path}`)
+    throw new FileSystemError('ENOMOUNT', path)
   }
 
   private normalizePath(path: string): string {
@@ -250,24 +700,210 @@ export class FileSystemService {
     return () => this.eventHandlers.delete(handler)
   }
 
+  /**
+   * Watch a file or directory for changes
+   *
+   * Only events for the path itself and entries below it (direct children
+   * unless `recursive`) that match `include` are delivered. Bursts of events,
+   * such as those from writeBinaryBatch, arrive as a single batch.
+   *
+   * With a listener, returns an unsubscribe function; without one, returns
+   * an async iterator of event batches.
+   *
+   * @example
+   * const stop = fileSystem.watch('/documents/proj', { recursive: true, include: ['**\/*.tex'] }, (events) => {
+   *   scheduleCompile()
+   * })
+   */
+  watch(path: string, options: WatchOptions, listener: WatchListener): () => void
+  watch(path: string, options?: WatchOptions): FileSystemWatcher
+  watch(path: string, options: WatchOptions = {}, listener?: WatchListener): (() => void) | FileSystemWatcher {
+    let root = this.normalizePath(path)
+    if (root.length > 1 && root.endsWith('/')) {
+      root = root.slice(0, -1)
+    }
+
+    const start = (onEvents: WatchListener) =>
+      watchEvents(handler => this.subscribe(handler), root, options, onEvents)
+    return listener ? start(listener) : new FileSystemWatcher(start)
+  }
+
+  /**
+   * Share events with other tabs and workers of this origin (opt-in)
+   *
+   * Events emitted here are published on a BroadcastChannel, and events
+   * published elsewhere are re-emitted to local subscribers with `origin`
+   * set to the publishing context. Does nothing where BroadcastChannel is
+   * unavailable.
+   *
+   * @returns Function that disconnects the bridge
+   */
+  broadcastEvents(options: BroadcastOptions = {}): () => void {
+    if (typeof BroadcastChannel === 'undefined') {
+      return () => {}
+    }
+    return createBroadcastBridge(handler => this.subscribe(handler), event => this.emit(event), options)
+  }
+
   private emit(event: FileSystemEvent): void {
+    if (this.mounts.some(m => m.stopWatching)) {
+      this.trackRecentEvent(event.path)
+    }
     this.eventHandlers.forEach(handler => handler(event))
   }
 
+  private trackRecentEvent(path: string): void {
+    const now = Date.now()
+    if (this.recentEvents.size > 1000) {
+      for (const [p, time] of this.recentEvents) {
+        if (now - time > 60_000) this.recentEvents.delete(p)
+      }
+    }
+    this.recentEvents.set(path, now)
+  }
+
   // File Operations
 
   async readFile(path: string): Promise<string> {
-    const { backend, relativePath } = this.getBackendForPath(path)
-    return backend.readFile(relativePath)
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+    const content = await backend.readFile(relativePath)
+    mount.cache?.touch(relativePath)
+    return content
   }
 
   async readBinary(path: string): Promise<Uint8Array> {
-    const { backend, relativePath } = this.getBackendForPath(path)
-    return backend.readBinary(relativePath)
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+    const content = await backend.readBinary(relativePath)
+    mount.cache?.touch(relativePath)
+    return content
+  }
+
+  /**
+   * Hex digest of a file's contents
+   * Backends cache digests until the file changes, so hashing an unchanged
+   * file again doesn't read it.
+   *
+   * @example
+   * const digest = await fileSystem.hash('/compiler/pdflatex.fmt')
+   */
+  async hash(path: string, algorithm: HashAlgorithm = 'SHA-256'): Promise<string> {
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+    const value = await this.hashInBackend(backend, relativePath, algorithm)
+    mount.cache?.touch(relativePath)
+    return value
+  }
+
+  /** Digest from the backend's cache, or computed from the contents */
+  private async hashInBackend(backend: FileSystemBackend, path: string, algorithm: HashAlgorithm): Promise<string> {
+    return backend.hash
+      ? backend.hash(path, algorithm)
+      : digest(await backend.readBinary(path), algorithm)
+  }
+
+  /**
+   * Digests of several files
+   * Missing files and paths without a mount are left out of the result.
+   */
+  async hashBatch(paths: string[], algorithm: HashAlgorithm = 'SHA-256'): Promise<Map<string, string>> {
+    const results = new Map<string, string>()
+    for (const path of paths) {
+      try {
+        results.set(path, await this.hash(path, algorithm))
+      } catch (error) {
+        if (error instanceof FileSystemError && (error.code === 'ENOENT' || error.code === 'ENOMOUNT')) continue
+        throw error
+      }
+    }
+    return results
+  }
+
+  /**
+   * Stream a file (or a byte range of it) without loading it into memory at once
+   *
+   * @example
+   * const stream = await fileSystem.readStream('/output/main.pdf', { highWaterMark: 1024 * 1024 })
+   * for await (const chunk of stream) { ... }
+   */
+  async readStream(path: string, options: ReadStreamOptions = {}): Promise<ReadableStream<Uint8Array>> {
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+    mount.cache?.touch(relativePath)
+
+    if (backend.readStream) {
+      return backend.readStream(relativePath, options)
+    }
+
+    // Fall back to reading the whole file and streaming slices of it
+    const content = await backend.readBinary(relativePath)
+    const { start, end } = resolveRange(content.length, options, path)
+    return createRangeStream(async (from, to) => content.subarray(from, to), start, end, options.highWaterMark)
+  }
+
+  /**
+   * Open a stream that replaces a file's contents
+   *
+   * The new contents become visible, and file:created/file:modified is
+   * emitted, when the stream is closed. Aborting discards the write.
+   *
+   * @example
+   * const response = await fetch(bundleUrl)
+   * await response.body!
+   *   .pipeThrough(new DecompressionStream('gzip'))
+   *   .pipeTo(await fileSystem.createWriteStream('/compiler/latex.fmt', { createParents: true }))
+   */
+  async createWriteStream(path: string, options?: WriteOptions): Promise<WritableStream<Uint8Array>> {
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+
+    if (options?.createParents) {
+      const parentPath = this.getParentPath(relativePath)
+      if (parentPath !== '/') {
+        await backend.mkdir(parentPath)
+      }
+    }
+
+    const existed = await backend.exists(relativePath)
+    const inner = backend.createWriteStream
+      ? await backend.createWriteStream(relativePath)
+      : createBufferedWriteStream(content => backend.writeBinary(relativePath, content))
+    const writer = inner.getWriter()
+    let size = 0
+
+    return new WritableStream<Uint8Array>({
+      write: (chunk) => {
+        size += chunk.byteLength
+        return writer.write(chunk)
+      },
+      close: async () => {
+        // The revision is only kept, and older ones pruned, once the new contents are in place
+        let revision: string | null
+        try {
+          await mount.cache?.reserve(relativePath, size)
+          revision = await this.copyRevision(mount, relativePath)
+        } catch (error) {
+          await writer.abort(error).catch(() => {})
+          throw error
+        }
+        try {
+          await writer.close()
+        } catch (error) {
+          if (revision) await backend.deleteFile(revision).catch(() => {})
+          throw error
+        }
+        if (revision) {
+          await this.pruneRevisions(backend, this.getHistoryDir(relativePath), mount.history!)
+        }
+        if (!options?.silent) {
+          this.emit({
+            type: existed ? 'file:modified' : 'file:created',
+            path: this.normalizePath(path)
+          })
+        }
+      },
+      abort: reason => writer.abort(reason)
+    })
   }
 
   async writeFile(path: string, content: string, options?: WriteOptions): Promise<void> {
-    const { backend, relativePath } = this.getBackendForPath(path)
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
 
     if (options?.createParents) {
       const parentPath = this.getParentPath(relativePath)
@@ -279,7 +915,9 @@ export class FileSystemService {
     // Only check exists if we need to emit events
     const shouldEmit = !options?.silent && this.eventHandlers.size > 0
     const existed = shouldEmit ? await backend.exists(relativePath) : false
-    await backend.writeFile(relativePath, content)
+    await mount.cache?.reserve(relativePath, new TextEncoder().encode(content).byteLength)
+    await this.saveRevision(mount, relativePath)
+    await backend.writeFile(relativePath, content, { atomic: options?.atomic })
 
     if (shouldEmit) {
       this.emit({
@@ -290,7 +928,7 @@ export class FileSystemService {
   }
 
   async writeBinary(path: string, content: Uint8Array, options?: WriteOptions): Promise<void> {
-    const { backend, relativePath } = this.getBackendForPath(path)
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
 
     if (options?.createParents) {
       const parentPath = this.getParentPath(relativePath)
@@ -302,7 +940,9 @@ export class FileSystemService {
     // Only check exists if we need to emit events
     const shouldEmit = !options?.silent && this.eventHandlers.size > 0
     const existed = shouldEmit ? await backend.exists(relativePath) : false
-    await backend.writeBinary(relativePath, content)
+    await mount.cache?.reserve(relativePath, content.byteLength)
+    await this.saveRevision(mount, relativePath)
+    await backend.writeBinary(relativePath, content, { atomic: options?.atomic })
 
     if (shouldEmit) {
       this.emit({
@@ -312,80 +952,724 @@ export class FileSystemService {
     }
   }
 
-  async deleteFile(path: string, options?: { silent?: boolean }): Promise<void> {
-    const { backend, relativePath } = this.getBackendForPath(path)
-    await backend.deleteFile(relativePath)
+  /**
+   * Earlier revisions of a file on a history mount, newest first
+   * Revisions stay while the file is in the trash, so it can be brought back.
+   *
+   * @example
+   * const [previous] = await fileSystem.history('/documents/main.tex')
+   * await fileSystem.restoreRevision('/documents/main.tex', previous.id)
+   */
+  async history(path: string): Promise<Revision[]> {
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+    const dir = this.getHistoryDir(relativePath)
+    if (mount.history) {
+      await this.pruneRevisions(backend, dir, mount.history)
+    }
 
-    if (!options?.silent) {
-      this.emit({ type: 'file:deleted', path: this.normalizePath(path) })
+    const revisions: Revision[] = []
+    for (const { id, savedAt } of await this.listRevisions(backend, dir)) {
+      const stats = await backend.stat(`${dir}/${id}`)
+      revisions.push({ id, savedAt, size: stats.size })
     }
+    return revisions
   }
 
-  async exists(path: string): Promise<boolean> {
+  /**
+   * Contents of a revision listed by history()
+   */
+  async readRevision(path: string, id: string): Promise<Uint8Array> {
+    const { backend, relativePath } = this.getBackendForPath(path)
+    if (!isValidId(id)) {
+      throw new FileSystemError('EINVAL', path, 'readrevision')
+    }
+
     try {
-      const { backend, relativePath } = this.getBackendForPath(path)
-      return backend.exists(relativePath)
-    } catch {
-      return false
+      return await backend.readBinary(`${this.getHistoryDir(relativePath)}/${id}`)
+    } catch (error) {
+      if (isFileSystemError(error) && (error.code === 'ENOENT' || error.code === 'ENOTDIR')) {
+        throw new FileSystemError('ENOENT', path, 'readrevision')
+      }
+      throw error
     }
   }
 
-  async stat(path: string): Promise<FileStats> {
-    const { backend, relativePath } = this.getBackendForPath(path)
-    return backend.stat(relativePath)
+  /**
+   * Bring a file back to a revision listed by history()
+   * This is a write like any other, so the contents it replaces become a
+   * revision themselves and the restore can be undone.
+   */
+  async restoreRevision(path: string, id: string, options?: { silent?: boolean }): Promise<void> {
+    const content = await this.readRevision(path, id)
+    await this.writeBinary(path, content, { createParents: true, silent: options?.silent })
   }
 
-  // Directory Operations
+  /**
+   * Open a file handle for positional reads and writes
+   *
+   * Opening with 'w' truncates the file; 'w' and 'a' create it if missing.
+   * file:created is emitted when the file is created, and file:modified when
+   * the handle is synced or closed after writing.
+   *
+   * @example
+   * const log = await fileSystem.open('/output/main.log', 'a')
+   * await log.write('Compiling main.tex\n')
+   * await log.close()
+   */
+  async open(path: string, flags: OpenFlags = 'r', options?: { silent?: boolean }): Promise<FileHandle> {
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+    const normalizedPath = this.normalizePath(path)
 
-  async mkdir(path: string, options?: { silent?: boolean }): Promise<void> {
-    const { backend, relativePath } = this.getBackendForPath(path)
-    await backend.mkdir(relativePath)
+    const stats = await backend.exists(relativePath) ? await backend.stat(relativePath) : null
+    if (stats?.isDirectory) {
+      throw new FileSystemError('EISDIR', path, 'open')
+    }
+    if (stats && flags.includes('x')) {
+      throw new FileSystemError('EEXIST', path, 'open')
+    }
+    if (!stats && flags.startsWith('r')) {
+      throw new FileSystemError('ENOENT', path, 'open')
+    }
 
-    if (!options?.silent) {
-      this.emit({ type: 'directory:created', path: this.normalizePath(path) })
+    const truncate = !stats || (flags.startsWith('w') && stats.size > 0)
+    if (truncate) {
+      await mount.cache?.reserve(relativePath, 0)
+      await this.saveRevision(mount, relativePath)
+      await backend.writeBinary(relativePath, new Uint8Array(0))
+      if (!options?.silent) {
+        this.emit({ type: stats ? 'file:modified' : 'file:created', path: normalizedPath })
+      }
     }
+
+    const onModified = options?.silent
+      ? undefined
+      : () => this.emit({ type: 'file:modified', path: normalizedPath })
+    // Contents left in place are kept as a revision once the handle first changes them
+    const beforeModify = mount.history && !truncate
+      ? () => this.saveRevision(mount, relativePath)
+      : undefined
+    // Cache mounts track the size as it changes, since silent writes emit nothing
+    const cache = mount.cache
+    const beforeResize = cache ? (size: number) => cache.reserve(relativePath, size) : undefined
+    return new FileHandle(normalizedPath, flags, backend, relativePath, onModified, beforeModify, beforeResize)
   }
 
-  async rmdir(path: string, options?: { recursive?: boolean; silent?: boolean }): Promise<void> {
-    const { backend, relativePath } = this.getBackendForPath(path)
-    await backend.rmdir(relativePath, options)
+  /**
+   * Write, delete and create several entries all-or-nothing
+   *
+   * The callback records changes on `tx`; they are committed together once
+   * it resolves, and discarded if it throws. All paths must be on the same
+   * mount (EXDEV otherwise). Events are emitted only after the commit.
+   * On mounts with a trash, deletes move the file there as part of the commit.
+   *
+   * @example
+   * await fileSystem.transaction(async (tx) => {
+   *   tx.writeFile('/documents/paper/main.tex', main)
+   *   tx.writeFile('/documents/paper/intro.tex', intro)
+   *   tx.writeFile('/documents/paper/project.json', JSON.stringify(meta))
+   * })
+   */
+  async transaction<T>(
+    callback: (tx: FileSystemTransaction) => Promise<T> | T,
+    options?: { silent?: boolean }
+  ): Promise<T> {
+    const tx = new FileSystemTransaction()
+    const result = await callback(tx)
+    const recorded = tx.finish()
+    if (recorded.length === 0) return result
+
+    // Readers can only see all or nothing within a single backend
+    let backend: FileSystemBackend | null = null
+    const relativeRecorded = recorded.map(op => {
+      const target = this.getBackendForPath(op.path)
+      if (backend && target.backend !== backend) {
+        throw new FileSystemError('EXDEV', op.path, 'transaction')
+      }
+      backend = target.backend
+      return { ...op, path: target.relativePath }
+    })
+    const targetBackend: FileSystemBackend = backend!
 
-    if (!options?.silent) {
-      this.emit({ type: 'directory:deleted', path: this.normalizePath(path) })
-    }
-  }
+    const kept = await this.collapseOperations(targetBackend, recorded, relativeRecorded)
+    const operations = kept.map(i => recorded[i])
+    const relativeOperations = kept.map(i => relativeRecorded[i])
+    if (operations.length === 0) return result
 
-  async readdir(path: string): Promise<FileEntry[]> {
-    const { backend, relativePath } = this.getBackendForPath(path)
-    const entries = await backend.readdir(relativePath)
+    // Record what existed before the commit to pick the right events
+    const shouldEmit = !options?.silent && this.eventHandlers.size > 0
+    const existed = shouldEmit
+      ? await Promise.all(relativeOperations.map(op => op.type === 'write' && targetBackend.exists(op.path)))
+      : []
+
+    const revisions = await this.revisionOperations(targetBackend, operations, relativeOperations)
+    const trashed = await this.trashDeletes(targetBackend, operations, relativeOperations)
+    const committed = relativeOperations.flatMap((op, i) => [
+      ...(revisions.get(i) ?? []),
+      ...(trashed.get(i)?.operations ?? [op])
+    ])
+
+    if (targetBackend.applyTransaction) {
+      await targetBackend.applyTransaction(committed)
+    } else {
+      await this.applyOperations(targetBackend, committed)
+    }
+
+    if (shouldEmit) {
+      operations.forEach((op, i) => {
+        const id = trashed.get(i)?.id
+        if (id) {
+          this.emit({ type: 'file:trashed', path: op.path, id, isDirectory: false })
+          return
+        }
+        const type = op.type === 'mkdir'
+          ? 'directory:created'
+          : op.type === 'delete' ? 'file:deleted' : existed[i] ? 'file:modified' : 'file:created'
+        this.emit({ type, path: op.path })
+      })
+    }
+
+    // Files deleted for good take their revisions with them
+    for (const [i, op] of relativeOperations.entries()) {
+      if (op.type !== 'delete' || trashed.has(i)) continue
+      await this.dropRevisions(targetBackend, op.path, false)
+    }
+    // The commit itself succeeded; limits are applied again on the next write
+    for (const i of revisions.keys()) {
+      const { mount, relativePath } = this.getBackendForPath(operations[i].path)
+      await this.pruneRevisions(targetBackend, this.getHistoryDir(relativePath), mount.history!).catch(() => {})
+    }
+    if (trashed.size > 0) {
+      const [index] = trashed.keys()
+      await this.purgeTrash(this.getBackendForPath(operations[index].path).mount).catch(() => {})
+    }
+
+    return result
+  }
+
+  /**
+   * Indexes of the operations that make up a transaction's net effect
+   * Writes and deletes apply in the order they were recorded, so a delete
+   * fails with ENOENT unless the file exists at that point. Only the last
+   * write or delete of each file is kept, and dropped too if it deletes a
+   * file the transaction created itself.
+   */
+  private async collapseOperations(
+    backend: FileSystemBackend,
+    operations: TransactionOperation[],
+    relativeOperations: TransactionOperation[]
+  ): Promise<number[]> {
+    const existedBefore = new Map<string, boolean>()
+    for (const op of relativeOperations) {
+      if (op.type === 'delete' && !existedBefore.has(op.path)) {
+        existedBefore.set(op.path, await backend.exists(op.path))
+      }
+    }
+
+    const present = new Map(existedBefore)
+    const last = new Map<string, number>()
+    for (const [i, op] of relativeOperations.entries()) {
+      if (op.type === 'mkdir') continue
+      if (op.type === 'delete' && !present.get(op.path)) {
+        throw new FileSystemError('ENOENT', operations[i].path, 'unlink')
+      }
+      present.set(op.path, op.type === 'write')
+      last.set(op.path, i)
+    }
+
+    return [...relativeOperations.keys()].filter(i => {
+      const op = relativeOperations[i]
+      if (op.type === 'mkdir') return true
+      return last.get(op.path) === i && (op.type === 'write' || existedBefore.get(op.path))
+    })
+  }
+
+  /**
+   * Operations that keep the contents a transaction's writes replace, by
+   * index of the write, for files on history mounts
+   */
+  private async revisionOperations(
+    backend: FileSystemBackend,
+    operations: TransactionOperation[],
+    relativeOperations: TransactionOperation[]
+  ): Promise<Map<number, TransactionOperation[]>> {
+    const revisions = new Map<number, TransactionOperation[]>()
+
+    for (const [i, op] of relativeOperations.entries()) {
+      const { mount } = this.getBackendForPath(operations[i].path)
+      if (op.type !== 'write' || !mount.history || isInternalPath(op.path)) continue
+      if (!(await backend.exists(op.path)) || (await backend.stat(op.path)).isDirectory) continue
+
+      revisions.set(i, [{
+        type: 'write',
+        path: `${this.getHistoryDir(op.path)}/${createTimestampId()}`,
+        content: await backend.readBinary(op.path)
+      }])
+    }
+
+    return revisions
+  }
+
+  /**
+   * Operations that move the files of a transaction's deletes into the
+   * trash, by index of the delete, for deletes on mounts with a trash
+   * The file is copied there rather than renamed.
+   */
+  private async trashDeletes(
+    backend: FileSystemBackend,
+    operations: TransactionOperation[],
+    relativeOperations: TransactionOperation[]
+  ): Promise<Map<number, { id: string; operations: TransactionOperation[] }>> {
+    const trashed = new Map<number, { id: string; operations: TransactionOperation[] }>()
+
+    for (const [i, op] of relativeOperations.entries()) {
+      const { mount } = this.getBackendForPath(operations[i].path)
+      if (op.type !== 'delete' || !mount.trash || this.isTrashPath(op.path)) continue
+
+      if ((await backend.stat(op.path)).isDirectory) {
+        throw new FileSystemError('EISDIR', operations[i].path, 'unlink')
+      }
+      const content = await backend.readBinary(op.path)
+
+      const id = createTimestampId()
+      const dir = `/${TRASH_DIR}/${id}`
+      const info: TrashInfo = { path: op.path, deletedAt: Date.now(), isDirectory: false }
+      trashed.set(i, {
+        id,
+        operations: [
+          { type: 'write', path: `${dir}/${TRASH_INFO}`, content: new TextEncoder().encode(JSON.stringify(info)) },
+          { type: 'write', path: `${dir}/${TRASH_ITEM}`, content },
+          op
+        ]
+      })
+    }
+
+    return trashed
+  }
+
+  /**
+   * Apply transaction operations one at a time, for backends without
+   * applyTransaction. If one fails, touched files are restored to their
+   * previous contents; readers may still observe the intermediate states.
+   */
+  private async applyOperations(backend: FileSystemBackend, operations: TransactionOperation[]): Promise<void> {
+    const undo: Array<() => Promise<void>> = []
+
+    try {
+      for (const op of operations) {
+        if (op.type === 'mkdir') {
+          await backend.mkdir(op.path)
+          continue
+        }
+
+        const previous = await backend.exists(op.path) ? await backend.readBinary(op.path) : null
+        if (op.type === 'write') {
+          await backend.writeBinary(op.path, op.content)
+        } else {
+          await backend.deleteFile(op.path)
+        }
+        undo.push(previous
+          ? () => backend.writeBinary(op.path, previous)
+          : () => backend.deleteFile(op.path))
+      }
+    } catch (e) {
+      for (const step of undo.reverse()) {
+        await step().catch(() => {})
+      }
+      throw e
+    }
+  }
+
+  /**
+   * Delete a file
+   * On mounts with a trash, the file is moved there instead and file:trashed
+   * is emitted; `permanent` skips the trash. Deleting for good also drops
+   * the file's revisions.
+   */
+  async deleteFile(path: string, options?: { silent?: boolean; permanent?: boolean }): Promise<void> {
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+    if (mount.trash && !options?.permanent && !this.isTrashPath(relativePath)) {
+      await this.moveToTrash(mount, path, relativePath, false, options?.silent)
+      return
+    }
+
+    await backend.deleteFile(relativePath)
+    await this.dropRevisions(backend, relativePath, false)
+
+    if (!options?.silent) {
+      this.emit({ type: 'file:deleted', path: this.normalizePath(path) })
+    }
+  }
+
+  async exists(path: string): Promise<boolean> {
+    try {
+      const { backend, relativePath } = this.getBackendForPath(path)
+      return backend.exists(relativePath)
+    } catch {
+      return false
+    }
+  }
+
+  async stat(path: string): Promise<FileStats> {
+    const { backend, relativePath } = this.getBackendForPath(path)
+    return backend.stat(relativePath)
+  }
+
+  // Directory Operations
+
+  async mkdir(path: string, options?: { silent?: boolean }): Promise<void> {
+    const { backend, relativePath } = this.getBackendForPath(path)
+    await backend.mkdir(relativePath)
+
+    if (!options?.silent) {
+      this.emit({ type: 'directory:created', path: this.normalizePath(path) })
+    }
+  }
+
+  /**
+   * Remove a directory
+   * On mounts with a trash, recursive removals move the tree there instead
+   * and emit file:trashed; `permanent` skips the trash.
+   */
+  async rmdir(path: string, options?: { recursive?: boolean; silent?: boolean; permanent?: boolean }): Promise<void> {
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+    if (mount.trash && options?.recursive && !options.permanent && !this.isTrashPath(relativePath)) {
+      await this.moveToTrash(mount, path, relativePath, true, options.silent)
+      return
+    }
+
+    await backend.rmdir(relativePath, options)
+    await this.dropRevisions(backend, relativePath, true)
+
+    if (!options?.silent) {
+      this.emit({ type: 'directory:deleted', path: this.normalizePath(path) })
+    }
+  }
+
+  /**
+   * Entries in the trash of every mount that has one, most recently deleted first
+   *
+   * @example
+   * const [latest] = await fileSystem.listTrash()
+   * await fileSystem.restore(latest.id)
+   */
+  async listTrash(): Promise<TrashEntry[]> {
+    const entries: TrashEntry[] = []
+    for (const mount of this.mounts) {
+      if (!mount.trash) continue
+      await this.purgeTrash(mount)
+      const prefix = mount.path.slice(0, -1)
+      for (const { id, info } of await this.readTrash(mount.backend)) {
+        entries.push({ id, path: prefix + info.path, deletedAt: new Date(info.deletedAt), isDirectory: info.isDirectory })
+      }
+    }
+    return entries.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime())
+  }
+
+  /**
+   * Move an entry listed by listTrash() back to where it was deleted from
+   * Missing parent directories are recreated; an entry already at that path
+   * fails with EEXIST.
+   *
+   * @returns The restored path
+   */
+  async restore(id: string, options?: { silent?: boolean }): Promise<string> {
+    if (!isValidId(id)) {
+      throw new FileSystemError('EINVAL', id, 'restore')
+    }
+
+    for (const mount of this.mounts) {
+      const { backend } = mount
+      const dir = `/${TRASH_DIR}/${id}`
+      if (!mount.trash || !(await backend.exists(`${dir}/${TRASH_INFO}`))) continue
+
+      const info: TrashInfo = JSON.parse(await backend.readFile(`${dir}/${TRASH_INFO}`))
+      const path = mount.path.slice(0, -1) + info.path
+      if (await backend.exists(info.path)) {
+        throw new FileSystemError('EEXIST', path, 'restore')
+      }
+      const parentPath = this.getParentPath(info.path)
+      if (parentPath !== '/') {
+        await backend.mkdir(parentPath)
+      }
+      await backend.rename(`${dir}/${TRASH_ITEM}`, info.path)
+      await backend.rmdir(dir, { recursive: true })
+
+      if (!options?.silent) {
+        this.emit({ type: 'file:restored', path, id, isDirectory: info.isDirectory })
+      }
+      return path
+    }
+
+    throw new FileSystemError('ENOENT', id, 'restore')
+  }
+
+  /**
+   * Permanently delete everything in the trash of every mount that has one
+   */
+  async emptyTrash(): Promise<void> {
+    for (const mount of this.mounts) {
+      if (!mount.trash) continue
+      for (const { id, info } of await this.readTrash(mount.backend)) {
+        await this.deleteTrashEntry(mount.backend, id, info)
+      }
+      // Incomplete entries too
+      if (await mount.backend.exists(`/${TRASH_DIR}`)) {
+        await mount.backend.rmdir(`/${TRASH_DIR}`, { recursive: true })
+      }
+    }
+  }
+
+  async readdir(path: string): Promise<FileEntry[]> {
+    const { backend, relativePath, mount } = this.getBackendForPath(path)
+    const entries = await backend.readdir(relativePath)
 
     // Translate paths back to absolute paths
-    const normalizedMountPath = this.normalizePath(path)
-    return entries.map(entry => ({
+    const mountDir = mount.path.slice(0, -1)
+    return entries.filter(entry => !isHiddenPath(mount, entry.path)).map(entry => ({
       ...entry,
-      path: normalizedMountPath === '/'
-        ? entry.path
-        : normalizedMountPath + entry.path.slice(1)
+      path: mountDir + entry.path
     }))
   }
 
+  /**
+   * Find files matching glob patterns, across all mounts
+   *
+   * Relative patterns are resolved against `cwd`. Matches of `!`-prefixed
+   * patterns and of `ignore` are left out. Returns sorted absolute paths.
+   *
+   * @example
+   * await fileSystem.glob('**\/*.aux', { cwd: '/output' })
+   * await fileSystem.glob(['**\/*.tex', '!build/**'], { cwd: '/documents/proj' })
+   */
+  async glob(patterns: string | string[], options: GlobOptions = {}): Promise<string[]> {
+    const { cwd = '/', ignore = [], onlyFiles = true, dot = false } = options
+    const base = this.normalizePath(cwd)
+    const resolve = (pattern: string) =>
+      pattern.startsWith('/') ? pattern : `${base}/${pattern.replace(/^\.\//, '')}`
+
+    const include: string[] = []
+    const exclude: string[] = typeof ignore === 'string' ? [ignore] : [...ignore]
+    for (const pattern of typeof patterns === 'string' ? [patterns] : patterns) {
+      if (pattern.startsWith('!')) {
+        exclude.push(pattern.slice(1))
+      } else {
+        include.push(resolve(pattern))
+      }
+    }
+    if (include.length === 0) return []
+
+    const matches = createGlobMatcher([...include, ...exclude.map(p => '!' + resolve(p))], { dot })
+
+    // Scan each distinct base directory once; bases inside another base are covered by it
+    const roots = [...new Set(include.map(p => '/' + getGlobBase(p)))]
+      .sort((a, b) => a.length - b.length)
+      .filter((root, i, all) => !all.slice(0, i).some(other => other === '/' || root.startsWith(other + '/')))
+
+    const results = new Set<string>()
+    for (const root of roots) {
+      for (const entry of await this.listMountedTree(root)) {
+        if (onlyFiles && entry.isDirectory) continue
+        if (matches(entry.path.slice(1))) {
+          results.add(entry.path)
+        }
+      }
+    }
+
+    return [...results].sort((a, b) => a.localeCompare(b))
+  }
+
+  /**
+   * Recursively iterate over the entries below a directory
+   *
+   * Entries of a directory come in readdir() order. On backends with
+   * listTree() (IndexedDB and memory) each mount is read with a single
+   * scan; others are read one directory at a time as the walk proceeds.
+   *
+   * @example
+   * for await (const entry of fileSystem.walk('/documents/proj', { withStats: true })) {
+   *   console.log(entry.path, entry.stats!.size)
+   * }
+   */
+  async *walk(root: string, options: WalkOptions = {}): AsyncGenerator<WalkEntry, void, undefined> {
+    const { depth = Infinity, followMounts = false, withStats = false, order = 'pre' } = options
+    const dir = this.normalizePath(root).replace(/(.)\/$/, '$1')
+    const rootMount = this.mounts.find(m => (dir === '/' ? '/' : dir + '/').startsWith(m.path))
+
+    if (rootMount) {
+      const { backend, relativePath } = this.getBackendForPath(dir)
+      if (relativePath !== '/' && !(await backend.stat(relativePath)).isDirectory) {
+        throw new FileSystemError('ENOTDIR', root, 'scandir')
+      }
+    } else if (!followMounts) {
+      throw new FileSystemError('ENOMOUNT', root)
+    }
+
+    const state: WalkState = { rootMount, followMounts, withStats, trees: new Map() }
+    yield* this.walkDirectory(dir, 1, depth, order, state)
+  }
+
+  private async *walkDirectory(
+    dir: string,
+    depth: number,
+    maxDepth: number,
+    order: 'pre' | 'post',
+    state: WalkState
+  ): AsyncGenerator<WalkEntry, void, undefined> {
+    for (const entry of await this.walkChildren(dir, state)) {
+      const walkEntry: WalkEntry = { ...entry, depth }
+      if (state.withStats && !walkEntry.stats) {
+        const { backend, relativePath } = this.getBackendForPath(entry.path)
+        walkEntry.stats = await backend.stat(relativePath)
+      }
+
+      if (order === 'pre') yield walkEntry
+      if (entry.isDirectory && depth < maxDepth) {
+        yield* this.walkDirectory(entry.path, depth + 1, maxDepth, order, state)
+      }
+      if (order === 'post') yield walkEntry
+    }
+  }
+
+  /**
+   * Children of a directory during a walk, with absolute paths
+   * Entries hidden by a nested mount are dropped; with followMounts the
+   * mount points (and directories leading to them) take their place.
+   */
+  private async walkChildren(dir: string, state: WalkState): Promise<TreeEntry[]> {
+    const prefix = dir === '/' ? '/' : dir + '/'
+    const mount = this.mounts.find(m => prefix.startsWith(m.path))
+    const children = new Map<string, TreeEntry>()
+
+    if (mount && (mount === state.rootMount || state.followMounts)) {
+      const mountDir = mount.path.slice(0, -1)
+      for (const entry of await this.readBackendDirectory(mount, '/' + prefix.slice(mount.path.length, -1), state)) {
+        const path = mountDir + entry.path
+        if (isHiddenPath(mount, entry.path)) continue
+        if (this.mounts.find(m => path.startsWith(m.path) || path === m.path.slice(0, -1)) === mount) {
+          children.set(path, { ...entry, path })
+        }
+      }
+    }
+
+    if (state.followMounts) {
+      for (const nested of this.mounts) {
+        if (nested.path.length > prefix.length && nested.path.startsWith(prefix)) {
+          const name = nested.path.slice(prefix.length).split('/')[0]
+          children.set(prefix + name, { name, path: prefix + name, isDirectory: true })
+        }
+      }
+    }
+
+    return [...children.values()].sort((a, b) => {
+      if (a.isDirectory !== b.isDirectory) {
+        return a.isDirectory ? -1 : 1
+      }
+      return a.name.localeCompare(b.name)
+    })
+  }
+
+  /** Direct children of a backend directory, from one listTree() scan per mount if possible */
+  private async readBackendDirectory(mount: MountPoint, path: string, state: WalkState): Promise<TreeEntry[]> {
+    const { backend } = mount
+    if (!backend.listTree) {
+      return backend.readdir(path)
+    }
+
+    let tree = state.trees.get(mount)
+    if (!tree) {
+      tree = new Map()
+      for (const entry of await backend.listTree(path, { withStats: state.withStats })) {
+        const parent = this.getParentPath(entry.path)
+        const siblings = tree.get(parent)
+        if (siblings) {
+          siblings.push(entry)
+        } else {
+          tree.set(parent, [entry])
+        }
+      }
+      state.trees.set(mount, tree)
+    }
+    return tree.get(path) ?? []
+  }
+
   // Utility Operations
 
+  /**
+   * Rename or move a file or directory
+   *
+   * Directories are moved with all their contents, also across backends.
+   * Revisions move along. Events are emitted for every file and directory
+   * in the moved tree.
+   */
   async rename(oldPath: string, newPath: string): Promise<void> {
     const oldBackend = this.getBackendForPath(oldPath)
     const newBackend = this.getBackendForPath(newPath)
+    const crossBackend = oldBackend.backend !== newBackend.backend
+    const stats = await oldBackend.backend.stat(oldBackend.relativePath)
+
+    if (!stats.isDirectory) {
+      if (crossBackend) {
+        // Cross-backend move: copy + delete
+        await this.transferFiles(oldBackend.backend, newBackend.backend, [
+          { from: oldBackend.relativePath, to: newBackend.relativePath, mtime: stats.mtime }
+        ])
+        await oldBackend.backend.deleteFile(oldBackend.relativePath)
+      } else {
+        await oldBackend.backend.rename(oldBackend.relativePath, newBackend.relativePath)
+      }
+      await this.moveRevisions(oldBackend, newBackend, false)
+
+      this.emit({ type: 'file:deleted', path: this.normalizePath(oldPath) })
+      this.emit({ type: 'file:created', path: this.normalizePath(newPath) })
+      return
+    }
+
+    // Only list the tree up front if we need it
+    const tree = crossBackend || this.eventHandlers.size > 0
+      ? await this.collectTree(oldBackend.backend, oldBackend.relativePath, undefined, oldBackend.mount)
+      : null
+
+    if (crossBackend) {
+      if (await newBackend.backend.exists(newBackend.relativePath)) {
+        throw new FileSystemError('EEXIST', newPath, 'rename')
+      }
 
-    if (oldBackend.backend !== newBackend.backend) {
-      // Cross-backend move: copy + delete
-      const content = await oldBackend.backend.readBinary(oldBackend.relativePath)
-      await newBackend.backend.writeBinary(newBackend.relativePath, content)
-      await oldBackend.backend.deleteFile(oldBackend.relativePath)
+      // Cross-backend move: copy the whole tree, then delete the source
+      await newBackend.backend.mkdir(newBackend.relativePath)
+      for (const dir of tree!.dirs) {
+        await newBackend.backend.mkdir(newBackend.relativePath + dir)
+      }
+      await this.transferFiles(oldBackend.backend, newBackend.backend, tree!.files.map(file => ({
+        from: oldBackend.relativePath + file.path,
+        to: newBackend.relativePath + file.path,
+        mtime: file.mtime
+      })))
+      await oldBackend.backend.rmdir(oldBackend.relativePath, { recursive: true })
     } else {
       await oldBackend.backend.rename(oldBackend.relativePath, newBackend.relativePath)
     }
+    await this.moveRevisions(oldBackend, newBackend, true)
+
+    if (tree) {
+      const from = this.normalizePath(oldPath).replace(/\/$/, '')
+      const to = this.normalizePath(newPath).replace(/\/$/, '')
 
-    this.emit({ type: 'file:deleted', path: this.normalizePath(oldPath) })
-    this.emit({ type: 'file:created', path: this.normalizePath(newPath) })
+      for (const file of tree.files) {
+        this.emit({ type: 'file:deleted', path: from + file.path })
+      }
+      for (const dir of [...tree.dirs].reverse()) {
+        this.emit({ type: 'directory:deleted', path: from + dir })
+      }
+      this.emit({ type: 'directory:deleted', path: from })
+
+      this.emit({ type: 'directory:created', path: to })
+      for (const dir of tree.dirs) {
+        this.emit({ type: 'directory:created', path: to + dir })
+      }
+      for (const file of tree.files) {
+        this.emit({ type: 'file:created', path: to + file.path })
+      }
+    }
   }
 
   async copyFile(src: string, dest: string): Promise<void> {
@@ -403,6 +1687,416 @@ export class FileSystemService {
     this.emit({ type: 'file:created', path: this.normalizePath(dest) })
   }
 
+  /**
+   * Copy a file or directory tree, also across backends
+   *
+   * Files are read and written in chunks through the backends' batch APIs.
+   *
+   * @example
+   * // Clone a project template from IndexedDB into OPFS
+   * await fileSystem.copy('/templates/article', '/documents/paper', {
+   *   recursive: true,
+   *   filter: entry => !entry.name.endsWith('.aux'),
+   *   onProgress: (completed, total) => console.log(`${completed}/${total}`)
+   * })
+   */
+  async copy(src: string, dest: string, options: CopyOptions = {}): Promise<void> {
+    const { recursive = false, overwrite = false, filter, onProgress } = options
+    const srcBackend = this.getBackendForPath(src)
+    const destBackend = this.getBackendForPath(dest)
+    const srcPath = this.normalizePath(src).replace(/\/$/, '')
+    const destPath = this.normalizePath(dest).replace(/\/$/, '')
+    const stats = await srcBackend.backend.stat(srcBackend.relativePath)
+
+    if (stats.isDirectory && !recursive) {
+      throw new FileSystemError('EISDIR', src, 'copy')
+    }
+    if (destPath === srcPath || destPath.startsWith(srcPath + '/')) {
+      throw new FileSystemError('EINVAL', dest, 'copy')
+    }
+
+    // Collect the files (and directories) to copy, relative to src
+    let tree: TreeListing
+    if (stats.isDirectory) {
+      tree = await this.collectTree(srcBackend.backend, srcBackend.relativePath, filter && ((path, isDirectory) =>
+        filter({ name: path.slice(path.lastIndexOf('/') + 1), path: srcPath + path, isDirectory })
+      ), srcBackend.mount)
+    } else {
+      tree = { dirs: [], files: [{ path: '', size: stats.size, mtime: stats.mtime }] }
+    }
+
+    if (!overwrite) {
+      const conflicts = await Promise.all(tree.files.map(file =>
+        destBackend.backend.exists(destBackend.relativePath + file.path)
+      ))
+      const index = conflicts.indexOf(true)
+      if (index !== -1) {
+        throw new FileSystemError('EEXIST', destPath + tree.files[index].path, 'copy')
+      }
+    }
+
+    if (stats.isDirectory) {
+      await destBackend.backend.mkdir(destBackend.relativePath)
+      for (const dir of tree.dirs) {
+        await destBackend.backend.mkdir(destBackend.relativePath + dir)
+      }
+    }
+
+    if (tree.files.length === 0) {
+      onProgress?.(0, 0)
+    }
+    await this.transferFiles(srcBackend.backend, destBackend.backend, tree.files.map(file => ({
+      from: srcBackend.relativePath + file.path,
+      to: destBackend.relativePath + file.path
+    })), { onProgress })
+
+    if (!options.silent && this.eventHandlers.size > 0) {
+      if (stats.isDirectory) {
+        this.emit({ type: 'directory:created', path: destPath })
+        for (const dir of tree.dirs) {
+          this.emit({ type: 'directory:created', path: destPath + dir })
+        }
+      }
+      for (const file of tree.files) {
+        this.emit({ type: 'file:created', path: destPath + file.path })
+      }
+    }
+  }
+
+  /**
+   * Move a mount's data to another backend, e.g. from IndexedDB to OPFS once
+   * the browser supports it
+   * Everything in the source backend is copied, with empty directories and
+   * file mtimes where the target records them. Each file is then checked
+   * against its copy, and only once all match is `path` remounted on the
+   * target with its current config. Running an interrupted migration again
+   * resumes it: files already copied are skipped, and copies that don't
+   * match are made again. Changes made below `path` while migrating may be
+   * missed.
+   *
+   * @example
+   * await fileSystem.migrate('/documents', indexedDBBackend, opfsBackend, {
+   *   deleteSource: true,
+   *   onProgress: (completed, total, phase) => console.log(`${phase}: ${completed}/${total}`)
+   * })
+   */
+  async migrate(
+    path: string,
+    fromBackend: FileSystemBackend,
+    toBackend: FileSystemBackend,
+    options: MigrateOptions = {}
+  ): Promise<void> {
+    const { verify = 'hash', deleteSource = false, onProgress } = options
+    const mountPath = this.normalizeMountPath(path)
+    if (fromBackend === toBackend) {
+      throw new FileSystemError('EINVAL', path, 'migrate')
+    }
+    // Other mounts of the source would lose their files
+    if (deleteSource && this.mounts.some(m => m.backend === fromBackend && m.path !== mountPath)) {
+      throw new FileSystemError('EINVAL', path, 'migrate')
+    }
+    const config = this.mounts.find(m => m.path === mountPath)?.config ?? {}
+
+    // Revisions and trashed entries move along with everything else
+    const tree = await this.collectTree(fromBackend, '/')
+    const files = new Map(tree.files.map(file => [file.path, file]))
+    for (const dir of tree.dirs) {
+      await toBackend.mkdir(dir)
+    }
+
+    // Files copied by an earlier run that was interrupted are left alone
+    const copied = await Promise.all(tree.files.map(async file => {
+      if (!(await toBackend.exists(file.path))) return false
+      const stats = await toBackend.stat(file.path)
+      return !stats.isDirectory && stats.size === file.size && stats.mtime.getTime() >= file.mtime.getTime()
+    }))
+    const pending = tree.files.filter((_, i) => !copied[i])
+    const skipped = tree.files.length - pending.length
+    const copy = (paths: string[], progress?: (completed: number) => void) =>
+      this.transferFiles(fromBackend, toBackend, paths.map(filePath => ({
+        from: filePath,
+        to: filePath,
+        mtime: files.get(filePath)!.mtime
+      })), { onProgress: progress })
+
+    onProgress?.(skipped, tree.files.length, 'copy')
+    await copy(pending.map(file => file.path), completed => onProgress?.(skipped + completed, tree.files.length, 'copy'))
+
+    let mismatched = await this.findMismatches(fromBackend, toBackend, [...files.keys()], verify, completed =>
+      onProgress?.(completed, tree.files.length, 'verify')
+    )
+    if (mismatched.length > 0) {
+      // Skipped files that changed since, or copies cut short
+      await copy(mismatched)
+      mismatched = await this.findMismatches(fromBackend, toBackend, mismatched, verify)
+      if (mismatched.length > 0) {
+        throw new FileSystemError('EIO', mountPath.slice(0, -1) + mismatched[0], 'migrate')
+      }
+    }
+
+    this.mount(mountPath, toBackend, config)
+
+    if (deleteSource) {
+      for (const entry of await fromBackend.readdir('/')) {
+        if (entry.isDirectory) {
+          await fromBackend.rmdir(entry.path, { recursive: true })
+        } else {
+          await fromBackend.deleteFile(entry.path)
+        }
+      }
+    }
+  }
+
+  /** Files whose copy in `target` is missing or differs from the source */
+  private async findMismatches(
+    source: FileSystemBackend,
+    target: FileSystemBackend,
+    paths: string[],
+    verify: MigrationVerification,
+    onProgress?: (completed: number) => void
+  ): Promise<string[]> {
+    const concurrency = 20
+    const mismatched: string[] = []
+
+    for (let i = 0; i < paths.length; i += concurrency) {
+      const chunk = paths.slice(i, i + concurrency)
+      if (verify === 'bytes') {
+        const [expected, actual] = await Promise.all([
+          this.readFromBackend(source, chunk),
+          this.readFromBackend(target, chunk)
+        ])
+        mismatched.push(...chunk.filter(path => !bytesEqual(expected.get(path), actual.get(path))))
+      } else {
+        const matches = await Promise.all(chunk.map(async path => {
+          const expected = await this.hashInBackend(source, path, 'SHA-256')
+          const actual = await this.hashInBackend(target, path, 'SHA-256').catch(() => null)
+          return expected === actual
+        }))
+        mismatched.push(...chunk.filter((_, j) => !matches[j]))
+      }
+      onProgress?.(i + chunk.length)
+    }
+    return mismatched
+  }
+
+  /**
+   * Pack a directory tree into a ZIP archive
+   * Paths in the archive are relative to `dir`; mounts nested below it are
+   * included. Files are read one at a time as the archive is produced.
+   *
+   * @example
+   * const zip = await fileSystem.exportZip('/documents/paper', {
+   *   filter: entry => !entry.name.endsWith('.aux')
+   * })
+   */
+  async exportZip(dir: string, options: ExportZipOptions = {}): Promise<Blob> {
+    return new Response(this.exportZipStream(dir, options)).blob()
+  }
+
+  /**
+   * Like exportZip(), but returns the archive as a stream, e.g. for
+   * writing it to a file picked with showSaveFilePicker()
+   */
+  exportZipStream(dir: string, options: ExportZipOptions = {}): ReadableStream<Uint8Array> {
+    return createZipStream(this.zipEntries(dir, options.filter), options.compression)
+  }
+
+  private async *zipEntries(dir: string, filter?: (entry: FileEntry) => boolean): AsyncGenerator<ZipEntry> {
+    const root = this.normalizePath(dir).replace(/\/$/, '')
+    const skipped: string[] = []
+
+    for await (const entry of this.walk(dir, { withStats: true, followMounts: true })) {
+      if (skipped.some(prefix => entry.path.startsWith(prefix))) continue
+      if (filter && !filter({ name: entry.name, path: entry.path, isDirectory: entry.isDirectory })) {
+        if (entry.isDirectory) skipped.push(entry.path + '/')
+        continue
+      }
+
+      const name = entry.path.slice(root.length + 1)
+      if (entry.isDirectory) {
+        yield { name: name + '/', mtime: entry.stats!.mtime }
+      } else {
+        yield { name, mtime: entry.stats!.mtime, content: await this.readBinary(entry.path) }
+      }
+    }
+  }
+
+  /**
+   * Unpack a ZIP archive into a directory, through writeBinaryBatch()
+   * Files keep the mtimes recorded in the archive where the backend can
+   * set them. Entries pointing outside `destDir` fail with EINVAL before
+   * anything is written.
+   *
+   * @example
+   * await fileSystem.importZip(file, '/documents/upload', {
+   *   onProgress: (completed, total) => console.log(`${completed}/${total}`)
+   * })
+   */
+  async importZip(
+    data: Blob | ArrayBuffer | Uint8Array,
+    destDir: string,
+    options: ImportZipOptions = {}
+  ): Promise<void> {
+    const { overwrite = false, onProgress, silent } = options
+    const concurrency = 20
+    const bytes = data instanceof Uint8Array
+      ? data
+      : new Uint8Array(data instanceof ArrayBuffer ? data : await data.arrayBuffer())
+    const root = this.normalizePath(destDir).replace(/\/$/, '')
+
+    const dirs = root ? [root] : []
+    const files: Array<{ path: string; entry: ZipArchiveEntry }> = []
+    for (const entry of readZip(bytes)) {
+      const path = this.resolveArchivePath(root, entry.name, 'unzip')
+      if (!path) continue
+      if (entry.isDirectory) {
+        dirs.push(path)
+      } else {
+        files.push({ path, entry })
+        // Fail with ENOMOUNT up front rather than skipping the file
+        this.getBackendForPath(path)
+      }
+    }
+
+    if (!overwrite) {
+      const conflicts = await Promise.all(files.map(file => this.exists(file.path)))
+      const index = conflicts.indexOf(true)
+      if (index !== -1) {
+        throw new FileSystemError('EEXIST', files[index].path, 'unzip')
+      }
+    }
+
+    for (const dir of dirs) {
+      await this.mkdir(dir, { silent })
+    }
+
+    // Extract a batch at a time, so the archive isn't unpacked in memory all at once
+    if (files.length === 0) {
+      onProgress?.(0, 0)
+    }
+    for (let i = 0; i < files.length; i += concurrency) {
+      const chunk = files.slice(i, i + concurrency)
+      const entries: WriteBinaryBatchEntry[] = []
+      for (const { path, entry } of chunk) {
+        entries.push({ path, content: await entry.read(), mtime: entry.mtime })
+      }
+      await this.writeBinaryBatch(entries, { silent, concurrency })
+      onProgress?.(i + chunk.length, files.length)
+    }
+  }
+
+  /**
+   * Unpack a tar or tar.gz stream into a directory
+   * The archive is parsed as it arrives and files are written through
+   * writeBinaryBatch() in small batches, so only one batch is held in
+   * memory. Files keep their modes and mtimes where the backend records
+   * them, and hard links become copies; symbolic links and other special
+   * entries are skipped. Existing files are replaced, as `tar` does.
+   * Directory mtimes aren't restored, as no backend can set them.
+   *
+   * @example
+   * const response = await fetch('/bundles/texlive-basic.tar.gz')
+   * await fileSystem.importTar(response.body!, '/compiler', { stripComponents: 1 })
+   */
+  async importTar(
+    stream: ReadableStream<Uint8Array>,
+    destDir: string,
+    options: ImportTarOptions = {}
+  ): Promise<void> {
+    const { gzip, stripComponents = 0, filter, onProgress, silent } = options
+    const concurrency = 20
+    const maxBatchBytes = 8 * 1024 * 1024
+    const root = this.normalizePath(destDir).replace(/\/$/, '')
+
+    let bytes = 0
+    const counted = stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(chunk, controller) {
+        bytes += chunk.length
+        controller.enqueue(chunk)
+      }
+    }))
+
+    let unpacked = 0
+    let batch: WriteBinaryBatchEntry[] = []
+    let batchBytes = 0
+    const flush = async () => {
+      if (batch.length === 0) return
+      await this.writeBinaryBatch(batch, { silent, concurrency })
+      unpacked += batch.length
+      batch = []
+      batchBytes = 0
+    }
+
+    // Archive path to destination path, or null if stripped away
+    const resolve = (archivePath: string) => {
+      const parts = archivePath.split('/').filter(part => part !== '' && part !== '.')
+      return parts.length > stripComponents ? parts.slice(stripComponents).join('/') : null
+    }
+
+    if (root) {
+      await this.mkdir(root, { silent })
+    }
+    const skipped: string[] = []
+
+    for await (const entry of readTar(await gunzipIfNeeded(counted, gzip))) {
+      const name = resolve(entry.path)
+      if (name === null) continue
+      const path = this.resolveArchivePath(root, name, 'untar')!
+      if (skipped.some(prefix => path.startsWith(prefix))) continue
+
+      const { type, size, mode, mtime } = entry
+      if (filter && !filter({ path: name, type, size, mode, mtime })) {
+        if (type === 'directory') skipped.push(path + '/')
+        continue
+      }
+
+      if (type === 'directory') {
+        await this.mkdir(path, { silent })
+        unpacked++
+      } else if (type === 'file') {
+        // Fail with ENOMOUNT rather than skipping the file
+        this.getBackendForPath(path)
+        batch.push({ path, content: await entry.read(), mtime, mode })
+        batchBytes += size
+      } else if (type === 'hardlink') {
+        // Links to stripped entries are dropped along with them
+        const target = resolve(entry.linkName)
+        if (target !== null) {
+          // The target is an earlier entry, so write what's pending first
+          await flush()
+          try {
+            const content = await this.readBinary(this.resolveArchivePath(root, target, 'untar')!)
+            batch.push({ path, content, mtime, mode })
+          } catch (e) {
+            // Target was filtered out
+            if (!isFileSystemError(e, 'ENOENT')) throw e
+          }
+        }
+      }
+
+      if (batch.length >= concurrency || batchBytes >= maxBatchBytes) {
+        await flush()
+        onProgress?.(unpacked, bytes)
+      }
+    }
+
+    await flush()
+    onProgress?.(unpacked, bytes)
+  }
+
+  /**
+   * Absolute path of an archive entry unpacked into `root`
+   * Returns null for the archive's root itself; names leading outside
+   * `root` fail with EINVAL.
+   */
+  private resolveArchivePath(root: string, name: string, syscall: string): string | null {
+    const parts = name.split('/').filter(part => part !== '' && part !== '.')
+    if (parts.includes('..')) {
+      throw new FileSystemError('EINVAL', name, syscall)
+    }
+    return parts.length > 0 ? root + '/' + parts.join('/') : null
+  }
+
   private getParentPath(path: string): string {
     const normalized = this.normalizePath(path)
     const lastSlash = normalized.lastIndexOf('/')
@@ -410,6 +2104,192 @@ export class FileSystemService {
     return normalized.slice(0, lastSlash)
   }
 
+  /**
+   * List every directory and file below a backend directory
+   *
+   * @param include - Optional predicate on the relative path; excluded
+   *   directories are not descended into
+   * @param mount - Mount whose hidden history and trash directories to leave out
+   */
+  private async collectTree(
+    backend: FileSystemBackend,
+    root: string,
+    include?: (relativePath: string, isDirectory: boolean) => boolean,
+    mount?: MountPoint
+  ): Promise<TreeListing> {
+    const base = this.normalizePath(root).replace(/\/$/, '')
+    const listing: TreeListing = { dirs: [], files: [] }
+    const queue = [base || '/']
+
+    while (queue.length > 0) {
+      const dir = queue.shift()!
+      for (const entry of await backend.readdir(dir)) {
+        if (mount && isHiddenPath(mount, entry.path)) continue
+        const relativePath = entry.path.slice(base.length)
+        if (include && !include(relativePath, entry.isDirectory)) {
+          continue
+        }
+        if (entry.isDirectory) {
+          listing.dirs.push(relativePath)
+          queue.push(entry.path)
+        } else {
+          const stats = await backend.stat(entry.path)
+          listing.files.push({ path: relativePath, size: stats.size, mtime: stats.mtime })
+        }
+      }
+    }
+
+    return listing
+  }
+
+  /**
+   * List everything below a directory with absolute paths, including the
+   * contents of mounts nested inside it
+   * A missing directory lists as empty.
+   */
+  private async listMountedTree(dir: string): Promise<FileEntry[]> {
+    const prefix = dir === '/' ? '/' : dir + '/'
+    const entries = new Map<string, FileEntry>()
+
+    for (const mount of this.mounts) {
+      const mountDir = mount.path.slice(0, -1)
+      let relativeRoot: string
+      if (mount.path.length > prefix.length && mount.path.startsWith(prefix)) {
+        // Nested mount: list all of it, and its mount point as a directory
+        relativeRoot = '/'
+        for (let parent = mountDir; parent.length > dir.length; parent = this.getParentPath(parent)) {
+          entries.set(parent, { name: parent.slice(parent.lastIndexOf('/') + 1), path: parent, isDirectory: true })
+        }
+      } else if (this.mounts.find(m => prefix.startsWith(m.path)) === mount) {
+        // The mount holding `dir` itself
+        relativeRoot = '/' + prefix.slice(mount.path.length, -1)
+      } else {
+        continue
+      }
+
+      let listing: FileEntry[]
+      try {
+        listing = await this.listBackendTree(mount.backend, relativeRoot)
+      } catch (error) {
+        if (error instanceof FileSystemError && (error.code === 'ENOENT' || error.code === 'ENOTDIR')) continue
+        throw error
+      }
+
+      for (const entry of listing) {
+        if (isHiddenPath(mount, entry.path)) continue
+        const path = mountDir + entry.path
+        // Skip entries shadowed by a more specific mount
+        if (this.mounts.find(m => path.startsWith(m.path) || path === m.path.slice(0, -1)) !== mount) continue
+        entries.set(path, { ...entry, path })
+      }
+    }
+
+    return [...entries.values()]
+  }
+
+  /** Every entry below a backend directory, via listTree() or readdir() */
+  private async listBackendTree(backend: FileSystemBackend, root: string): Promise<FileEntry[]> {
+    if (backend.listTree) {
+      return backend.listTree(root)
+    }
+
+    const entries: FileEntry[] = []
+    const queue = [root]
+    while (queue.length > 0) {
+      for (const entry of await backend.readdir(queue.shift()!)) {
+        entries.push(entry)
+        if (entry.isDirectory) queue.push(entry.path)
+      }
+    }
+    return entries
+  }
+
+  /**
+   * Read files from one backend and write them to another in chunks,
+   * so whole trees never have to be held in memory at once
+   */
+  private async transferFiles(
+    source: FileSystemBackend,
+    target: FileSystemBackend,
+    files: Array<{ from: string; to: string; mtime?: Date }>,
+    options: { concurrency?: number; onProgress?: (completed: number, total: number) => void } = {}
+  ): Promise<void> {
+    const { concurrency = 20, onProgress } = options
+    let completed = 0
+
+    for (let i = 0; i < files.length; i += concurrency) {
+      const chunk = files.slice(i, i + concurrency)
+      const contents = await this.readFromBackend(source, chunk.map(file => file.from))
+
+      const entries: WriteBinaryBatchEntry[] = chunk.map(file => {
+        const content = contents.get(file.from)
+        if (!content) {
+          throw new FileSystemError('ENOENT', file.from, 'open')
+        }
+        return { path: file.to, content, mtime: file.mtime }
+      })
+
+      await this.writeToBackend(target, entries, { concurrency })
+      completed += chunk.length
+      onProgress?.(completed, files.length)
+    }
+  }
+
+  /**
+   * Read files from a single backend, using its batch API when available
+   * Missing files are omitted from the result
+   */
+  private async readFromBackend(backend: FileSystemBackend, paths: string[]): Promise<Map<string, Uint8Array>> {
+    // Check if backend supports batch reads
+    if ('readBinaryBatch' in backend && typeof backend.readBinaryBatch === 'function') {
+      return (backend as any).readBinaryBatch(paths)
+    }
+
+    // Fall back to individual reads in parallel
+    const results = new Map<string, Uint8Array>()
+    await Promise.all(paths.map(async (path) => {
+      try {
+        results.set(path, await backend.readBinary(path))
+      } catch {
+        // File doesn't exist, skip
+      }
+    }))
+    return results
+  }
+
+  /**
+   * Write files to a single backend, using its batch API when available
+   */
+  private async writeToBackend(
+    backend: FileSystemBackend,
+    entries: WriteBinaryBatchEntry[],
+    options: WriteBinaryBatchOptions = {}
+  ): Promise<void> {
+    if (backend.writeBinaryBatch) {
+      await backend.writeBinaryBatch(entries, options)
+      return
+    }
+
+    // Fall back to sequential writes with createParents
+    const { createParents = true, concurrency = 20 } = options
+    let completed = 0
+
+    for (let i = 0; i < entries.length; i += concurrency) {
+      const batch = entries.slice(i, i + concurrency)
+      await Promise.all(batch.map(async ({ path, content }) => {
+        if (createParents) {
+          const parentPath = this.getParentPath(path)
+          if (parentPath !== '/') {
+            await backend.mkdir(parentPath)
+          }
+        }
+        await backend.writeBinary(path, content)
+        completed++
+      }))
+      options.onProgress?.(completed, entries.length)
+    }
+  }
+
   /**
    * Get information about mounted filesystems
    */
@@ -420,6 +2300,62 @@ export class FileSystemService {
     }))
   }
 
+  /**
+   * Total size and number of files and directories below a path
+   * Mounts nested below the path are included.
+   *
+   * @example
+   * const { bytes, files } = await fileSystem.du('/documents/proj')
+   */
+  async du(path: string): Promise<DiskUsage> {
+    if (this.isMounted(path)) {
+      const { backend, relativePath } = this.getBackendForPath(path)
+      if (relativePath !== '/') {
+        const stats = await backend.stat(relativePath)
+        if (!stats.isDirectory) {
+          return { bytes: stats.size, files: 1, directories: 0 }
+        }
+      }
+    }
+    return this.sumUsage(this.walk(path, { withStats: true, followMounts: true }))
+  }
+
+  /**
+   * Origin-wide storage estimate plus the usage of every mount
+   *
+   * @example
+   * const { usage, quota, mounts } = await fileSystem.storageInfo()
+   */
+  async storageInfo(): Promise<StorageInfo> {
+    let usage: number | null = null
+    let quota: number | null = null
+    if (typeof navigator !== 'undefined' && navigator.storage && 'estimate' in navigator.storage) {
+      const estimate = await navigator.storage.estimate()
+      usage = estimate.usage ?? null
+      quota = estimate.quota ?? null
+    }
+
+    const mounts: StorageInfo['mounts'] = []
+    for (const { path, backend } of this.getMounts()) {
+      const root = path === '/' ? '/' : path.slice(0, -1)
+      mounts.push({ path, backend, usage: await this.sumUsage(this.walk(root, { withStats: true })) })
+    }
+    return { usage, quota, mounts }
+  }
+
+  private async sumUsage(entries: AsyncIterable<WalkEntry>): Promise<DiskUsage> {
+    const usage: DiskUsage = { bytes: 0, files: 0, directories: 0 }
+    for await (const entry of entries) {
+      if (entry.isDirectory) {
+        usage.directories++
+      } else {
+        usage.files++
+        usage.bytes += entry.stats!.size
+      }
+    }
+    return usage
+  }
+
   /**
    * Check if a path has a mounted backend
    */
@@ -434,12 +2370,12 @@ export class FileSystemService {
 
   /**
    * Get the backend type for a given path
-   * Returns 'opfs', 'indexeddb', or null if not mounted
+   * Returns 'opfs', 'indexeddb', 'memory', or null if not mounted
    */
-  getBackendType(path: string): 'opfs' | 'indexeddb' | null {
+  getBackendType(path: string): 'opfs' | 'indexeddb' | 'memory' | null {
     try {
       const { backend } = this.getBackendForPath(path)
-      return backend.name as 'opfs' | 'indexeddb'
+      return backend.name as 'opfs' | 'indexeddb' | 'memory'
     } catch {
       return null
     }
@@ -472,27 +2408,13 @@ export class FileSystemService {
 
     // Read from each backend
     for (const [backend, backendPaths] of pathsByBackend) {
-      // Check if backend supports batch reads
-      if ('readBinaryBatch' in backend && typeof backend.readBinaryBatch === 'function') {
-        const relativePaths = backendPaths.map(p => p.relativePath)
-        const batchResults = await (backend as any).readBinaryBatch(relativePaths)
-        for (const { path, relativePath } of backendPaths) {
-          const data = batchResults.get(relativePath)
-          if (data) {
-            results.set(path, data)
-          }
+      const batchResults = await this.readFromBackend(backend, backendPaths.map(p => p.relativePath))
+      for (const { path, relativePath } of backendPaths) {
+        const data = batchResults.get(relativePath)
+        if (data) {
+          results.set(path, data)
+          this.getBackendForPath(path).mount.cache?.touch(relativePath)
         }
-      } else {
-        // Fall back to individual reads in parallel
-        const readPromises = backendPaths.map(async ({ path, relativePath }) => {
-          try {
-            const data = await backend.readBinary(relativePath)
-            results.set(path, data)
-          } catch {
-            // File doesn't exist, skip
-          }
-        })
-        await Promise.all(readPromises)
       }
     }
 
@@ -530,47 +2452,38 @@ export class FileSystemService {
           mountPathByBackend.set(backend, mount?.path || '/')
         }
         // Convert to relative path for the backend
-        entriesByBackend.get(backend)!.push({ path: relativePath, content: entry.content })
+        entriesByBackend.get(backend)!.push({ ...entry, path: relativePath })
       } catch {
         // Skip entries without mounted backends
       }
     }
 
+    // Make room in cache mounts and keep revisions before anything is written
+    const saved = new Set<string>()
+    for (const entry of entries) {
+      if (!this.isMounted(entry.path)) continue
+      const { relativePath, mount } = this.getBackendForPath(entry.path)
+      await mount.cache?.reserve(relativePath, entry.content.byteLength)
+      if (!saved.has(this.normalizePath(entry.path))) {
+        saved.add(this.normalizePath(entry.path))
+        await this.saveRevision(mount, relativePath)
+      }
+    }
+
     let completed = 0
 
     // Write to each backend
     for (const [backend, backendEntries] of entriesByBackend) {
       const startCompleted = completed
 
-      // Check if backend supports batch writes
-      if (backend.writeBinaryBatch) {
-        await backend.writeBinaryBatch(backendEntries, {
-          ...options,
-          onProgress: (c, _t) => {
-            completed = startCompleted + c
-            options.onProgress?.(completed, total)
-          }
-        })
-        completed = startCompleted + backendEntries.length
-      } else {
-        // Fall back to sequential writes with createParents
-        const { createParents = true, concurrency = 20 } = options
-
-        for (let i = 0; i < backendEntries.length; i += concurrency) {
-          const batch = backendEntries.slice(i, i + concurrency)
-          await Promise.all(batch.map(async ({ path, content }) => {
-            if (createParents) {
-              const parentPath = this.getParentPath(path)
-              if (parentPath !== '/') {
-                await backend.mkdir(parentPath)
-              }
-            }
-            await backend.writeBinary(path, content)
-            completed++
-          }))
+      await this.writeToBackend(backend, backendEntries, {
+        ...options,
+        onProgress: (c, _t) => {
+          completed = startCompleted + c
           options.onProgress?.(completed, total)
         }
-      }
+      })
+      completed = startCompleted + backendEntries.length
     }
 
     // Emit events if not silent
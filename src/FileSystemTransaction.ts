@@ -0,0 +1,59 @@
+/**
+ * Batch of file changes for FileSystemService.transaction()
+ *
+ * Calls only record operations; nothing touches storage until the
+ * transaction callback returns and the service commits the batch.
+ */
+
+import type { TransactionOperation } from './types.js'
+import { FileSystemError } from './errors.js'
+
+export class FileSystemTransaction {
+  private operations: TransactionOperation[] = []
+  private finished = false
+
+  writeFile(path: string, content: string): void {
+    this.record({ type: 'write', path, content: new TextEncoder().encode(content) })
+  }
+
+  writeBinary(path: string, content: Uint8Array): void {
+    // Copy so later mutations by the caller don't leak into the commit
+    this.record({ type: 'write', path, content: content.slice() })
+  }
+
+  deleteFile(path: string): void {
+    this.record({ type: 'delete', path })
+  }
+
+  mkdir(path: string): void {
+    this.record({ type: 'mkdir', path })
+  }
+
+  /**
+   * Close the transaction and return its operations in the order they
+   * were recorded
+   */
+  finish(): TransactionOperation[] {
+    this.finished = true
+    return this.operations
+  }
+
+  private record(operation: TransactionOperation): void {
+    if (this.finished) {
+      throw new FileSystemError('EINVAL', operation.path, 'transaction')
+    }
+
+    this.operations.push({ ...operation, path: normalizePath(operation.path) })
+  }
+}
+
+function normalizePath(path: string): string {
+  if (!path.startsWith('/')) {
+    path = '/' + path
+  }
+  path = path.replace(/\/+/g, '/')
+  if (path.length > 1 && path.endsWith('/')) {
+    path = path.slice(0, -1)
+  }
+  return path
+}
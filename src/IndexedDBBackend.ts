@@ -2,11 +2,39 @@
  * IndexedDB-backed filesystem
  *
  * Fallback backend for browsers without OPFS support.
- * Stores files and directories in IndexedDB object stores.
+ * Stores files and directories in IndexedDB object stores. Files larger
+ * than the chunk size keep only a manifest in the files store; their bytes
+ * live in fixed-size records in the chunks store.
+ *
+ * With `dedupe`, file contents are stored once per distinct content as
+ * reference-counted blobs keyed by their SHA-256 digest; file records then
+ * point to a blob's chunks, and copies only add a reference.
  */
 
-import type { FileSystemBackend, FileStats, FileEntry, WriteBinaryBatchEntry, WriteBinaryBatchOptions } from './types.js'
-import { IDB_NAME, IDB_VERSION, IDB_FILES_STORE, IDB_DIRS_STORE } from './constants.js'
+import type {
+  FileSystemBackend,
+  FileStats,
+  FileEntry,
+  TreeEntry,
+  HashAlgorithm,
+  ReadStreamOptions,
+  TransactionOperation,
+  WriteBinaryBatchEntry,
+  WriteBinaryBatchOptions
+} from './types.js'
+import {
+  IDB_NAME,
+  IDB_VERSION,
+  IDB_FILES_STORE,
+  IDB_DIRS_STORE,
+  IDB_CHUNKS_STORE,
+  IDB_BLOBS_STORE,
+  IDB_CHUNK_SIZE
+} from './constants.js'
+import { upgradeDatabase } from './idbSchema.js'
+import { FileSystemError, toFileSystemError } from './errors.js'
+import { digest } from './hash.js'
+import { concatChunks, createRangeStream, resolveRange } from './streams.js'
 
 interface StoredFile {
   path: string
@@ -15,6 +43,24 @@ interface StoredFile {
   size: number
   mtime: number
   ctime: number
+  /** Permission bits recorded by writeBinaryBatch() */
+  mode?: number
+  /** Set for chunked files; `content` is then empty */
+  chunkId?: string
+  /** Chunk size the file was written with */
+  chunkSize?: number
+  /** Set when `chunkId` is a blob shared with other files */
+  shared?: boolean
+  /** Cached digests by algorithm; every write drops them */
+  hashes?: Partial<Record<HashAlgorithm, string>>
+  /** Changes with every write of the contents, so hash() can tell they're still the same */
+  version?: string
+}
+
+interface StoredChunk {
+  id: string
+  index: number
+  data: Uint8Array
 }
 
 interface StoredDirectory {
@@ -22,34 +68,59 @@ interface StoredDirectory {
   ctime: number
 }
 
+/** Contents shared by files with the same digest, stored under `id` in the chunks store */
+interface StoredBlob {
+  id: string
+  size: number
+  /** Number of file records pointing to the blob */
+  refs: number
+}
+
+/** A blob record as seen by the requests queued so far in one transaction */
+interface BlobState {
+  record: StoredBlob | undefined
+  loaded: boolean
+  updates: Array<(blob: StoredBlob | undefined) => StoredBlob | undefined>
+}
+
+export interface IndexedDBBackendOptions {
+  /** Name of the database (default: IDB_NAME) */
+  databaseName?: string
+  /** Size of chunk records for large files (default: IDB_CHUNK_SIZE) */
+  chunkSize?: number
+  /** Store identical contents once, as reference-counted blobs (default: false) */
+  dedupe?: boolean
+}
+
 export class IndexedDBBackend implements FileSystemBackend {
   readonly name = 'indexeddb'
   private dbPromise: Promise<IDBDatabase>
-
-  constructor() {
-    this.dbPromise = this.initDB()
+  private chunkSize: number
+  private dedupe: boolean
+  private blobStates = new WeakMap<IDBTransaction, Map<string, BlobState>>()
+  /** Why a transaction was aborted, when it was aborted on purpose */
+  private failures = new WeakMap<IDBTransaction, FileSystemError>()
+
+  constructor(options: IndexedDBBackendOptions = {}) {
+    this.chunkSize = options.chunkSize ?? IDB_CHUNK_SIZE
+    this.dedupe = options.dedupe ?? false
+    this.dbPromise = this.initDB(options.databaseName ?? IDB_NAME)
   }
 
-  private async initDB(): Promise<IDBDatabase> {
+  private async initDB(name: string): Promise<IDBDatabase> {
     return new Promise((resolve, reject) => {
-      const request = indexedDB.open(IDB_NAME, IDB_VERSION)
+      const request = indexedDB.open(name, IDB_VERSION)
 
       request.onerror = () => reject(request.error)
-      request.onsuccess = () => resolve(request.result)
+      request.onsuccess = () => {
+        const db = request.result
+        // Let another tab upgrade the schema instead of blocking it
+        db.onversionchange = () => db.close()
+        resolve(db)
+      }
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result
-
-        // Files store - keyed by path
-        if (!db.objectStoreNames.contains(IDB_FILES_STORE)) {
-          const filesStore = db.createObjectStore(IDB_FILES_STORE, { keyPath: 'path' })
-          filesStore.createIndex('mtime', 'mtime', { unique: false })
-        }
-
-        // Directories store - keyed by path
-        if (!db.objectStoreNames.contains(IDB_DIRS_STORE)) {
-          db.createObjectStore(IDB_DIRS_STORE, { keyPath: 'path' })
-        }
+        upgradeDatabase(request.result, request.transaction!, event.oldVersion)
       }
     })
   }
@@ -74,30 +145,325 @@ export class IndexedDBBackend implements FileSystemBackend {
     return normalized.slice(0, lastSlash)
   }
 
+  /** Create the parent directory of a normalized path if it's missing */
+  private async ensureParentDirectory(normalized: string): Promise<void> {
+    const parentPath = this.getParentPath(normalized)
+    if (parentPath !== '/') {
+      const parentExists = await this.exists(parentPath)
+      if (!parentExists) {
+        await this.mkdir(parentPath)
+      }
+    }
+  }
+
+  private async getFileRecord(normalized: string, path: string, syscall: string): Promise<StoredFile | undefined> {
+    const db = await this.dbPromise
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([IDB_FILES_STORE], 'readonly')
+      const request = transaction.objectStore(IDB_FILES_STORE).get(normalized)
+
+      request.onsuccess = () => resolve(request.result as StoredFile | undefined)
+      request.onerror = () => reject(toFileSystemError(request.error, path, syscall))
+    })
+  }
+
+  /** Abort a transaction, failing it with `error` rather than an AbortError */
+  private abortWith(transaction: IDBTransaction, error: FileSystemError): void {
+    this.failures.set(transaction, error)
+    transaction.abort()
+  }
+
+  /** The error to reject with once a transaction was aborted */
+  private abortError(transaction: IDBTransaction, path: string, syscall: string): unknown {
+    return this.failures.get(transaction) ?? toFileSystemError(transaction.error, path, syscall)
+  }
+
+  /**
+   * Run `then` unless a directory is at `normalized` or a file stands in for
+   * its parent, in which case the transaction fails with EISDIR or ENOTDIR
+   * The transaction must include the files and directories stores
+   */
+  private whenWritable(transaction: IDBTransaction, normalized: string, path: string, then: () => void): void {
+    if (normalized === '/') {
+      this.abortWith(transaction, new FileSystemError('EISDIR', path, 'write'))
+      return
+    }
+
+    const parentPath = this.getParentPath(normalized)
+    const dirRequest = transaction.objectStore(IDB_DIRS_STORE).get(normalized)
+    const parentRequest = transaction.objectStore(IDB_FILES_STORE).get(parentPath)
+    parentRequest.onsuccess = () => {
+      if (dirRequest.result) {
+        this.abortWith(transaction, new FileSystemError('EISDIR', path, 'write'))
+      } else if (parentRequest.result) {
+        this.abortWith(transaction, new FileSystemError('ENOTDIR', path, 'write'))
+      } else {
+        then()
+      }
+    }
+  }
+
+  /**
+   * Reject a read of a path without a file record, with EISDIR if a
+   * directory is there and ENOENT otherwise
+   * The transaction must include the directories store
+   */
+  private rejectMissing(
+    transaction: IDBTransaction,
+    normalized: string,
+    path: string,
+    syscall: string,
+    reject: (error: FileSystemError) => void
+  ): void {
+    if (normalized === '/') {
+      reject(new FileSystemError('EISDIR', path, syscall))
+      return
+    }
+
+    const request = transaction.objectStore(IDB_DIRS_STORE).get(normalized)
+    request.onsuccess = () => reject(new FileSystemError(request.result ? 'EISDIR' : 'ENOENT', path, syscall))
+  }
+
+  /**
+   * Load the full contents of a file record within a transaction
+   * The transaction must include the chunks store
+   */
+  private loadContent(
+    transaction: IDBTransaction,
+    file: StoredFile,
+    onLoad: (content: Uint8Array) => void
+  ): void {
+    if (!file.chunkId) {
+      onLoad(file.isBinary
+        ? file.content as Uint8Array
+        : new TextEncoder().encode(file.content as string))
+      return
+    }
+
+    const request = transaction.objectStore(IDB_CHUNKS_STORE).getAll(chunkRange(file.chunkId))
+    request.onsuccess = () => {
+      const chunks = (request.result as StoredChunk[]).map(chunk => chunk.data)
+      onLoad(concatChunks(chunks, file.size))
+    }
+  }
+
+  /**
+   * Write a file record within a transaction, replacing `existing`
+   * Contents larger than the chunk size are split into chunk records, and
+   * chunks of the replaced version are released in the same transaction.
+   * Given the SHA-256 digest of the contents, they're stored as a shared blob.
+   * Returns the record written to the files store.
+   * The transaction must include the chunks and blobs stores.
+   */
+  private storeContent(
+    transaction: IDBTransaction,
+    existing: StoredFile | undefined,
+    file: Pick<StoredFile, 'path' | 'mtime' | 'ctime' | 'mode'>,
+    content: string | Uint8Array,
+    sha256?: string
+  ): StoredFile {
+    const filesStore = transaction.objectStore(IDB_FILES_STORE)
+    const chunksStore = transaction.objectStore(IDB_CHUNKS_STORE)
+    // Rewrites keep the mode unless a new one is given
+    file = { ...file, mode: file.mode ?? existing?.mode }
+
+    const size = typeof content === 'string' ? new Blob([content]).size : content.length
+    if (sha256 && size > 0) {
+      const data = typeof content === 'string' ? new TextEncoder().encode(content) : content
+      return this.storeBlob(transaction, existing, file, data, sha256)
+    }
+
+    this.releaseContent(transaction, existing)
+    if (size <= this.chunkSize) {
+      const record: StoredFile = { ...file, content, isBinary: typeof content !== 'string', size, version: createChunkId() }
+      filesStore.put(record)
+      return record
+    }
+
+    const data = typeof content === 'string' ? new TextEncoder().encode(content) : content
+    const chunkId = createChunkId()
+    for (let index = 0; index * this.chunkSize < size; index++) {
+      const offset = index * this.chunkSize
+      const chunk: StoredChunk = { id: chunkId, index, data: data.slice(offset, offset + this.chunkSize) }
+      chunksStore.put(chunk)
+    }
+
+    const manifest: StoredFile = {
+      ...file,
+      content: new Uint8Array(0),
+      isBinary: true,
+      size,
+      chunkId,
+      chunkSize: this.chunkSize,
+      version: createChunkId()
+    }
+    filesStore.put(manifest)
+    return manifest
+  }
+
+  /**
+   * Point a file record at the blob holding `data`, adding the blob if it's new
+   */
+  private storeBlob(
+    transaction: IDBTransaction,
+    existing: StoredFile | undefined,
+    file: Pick<StoredFile, 'path' | 'mtime' | 'ctime' | 'mode'>,
+    data: Uint8Array,
+    sha256: string
+  ): StoredFile {
+    const chunkSize = this.chunkSize
+    const chunkId = `sha256-${sha256}-${chunkSize.toString(36)}`
+    const manifest: StoredFile = {
+      ...file,
+      content: new Uint8Array(0),
+      isBinary: true,
+      size: data.length,
+      chunkId,
+      chunkSize,
+      shared: true,
+      hashes: { 'SHA-256': sha256 },
+      version: createChunkId()
+    }
+    transaction.objectStore(IDB_FILES_STORE).put(manifest)
+
+    // Rewriting the same contents keeps the reference
+    if (existing?.shared && existing.chunkId === chunkId) {
+      return manifest
+    }
+
+    this.releaseContent(transaction, existing)
+    this.updateBlob(transaction, chunkId, (blob) => {
+      if (blob) {
+        return { ...blob, refs: blob.refs + 1 }
+      }
+      const chunksStore = transaction.objectStore(IDB_CHUNKS_STORE)
+      for (let index = 0; index * chunkSize < data.length; index++) {
+        const offset = index * chunkSize
+        const chunk: StoredChunk = { id: chunkId, index, data: data.slice(offset, offset + chunkSize) }
+        chunksStore.put(chunk)
+      }
+      return { id: chunkId, size: data.length, refs: 1 }
+    })
+    return manifest
+  }
+
+  /**
+   * Drop a file record's claim on its chunks within a transaction
+   * Private chunks are deleted; shared blobs lose a reference and are
+   * deleted with their last one.
+   */
+  private releaseContent(transaction: IDBTransaction, file: StoredFile | undefined): void {
+    if (!file?.chunkId) return
+
+    if (!file.shared) {
+      transaction.objectStore(IDB_CHUNKS_STORE).delete(chunkRange(file.chunkId))
+      return
+    }
+    this.updateBlob(transaction, file.chunkId, blob =>
+      blob && blob.refs > 1 ? { ...blob, refs: blob.refs - 1 } : undefined
+    )
+  }
+
+  /**
+   * Change a blob record within a transaction
+   * Updates of the same blob are applied in order to one copy of its record,
+   * so a count is never read before an earlier update was written. Returning
+   * undefined deletes the blob and its chunks.
+   */
+  private updateBlob(
+    transaction: IDBTransaction,
+    id: string,
+    update: (blob: StoredBlob | undefined) => StoredBlob | undefined
+  ): void {
+    let states = this.blobStates.get(transaction)
+    if (!states) {
+      states = new Map()
+      this.blobStates.set(transaction, states)
+    }
+
+    const apply = (state: BlobState, next: typeof update) => {
+      const previous = state.record
+      state.record = next(previous)
+      if (state.record) {
+        transaction.objectStore(IDB_BLOBS_STORE).put(state.record)
+      } else if (previous) {
+        transaction.objectStore(IDB_BLOBS_STORE).delete(id)
+        transaction.objectStore(IDB_CHUNKS_STORE).delete(chunkRange(id))
+      }
+    }
+
+    const state = states.get(id)
+    if (state?.loaded) {
+      apply(state, update)
+      return
+    }
+    if (state) {
+      state.updates.push(update)
+      return
+    }
+
+    const created: BlobState = { record: undefined, loaded: false, updates: [update] }
+    states.set(id, created)
+    const request = transaction.objectStore(IDB_BLOBS_STORE).get(id)
+    request.onsuccess = () => {
+      created.record = request.result as StoredBlob | undefined
+      created.loaded = true
+      for (const next of created.updates.splice(0)) {
+        apply(created, next)
+      }
+    }
+  }
+
+  /** SHA-256 digest of contents to store, if this backend deduplicates */
+  private async contentDigest(content: string | Uint8Array): Promise<string | undefined> {
+    if (!this.dedupe) return undefined
+    return digest(typeof content === 'string' ? new TextEncoder().encode(content) : content, 'SHA-256')
+  }
+
+  /**
+   * Contents of a file rewritten whole, and their digest, if this backend
+   * deduplicates; computed before the transaction that stores them
+   * The transaction only uses them if the file is still at `version`.
+   * Private chunked files are patched in place, so nothing is computed.
+   */
+  private async prepareRewrite(
+    normalized: string,
+    path: string,
+    rewrite: (content: Uint8Array) => Uint8Array
+  ): Promise<{ version?: string; content: Uint8Array; sha256: string } | undefined> {
+    if (!this.dedupe) return undefined
+    const file = await this.getFileRecord(normalized, path, 'write')
+    if (file?.chunkId && !file.shared) return undefined
+
+    const content = rewrite(file ? await this.readBinary(path) : new Uint8Array(0))
+    return { version: file?.version, content, sha256: (await this.contentDigest(content))! }
+  }
+
   async readFile(path: string): Promise<string> {
     const db = await this.dbPromise
     const normalized = this.normalizePath(path)
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([IDB_FILES_STORE], 'readonly')
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE], 'readonly')
       const store = transaction.objectStore(IDB_FILES_STORE)
       const request = store.get(normalized)
 
       request.onsuccess = () => {
         const file = request.result as StoredFile | undefined
         if (!file) {
-          reject(new Error(`ENOENT: no such file: ${path}`))
+          this.rejectMissing(transaction, normalized, path, 'open', reject)
           return
         }
         if (file.isBinary) {
           // Convert Uint8Array to string
           const decoder = new TextDecoder()
-          resolve(decoder.decode(file.content as Uint8Array))
+          this.loadContent(transaction, file, content => resolve(decoder.decode(content)))
         } else {
           resolve(file.content as string)
         }
       }
-      request.onerror = () => reject(request.error)
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'open'))
     })
   }
 
@@ -106,103 +472,469 @@ export class IndexedDBBackend implements FileSystemBackend {
     const normalized = this.normalizePath(path)
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([IDB_FILES_STORE], 'readonly')
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE], 'readonly')
       const store = transaction.objectStore(IDB_FILES_STORE)
       const request = store.get(normalized)
 
       request.onsuccess = () => {
         const file = request.result as StoredFile | undefined
         if (!file) {
-          reject(new Error(`ENOENT: no such file: ${path}`))
+          this.rejectMissing(transaction, normalized, path, 'open', reject)
           return
         }
-        if (file.isBinary) {
-          resolve(file.content as Uint8Array)
+        this.loadContent(transaction, file, resolve)
+      }
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'open'))
+    })
+  }
+
+  /**
+   * Hex digest of a file, cached on its record
+   * The digest is only stored if the file didn't change while hashing.
+   */
+  async hash(path: string, algorithm: HashAlgorithm): Promise<string> {
+    const db = await this.dbPromise
+    const normalized = this.normalizePath(path)
+
+    const { file, content } = await new Promise<{ file: StoredFile; content?: Uint8Array }>((resolve, reject) => {
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE], 'readonly')
+      const request = transaction.objectStore(IDB_FILES_STORE).get(normalized)
+
+      request.onsuccess = () => {
+        const file = request.result as StoredFile | undefined
+        if (!file) {
+          this.rejectMissing(transaction, normalized, path, 'open', reject)
+        } else if (file.hashes?.[algorithm]) {
+          resolve({ file })
         } else {
-          // Convert string to Uint8Array
-          const encoder = new TextEncoder()
-          resolve(encoder.encode(file.content as string))
+          this.loadContent(transaction, file, content => resolve({ file, content }))
         }
       }
-      request.onerror = () => reject(request.error)
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'open'))
+    })
+
+    if (!content) {
+      return file.hashes![algorithm]!
+    }
+
+    const value = await digest(content, algorithm)
+
+    await new Promise<void>((resolve) => {
+      const transaction = db.transaction([IDB_FILES_STORE], 'readwrite')
+      const store = transaction.objectStore(IDB_FILES_STORE)
+      const request = store.get(normalized)
+
+      request.onsuccess = () => {
+        const current = request.result as StoredFile | undefined
+        // Checked in the transaction that caches the digest, so no write can slip in between
+        const unchanged = current && current.version === file.version && current.size === file.size &&
+          current.chunkId === file.chunkId
+        if (unchanged) {
+          store.put({ ...current, hashes: { ...current.hashes, [algorithm]: value } })
+        }
+      }
+      // Caching is best-effort; the digest is still valid for the caller
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => resolve()
+      transaction.onabort = () => resolve()
     })
+
+    return value
   }
 
-  async writeFile(path: string, content: string): Promise<void> {
+  /**
+   * Read the bytes in [start, end) of a file
+   * For chunked files only the chunks overlapping the range are loaded
+   */
+  async readRange(path: string, start: number, end: number): Promise<Uint8Array> {
     const db = await this.dbPromise
     const normalized = this.normalizePath(path)
-    const now = Date.now()
 
-    // Ensure parent directory exists
-    const parentPath = this.getParentPath(normalized)
-    if (parentPath !== '/') {
-      const parentExists = await this.exists(parentPath)
-      if (!parentExists) {
-        await this.mkdir(parentPath)
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE], 'readonly')
+      const request = transaction.objectStore(IDB_FILES_STORE).get(normalized)
+
+      request.onsuccess = () => {
+        const file = request.result as StoredFile | undefined
+        if (!file) {
+          this.rejectMissing(transaction, normalized, path, 'read', reject)
+          return
+        }
+
+        const to = Math.min(end, file.size)
+        const from = Math.min(start, to)
+        if (!file.chunkId || from === to) {
+          this.loadContent(transaction, file, content => resolve(content.slice(from, to)))
+          return
+        }
+
+        const chunkSize = file.chunkSize!
+        const first = Math.floor(from / chunkSize)
+        const last = Math.floor((to - 1) / chunkSize)
+        const chunksRequest = transaction.objectStore(IDB_CHUNKS_STORE)
+          .getAll(chunkRange(file.chunkId, first, last))
+
+        chunksRequest.onsuccess = () => {
+          const chunks = (chunksRequest.result as StoredChunk[]).map(chunk => chunk.data)
+          const offset = first * chunkSize
+          resolve(concatChunks(chunks).slice(from - offset, to - offset))
+        }
       }
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'read'))
+    })
+  }
+
+  /**
+   * Write data at a byte offset, creating or extending the file as needed
+   * A gap between the old end of the file and `position` is zero-filled.
+   * For chunked files only the chunks overlapping the write are rewritten.
+   */
+  async writeRange(path: string, position: number, data: Uint8Array): Promise<void> {
+    if (position < 0) {
+      throw new FileSystemError('EINVAL', path, 'write')
     }
 
+    const db = await this.dbPromise
+    const normalized = this.normalizePath(path)
+    const now = Date.now()
+    await this.ensureParentDirectory(normalized)
+    const rewrite = await this.prepareRewrite(normalized, path, (content) => {
+      const updated = new Uint8Array(Math.max(content.length, position + data.length))
+      updated.set(content)
+      updated.set(data, position)
+      return updated
+    })
+
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([IDB_FILES_STORE], 'readwrite')
-      const store = transaction.objectStore(IDB_FILES_STORE)
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
+      const filesStore = transaction.objectStore(IDB_FILES_STORE)
+      const chunksStore = transaction.objectStore(IDB_CHUNKS_STORE)
+      const request = filesStore.get(normalized)
 
-      // Check if file exists to preserve ctime
-      const getRequest = store.get(normalized)
-      getRequest.onsuccess = () => {
-        const existing = getRequest.result as StoredFile | undefined
-        const file: StoredFile = {
-          path: normalized,
-          content,
-          isBinary: false,
-          size: new Blob([content]).size,
-          mtime: now,
-          ctime: existing?.ctime ?? now
+      request.onsuccess = () => this.whenWritable(transaction, normalized, path, () => {
+        const existing = request.result as StoredFile | undefined
+        const size = existing?.size ?? 0
+
+        if (rewrite && existing?.version === rewrite.version) {
+          this.storeContent(transaction, existing, {
+            path: normalized,
+            mtime: now,
+            ctime: existing?.ctime ?? now
+          }, rewrite.content, rewrite.sha256)
+          return
+        }
+
+        // Writing past the end: start at the old end with leading zeros
+        const start = Math.min(position, size)
+        const patch = position > size ? concatChunks([new Uint8Array(position - size), data]) : data
+        const end = start + patch.length
+        const newSize = Math.max(size, end)
+
+        if (!existing?.chunkId || existing.shared) {
+          // Small files are rewritten whole (and chunked once they grow large);
+          // shared blobs are copied, leaving the other files' contents alone
+          const update = (content: Uint8Array) => {
+            const updated = new Uint8Array(newSize)
+            updated.set(content)
+            updated.set(patch, start)
+            this.storeContent(transaction, existing, {
+              path: normalized,
+              mtime: now,
+              ctime: existing?.ctime ?? now
+            }, updated)
+          }
+          if (existing) {
+            this.loadContent(transaction, existing, update)
+          } else {
+            update(new Uint8Array(0))
+          }
+          return
+        }
+
+        const { chunkId } = existing
+        const chunkSize = existing.chunkSize!
+        filesStore.put({ ...existing, size: newSize, mtime: now, hashes: undefined, version: createChunkId() })
+        if (patch.length === 0) return
+
+        const first = Math.floor(start / chunkSize)
+        const last = Math.floor((end - 1) / chunkSize)
+        const chunksRequest = chunksStore.getAll(chunkRange(chunkId, first, last))
+
+        chunksRequest.onsuccess = () => {
+          const chunks = new Map((chunksRequest.result as StoredChunk[]).map(chunk => [chunk.index, chunk.data]))
+
+          for (let index = first; index <= last; index++) {
+            const chunkStart = index * chunkSize
+            const chunkData = new Uint8Array(Math.min(chunkSize, newSize - chunkStart))
+            const previous = chunks.get(index)
+            if (previous) {
+              chunkData.set(previous)
+            }
+
+            // Copy the part of the patch that falls into this chunk
+            const from = Math.max(start, chunkStart)
+            const to = Math.min(end, chunkStart + chunkSize)
+            chunkData.set(patch.subarray(from - start, to - start), from - chunkStart)
+
+            const chunk: StoredChunk = { id: chunkId, index, data: chunkData }
+            chunksStore.put(chunk)
+          }
+        }
+      })
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'write'))
+      transaction.onabort = () => reject(this.abortError(transaction, path, 'write'))
+    })
+  }
+
+  /**
+   * Shrink or zero-extend a file to `size` bytes
+   * Shrinking a chunked file deletes the chunks past the new end and trims
+   * the last one; the other chunks are left untouched
+   */
+  async truncate(path: string, size: number): Promise<void> {
+    if (size < 0) {
+      throw new FileSystemError('EINVAL', path, 'ftruncate')
+    }
+
+    const normalized = this.normalizePath(path)
+    const file = await this.getFileRecord(normalized, path, 'ftruncate')
+    if (!file) {
+      throw new FileSystemError('ENOENT', path, 'ftruncate')
+    }
+    if (size >= file.size) {
+      return this.writeRange(path, size, new Uint8Array(0))
+    }
+
+    const db = await this.dbPromise
+    const now = Date.now()
+    const rewrite = await this.prepareRewrite(normalized, path, content => content.slice(0, size))
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
+      const filesStore = transaction.objectStore(IDB_FILES_STORE)
+      const chunksStore = transaction.objectStore(IDB_CHUNKS_STORE)
+      const request = filesStore.get(normalized)
+
+      request.onsuccess = () => {
+        const existing = request.result as StoredFile | undefined
+        if (!existing) {
+          reject(new FileSystemError('ENOENT', path, 'ftruncate'))
+          return
+        }
+
+        if (rewrite && existing.version === rewrite.version) {
+          this.storeContent(transaction, existing, {
+            path: normalized,
+            mtime: now,
+            ctime: existing.ctime
+          }, rewrite.content, rewrite.sha256)
+          return
+        }
+        if (!existing.chunkId || existing.shared) {
+          this.loadContent(transaction, existing, content => {
+            this.storeContent(transaction, existing, { path: normalized, mtime: now, ctime: existing.ctime }, content.slice(0, size))
+          })
+          return
+        }
+
+        const { chunkId } = existing
+        const chunkSize = existing.chunkSize!
+        const kept = Math.ceil(size / chunkSize)
+        chunksStore.delete(chunkRange(chunkId, kept))
+        filesStore.put({ ...existing, size, mtime: now, hashes: undefined, version: createChunkId() })
+
+        // Trim the new last chunk if the cut falls inside it
+        if (size % chunkSize !== 0) {
+          const chunkRequest = chunksStore.get([chunkId, kept - 1])
+          chunkRequest.onsuccess = () => {
+            const chunk = chunkRequest.result as StoredChunk
+            chunksStore.put({ ...chunk, data: chunk.data.slice(0, size % chunkSize) })
+          }
+        }
+      }
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'ftruncate'))
+    })
+  }
+
+  /**
+   * Stream a file chunk by chunk
+   * Chunked files are read one stored chunk at a time; smaller files are
+   * read once when the stream is opened, so the stream sees a consistent
+   * snapshot even if the file is rewritten while reading
+   */
+  async readStream(path: string, options: ReadStreamOptions = {}): Promise<ReadableStream<Uint8Array>> {
+    const file = await this.getFileRecord(this.normalizePath(path), path, 'open')
+    if (file?.chunkId) {
+      const { start, end } = resolveRange(file.size, options, path)
+      return createRangeStream(
+        (from, to) => this.readRange(path, from, to),
+        start,
+        end,
+        options.highWaterMark ?? file.chunkSize
+      )
+    }
+
+    const content = await this.readBinary(path)
+    const { start, end } = resolveRange(content.length, options, path)
+    return createRangeStream(async (from, to) => content.slice(from, to), start, end, options.highWaterMark)
+  }
+
+  /**
+   * Open a write stream
+   * Full chunks are stored as they arrive under a fresh chunk id; the file
+   * record is switched over in one transaction on close, so readers never
+   * see a partially written file. Aborting deletes the stored chunks.
+   * With deduplication the contents are read back on close and stored by
+   * digest instead.
+   */
+  async createWriteStream(path: string): Promise<WritableStream<Uint8Array>> {
+    const db = await this.dbPromise
+    const normalized = this.normalizePath(path)
+    if (normalized === '/' || (await this.exists(normalized) && (await this.stat(normalized)).isDirectory)) {
+      throw new FileSystemError('EISDIR', path, 'write')
+    }
+    await this.ensureParentDirectory(normalized)
+
+    const chunkSize = this.chunkSize
+    const chunkId = createChunkId()
+    let pending: Uint8Array[] = []
+    let pendingSize = 0
+    let stored = 0
+
+    const runChunksTransaction = (run: (store: IDBObjectStore) => void) => new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([IDB_CHUNKS_STORE], 'readwrite')
+      run(transaction.objectStore(IDB_CHUNKS_STORE))
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'write'))
+    })
+
+    const loadStoredChunks = () => new Promise<Uint8Array[]>((resolve, reject) => {
+      const request = db.transaction([IDB_CHUNKS_STORE], 'readonly').objectStore(IDB_CHUNKS_STORE).getAll(chunkRange(chunkId))
+      request.onsuccess = () => resolve((request.result as StoredChunk[]).map(chunk => chunk.data))
+      request.onerror = () => reject(toFileSystemError(request.error, path, 'write'))
+    })
+
+    return new WritableStream<Uint8Array>({
+      write: async (chunk) => {
+        pending.push(chunk.slice())
+        pendingSize += chunk.length
+        if (pendingSize < chunkSize) return
+
+        const buffer = concatChunks(pending, pendingSize)
+        let offset = 0
+        const chunks: StoredChunk[] = []
+        for (; offset + chunkSize <= buffer.length; offset += chunkSize) {
+          chunks.push({ id: chunkId, index: stored++, data: buffer.slice(offset, offset + chunkSize) })
+        }
+        pending = [buffer.slice(offset)]
+        pendingSize = buffer.length - offset
+
+        await runChunksTransaction(store => chunks.forEach(record => store.put(record)))
+      },
+
+      close: async () => {
+        const tail = concatChunks(pending, pendingSize)
+
+        // Deduplicated contents are stored by digest, which needs all of them
+        let content: Uint8Array | undefined
+        let sha256: string | undefined
+        if (this.dedupe) {
+          content = stored === 0 ? tail : concatChunks([...await loadStoredChunks(), tail])
+          sha256 = await this.contentDigest(content)
         }
 
-        const putRequest = store.put(file)
-        putRequest.onsuccess = () => resolve()
-        putRequest.onerror = () => reject(putRequest.error)
+        return new Promise<void>((resolve, reject) => {
+          const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
+          const filesStore = transaction.objectStore(IDB_FILES_STORE)
+          const chunksStore = transaction.objectStore(IDB_CHUNKS_STORE)
+          const request = filesStore.get(normalized)
+
+          request.onsuccess = () => this.whenWritable(transaction, normalized, path, () => {
+            const existing = request.result as StoredFile | undefined
+            const now = Date.now()
+            const file = { path: normalized, mtime: now, ctime: existing?.ctime ?? now }
+
+            // Never outgrew a single chunk, or stored by digest: the chunks
+            // written so far aren't needed
+            if (stored === 0 || content) {
+              this.storeContent(transaction, existing, file, content ?? tail, sha256)
+              if (stored > 0) {
+                chunksStore.delete(chunkRange(chunkId))
+              }
+              return
+            }
+
+            this.releaseContent(transaction, existing)
+            if (tail.length > 0) {
+              const chunk: StoredChunk = { id: chunkId, index: stored, data: tail }
+              chunksStore.put(chunk)
+            }
+            const manifest: StoredFile = {
+              ...file,
+              content: new Uint8Array(0),
+              isBinary: true,
+              size: stored * chunkSize + tail.length,
+              chunkId,
+              chunkSize,
+              version: createChunkId()
+            }
+            filesStore.put(manifest)
+          })
+
+          transaction.oncomplete = () => resolve()
+          transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'write'))
+          transaction.onabort = () => reject(this.abortError(transaction, path, 'write'))
+        })
+      },
+
+      abort: async () => {
+        pending = []
+        if (stored > 0) {
+          await runChunksTransaction(store => store.delete(chunkRange(chunkId)))
+        }
       }
-      getRequest.onerror = () => reject(getRequest.error)
     })
   }
 
+  async writeFile(path: string, content: string): Promise<void> {
+    return this.writeContent(path, content)
+  }
+
   async writeBinary(path: string, content: Uint8Array): Promise<void> {
+    return this.writeContent(path, content)
+  }
+
+  private async writeContent(path: string, content: string | Uint8Array): Promise<void> {
     const db = await this.dbPromise
     const normalized = this.normalizePath(path)
     const now = Date.now()
 
     // Ensure parent directory exists
-    const parentPath = this.getParentPath(normalized)
-    if (parentPath !== '/') {
-      const parentExists = await this.exists(parentPath)
-      if (!parentExists) {
-        await this.mkdir(parentPath)
-      }
-    }
+    await this.ensureParentDirectory(normalized)
+    const sha256 = await this.contentDigest(content)
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([IDB_FILES_STORE], 'readwrite')
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
       const store = transaction.objectStore(IDB_FILES_STORE)
 
-      // Check if file exists to preserve ctime
+      // Check if file exists to preserve ctime and drop its old chunks
       const getRequest = store.get(normalized)
-      getRequest.onsuccess = () => {
+      getRequest.onsuccess = () => this.whenWritable(transaction, normalized, path, () => {
         const existing = getRequest.result as StoredFile | undefined
-        const file: StoredFile = {
+        this.storeContent(transaction, existing, {
           path: normalized,
-          content,
-          isBinary: true,
-          size: content.length,
           mtime: now,
           ctime: existing?.ctime ?? now
-        }
+        }, content, sha256)
+      })
 
-        const putRequest = store.put(file)
-        putRequest.onsuccess = () => resolve()
-        putRequest.onerror = () => reject(putRequest.error)
-      }
-      getRequest.onerror = () => reject(getRequest.error)
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'write'))
+      transaction.onabort = () => reject(this.abortError(transaction, path, 'write'))
     })
   }
 
@@ -211,12 +943,25 @@ export class IndexedDBBackend implements FileSystemBackend {
     const normalized = this.normalizePath(path)
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([IDB_FILES_STORE], 'readwrite')
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
       const store = transaction.objectStore(IDB_FILES_STORE)
-      const request = store.delete(normalized)
+      const request = store.get(normalized)
+      const dirRequest = transaction.objectStore(IDB_DIRS_STORE).get(normalized)
 
-      request.onsuccess = () => resolve()
-      request.onerror = () => reject(request.error)
+      dirRequest.onsuccess = () => {
+        const file = request.result as StoredFile | undefined
+        if (!file) {
+          const isDirectory = normalized === '/' || !!dirRequest.result
+          this.abortWith(transaction, new FileSystemError(isDirectory ? 'EISDIR' : 'ENOENT', path, 'unlink'))
+          return
+        }
+        this.releaseContent(transaction, file)
+        store.delete(normalized)
+      }
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'unlink'))
+      transaction.onabort = () => reject(this.abortError(transaction, path, 'unlink'))
     })
   }
 
@@ -239,9 +984,9 @@ export class IndexedDBBackend implements FileSystemBackend {
         // Not a file, check directories
         const dirRequest = dirsStore.get(normalized)
         dirRequest.onsuccess = () => resolve(!!dirRequest.result)
-        dirRequest.onerror = () => reject(dirRequest.error)
+        dirRequest.onerror = () => reject(toFileSystemError(dirRequest.error, path, 'access'))
       }
-      fileRequest.onerror = () => reject(fileRequest.error)
+      fileRequest.onerror = () => reject(toFileSystemError(fileRequest.error, path, 'access'))
     })
   }
 
@@ -263,7 +1008,8 @@ export class IndexedDBBackend implements FileSystemBackend {
             size: file.size,
             isDirectory: false,
             isFile: true,
-            mtime: new Date(file.mtime)
+            mtime: new Date(file.mtime),
+            mode: file.mode
           })
           return
         }
@@ -280,12 +1026,12 @@ export class IndexedDBBackend implements FileSystemBackend {
               mtime: new Date(dir.ctime)
             })
           } else {
-            reject(new Error(`ENOENT: no such file or directory: ${path}`))
+            reject(new FileSystemError('ENOENT', path, 'stat'))
           }
         }
-        dirRequest.onerror = () => reject(dirRequest.error)
+        dirRequest.onerror = () => reject(toFileSystemError(dirRequest.error, path, 'stat'))
       }
-      fileRequest.onerror = () => reject(fileRequest.error)
+      fileRequest.onerror = () => reject(toFileSystemError(fileRequest.error, path, 'stat'))
     })
   }
 
@@ -304,58 +1050,56 @@ export class IndexedDBBackend implements FileSystemBackend {
 
     if (pathsToCreate.length === 0) return
 
-    // Check which paths already exist in a single transaction
-    const existingPaths = await new Promise<Set<string>>((resolve) => {
-      const existing = new Set<string>()
-      const transaction = db.transaction([IDB_DIRS_STORE], 'readonly')
-      const store = transaction.objectStore(IDB_DIRS_STORE)
-      let pending = pathsToCreate.length
-
-      for (const p of pathsToCreate) {
-        const request = store.get(p)
-        request.onsuccess = () => {
-          if (request.result) existing.add(p)
-          pending--
-          if (pending === 0) resolve(existing)
-        }
-        request.onerror = () => {
-          pending--
-          if (pending === 0) resolve(existing)
-        }
-      }
-    })
-
-    // Create missing directories in a single transaction
-    const missingPaths = pathsToCreate.filter(p => !existingPaths.has(p))
-    if (missingPaths.length === 0) return
-
+    // Check which paths already exist and create the rest in one transaction
     const now = Date.now()
     return new Promise<void>((resolve, reject) => {
-      const transaction = db.transaction([IDB_DIRS_STORE], 'readwrite')
-      const store = transaction.objectStore(IDB_DIRS_STORE)
-      let pending = missingPaths.length
-
-      for (const p of missingPaths) {
-        const dir: StoredDirectory = { path: p, ctime: now }
-        const request = store.put(dir)
-        request.onsuccess = () => {
-          pending--
-          if (pending === 0) resolve()
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE], 'readwrite')
+      const filesStore = transaction.objectStore(IDB_FILES_STORE)
+      const dirsStore = transaction.objectStore(IDB_DIRS_STORE)
+      const fileRequests = pathsToCreate.map(p => filesStore.get(p))
+      const dirRequests = pathsToCreate.map(p => dirsStore.get(p))
+
+      // Requests complete in order, so every lookup is done by the last one
+      dirRequests[dirRequests.length - 1].onsuccess = () => {
+        const blocking = fileRequests.findIndex(request => request.result)
+        if (blocking !== -1) {
+          this.abortWith(transaction, new FileSystemError('ENOTDIR', pathsToCreate[blocking], 'mkdir'))
+          return
         }
-        request.onerror = () => reject(request.error)
+        pathsToCreate.forEach((p, i) => {
+          if (!dirRequests[i].result) {
+            const dir: StoredDirectory = { path: p, ctime: now }
+            dirsStore.put(dir)
+          }
+        })
       }
 
-      transaction.onerror = () => reject(transaction.error)
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'mkdir'))
+      transaction.onabort = () => reject(this.abortError(transaction, path, 'mkdir'))
     })
   }
 
   async rmdir(path: string, options?: { recursive?: boolean }): Promise<void> {
     const db = await this.dbPromise
     const normalized = this.normalizePath(path)
+    if (normalized === '/') {
+      throw new FileSystemError('EACCES', path, 'rmdir')
+    }
+
+    // Missing directories and files fail here as they would for readdir()
+    let entries: FileEntry[]
+    try {
+      entries = await this.readdir(normalized)
+    } catch (error) {
+      if (error instanceof FileSystemError && (error.code === 'ENOENT' || error.code === 'ENOTDIR')) {
+        throw new FileSystemError(error.code, path, 'rmdir')
+      }
+      throw error
+    }
 
     if (options?.recursive) {
       // Delete all files and subdirectories under this path
-      const entries = await this.readdir(normalized)
       for (const entry of entries) {
         if (entry.isDirectory) {
           await this.rmdir(entry.path, { recursive: true })
@@ -363,6 +1107,8 @@ export class IndexedDBBackend implements FileSystemBackend {
           await this.deleteFile(entry.path)
         }
       }
+    } else if (entries.length > 0) {
+      throw new FileSystemError('ENOTEMPTY', path, 'rmdir')
     }
 
     // Delete the directory itself
@@ -372,7 +1118,7 @@ export class IndexedDBBackend implements FileSystemBackend {
       const request = store.delete(normalized)
 
       request.onsuccess = () => resolve()
-      request.onerror = () => reject(request.error)
+      request.onerror = () => reject(toFileSystemError(request.error, path, 'rmdir'))
     })
   }
 
@@ -392,6 +1138,10 @@ export class IndexedDBBackend implements FileSystemBackend {
     return new Promise<FileEntry[]>((resolve, reject) => {
       const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE], 'readonly')
 
+      // The directory itself, and a file that might be there instead
+      const fileRequest = transaction.objectStore(IDB_FILES_STORE).get(normalized)
+      const dirRequest = transaction.objectStore(IDB_DIRS_STORE).get(normalized)
+
       // Get files in this directory
       const filesStore = transaction.objectStore(IDB_FILES_STORE)
       const filesRequest = filesStore.openCursor(keyRange)
@@ -439,6 +1189,11 @@ export class IndexedDBBackend implements FileSystemBackend {
                 }
               }
               cursor.continue()
+            } else if (fileRequest.result) {
+              reject(new FileSystemError('ENOTDIR', path, 'scandir'))
+            } else if (normalized !== '/' && !dirRequest.result && entries.length === 0) {
+              // Directories implied by the files below them have no record of their own
+              reject(new FileSystemError('ENOENT', path, 'scandir'))
             } else {
               // Sort and return
               entries.sort((a, b) => {
@@ -450,29 +1205,406 @@ export class IndexedDBBackend implements FileSystemBackend {
               resolve(entries)
             }
           }
-          dirsRequest.onerror = () => reject(dirsRequest.error)
+          dirsRequest.onerror = () => reject(toFileSystemError(dirsRequest.error, path, 'scandir'))
         }
       }
-      filesRequest.onerror = () => reject(filesRequest.error)
-      transaction.onerror = () => reject(transaction.error)
+      filesRequest.onerror = () => reject(toFileSystemError(filesRequest.error, path, 'scandir'))
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'scandir'))
+    })
+  }
+
+  /**
+   * List everything below a directory with one key-range scan per store
+   * Ancestors of stored files are listed even without a directory record.
+   * Without `withStats` only keys are read, not file contents.
+   */
+  async listTree(path: string, options: { withStats?: boolean } = {}): Promise<TreeEntry[]> {
+    const db = await this.dbPromise
+    const normalized = this.normalizePath(path)
+    const prefix = normalized === '/' ? '/' : normalized + '/'
+    const keyRange = IDBKeyRange.bound(prefix, prefix + '\uffff', false, true)
+    const { withStats = false } = options
+
+    const files: TreeEntry[] = []
+    const dirs = new Map<string, FileStats | undefined>()
+    const getName = (entryPath: string) => entryPath.slice(entryPath.lastIndexOf('/') + 1)
+
+    return new Promise<TreeEntry[]>((resolve, reject) => {
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE], 'readonly')
+      const filesStore = transaction.objectStore(IDB_FILES_STORE)
+      const dirsStore = transaction.objectStore(IDB_DIRS_STORE)
+
+      const filesRequest = withStats ? filesStore.openCursor(keyRange) : filesStore.openKeyCursor(keyRange)
+      filesRequest.onsuccess = () => {
+        const cursor = filesRequest.result
+        if (!cursor) return
+        const filePath = cursor.key as string
+        const entry: TreeEntry = { name: getName(filePath), path: filePath, isDirectory: false }
+        if (withStats) {
+          const file = (cursor as IDBCursorWithValue).value as StoredFile
+          entry.stats = { size: file.size, isDirectory: false, isFile: true, mtime: new Date(file.mtime), mode: file.mode }
+        }
+        files.push(entry)
+        for (let dir = this.getParentPath(filePath); dir.length > normalized.length; dir = this.getParentPath(dir)) {
+          if (!dirs.has(dir)) dirs.set(dir, undefined)
+        }
+        cursor.continue()
+      }
+      filesRequest.onerror = () => reject(toFileSystemError(filesRequest.error, path, 'scandir'))
+
+      const dirsRequest = withStats ? dirsStore.openCursor(keyRange) : dirsStore.openKeyCursor(keyRange)
+      dirsRequest.onsuccess = () => {
+        const cursor = dirsRequest.result
+        if (!cursor) return
+        let stats: FileStats | undefined
+        if (withStats) {
+          const dir = (cursor as IDBCursorWithValue).value as StoredDirectory
+          stats = { size: 0, isDirectory: true, isFile: false, mtime: new Date(dir.ctime) }
+        }
+        dirs.set(cursor.key as string, stats)
+        cursor.continue()
+      }
+      dirsRequest.onerror = () => reject(toFileSystemError(dirsRequest.error, path, 'scandir'))
+
+      transaction.oncomplete = () => {
+        const entries: TreeEntry[] = [...dirs.keys()].sort().map(dir => {
+          const entry: TreeEntry = { name: getName(dir), path: dir, isDirectory: true }
+          if (withStats) {
+            // Implied directories have no record of their own
+            entry.stats = dirs.get(dir) ?? { size: 0, isDirectory: true, isFile: false, mtime: new Date(0) }
+          }
+          return entry
+        })
+        resolve([...entries, ...files])
+      }
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, path, 'scandir'))
     })
   }
 
+  /**
+   * Rename a file or a whole directory tree in a single transaction
+   * Records are re-keyed as-is, so mtimes and ctimes are preserved
+   */
   async rename(oldPath: string, newPath: string): Promise<void> {
-    const content = await this.readBinary(oldPath)
-    const stats = await this.stat(oldPath)
+    const from = this.normalizePath(oldPath)
+    const to = this.normalizePath(newPath)
+    if (from === to) return
 
+    const stats = await this.stat(oldPath)
     if (stats.isDirectory) {
-      throw new Error('Cannot rename directories with rename(), use recursive copy')
+      if (to.startsWith(from + '/')) {
+        throw new FileSystemError('EINVAL', newPath, 'rename')
+      }
+      if (await this.exists(to)) {
+        throw new FileSystemError('EEXIST', newPath, 'rename')
+      }
+    } else {
+      const target = await this.exists(to) ? await this.stat(to) : null
+      if (target?.isDirectory) {
+        throw new FileSystemError('EISDIR', newPath, 'rename')
+      }
     }
 
-    await this.writeBinary(newPath, content)
-    await this.deleteFile(oldPath)
+    // Ensure parent directory of the destination exists
+    const parentPath = this.getParentPath(to)
+    if (parentPath !== '/') {
+      await this.mkdir(parentPath)
+    }
+
+    const db = await this.dbPromise
+    const prefix = from + '/'
+    const keyRange = IDBKeyRange.bound(prefix, prefix + '\uffff', false, true)
+
+    return new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
+      const filesStore = transaction.objectStore(IDB_FILES_STORE)
+      const dirsStore = transaction.objectStore(IDB_DIRS_STORE)
+
+      const moveRecord = (store: IDBObjectStore, record: StoredFile | StoredDirectory) => {
+        store.delete(record.path)
+        store.put({ ...record, path: to + record.path.slice(from.length) })
+      }
+
+      const moveRange = (store: IDBObjectStore) => {
+        const request = store.openCursor(keyRange)
+        request.onsuccess = () => {
+          const cursor = request.result
+          if (cursor) {
+            moveRecord(store, cursor.value)
+            cursor.continue()
+          }
+        }
+      }
+
+      // A file replaced by the move releases its chunks
+      if (!stats.isDirectory) {
+        const targetRequest = filesStore.get(to)
+        targetRequest.onsuccess = () => this.releaseContent(transaction, targetRequest.result as StoredFile | undefined)
+      }
+
+      const store = stats.isDirectory ? dirsStore : filesStore
+      const request = store.get(from)
+      request.onsuccess = () => {
+        // The root directory has no record of its own
+        if (request.result) {
+          moveRecord(store, request.result)
+        }
+        if (stats.isDirectory) {
+          moveRange(filesStore)
+          moveRange(dirsStore)
+        }
+      }
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, oldPath, 'rename'))
+    })
   }
 
+  /**
+   * Copy a file
+   * Copies of shared blobs only add a reference; other files are copied
+   * through `writeBinary`, which deduplicates the copy if enabled. A source
+   * rewritten while copying is looked up again.
+   */
   async copyFile(src: string, dest: string): Promise<void> {
-    const content = await this.readBinary(src)
-    await this.writeBinary(dest, content)
+    const source = await this.getFileRecord(this.normalizePath(src), src, 'copyfile')
+    if (!source) {
+      throw new FileSystemError('ENOENT', src, 'copyfile')
+    }
+    if (!source.shared) {
+      const content = await this.readBinary(src)
+      await this.writeBinary(dest, content)
+      return
+    }
+
+    const db = await this.dbPromise
+    const normalized = this.normalizePath(dest)
+    await this.ensureParentDirectory(normalized)
+
+    let retry = false
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
+      const filesStore = transaction.objectStore(IDB_FILES_STORE)
+      const sourceRequest = filesStore.get(this.normalizePath(src))
+      const destRequest = filesStore.get(normalized)
+
+      destRequest.onsuccess = () => {
+        const current = sourceRequest.result as StoredFile | undefined
+        const existing = destRequest.result as StoredFile | undefined
+        const now = Date.now()
+        const file = { path: normalized, mtime: now, ctime: existing?.ctime ?? now }
+
+        if (!current) {
+          reject(new FileSystemError('ENOENT', src, 'copyfile'))
+          transaction.abort()
+          return
+        }
+        if (!current.shared) {
+          // Rewritten since it was looked up; copying its contents needs a digest
+          retry = true
+          transaction.abort()
+          return
+        }
+
+        filesStore.put({ ...current, ...file })
+        if (existing?.shared && existing.chunkId === current.chunkId) return
+        this.releaseContent(transaction, existing)
+        this.updateBlob(transaction, current.chunkId!, blob => blob && { ...blob, refs: blob.refs + 1 })
+      }
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, dest, 'copyfile'))
+      transaction.onabort = () => retry ? resolve() : reject(this.abortError(transaction, dest, 'copyfile'))
+    })
+
+    if (retry) {
+      return this.copyFile(src, dest)
+    }
+  }
+
+  /**
+   * Recount blob references and delete blobs no file points to
+   * Repairs counts left wrong by writers that replace records without
+   * releasing them. Missing blob records are only restored if all of their
+   * chunks are still there. Returns the number and total size of the
+   * deleted blobs.
+   */
+  async collectGarbage(): Promise<{ blobs: number; bytes: number }> {
+    const db = await this.dbPromise
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
+      const blobsStore = transaction.objectStore(IDB_BLOBS_STORE)
+      const refs = new Map<string, StoredFile[]>()
+      const freed = { blobs: 0, bytes: 0 }
+
+      // Mark: every blob a file record points to
+      const cursorRequest = transaction.objectStore(IDB_FILES_STORE).openCursor()
+      cursorRequest.onsuccess = () => {
+        const cursor = cursorRequest.result
+        if (cursor) {
+          const file = cursor.value as StoredFile
+          if (file.shared) {
+            refs.set(file.chunkId!, [...refs.get(file.chunkId!) ?? [], file])
+          }
+          cursor.continue()
+          return
+        }
+
+        // Sweep: fix counts, delete unreferenced blobs, restore missing records
+        const blobsRequest = blobsStore.getAll()
+        blobsRequest.onsuccess = () => {
+          for (const blob of blobsRequest.result as StoredBlob[]) {
+            const count = refs.get(blob.id)?.length ?? 0
+            refs.delete(blob.id)
+            if (count === 0) {
+              blobsStore.delete(blob.id)
+              transaction.objectStore(IDB_CHUNKS_STORE).delete(chunkRange(blob.id))
+              freed.blobs++
+              freed.bytes += blob.size
+            } else if (count !== blob.refs) {
+              blobsStore.put({ ...blob, refs: count })
+            }
+          }
+          for (const [id, files] of refs) {
+            const { size, chunkSize } = files[0]
+            const countRequest = transaction.objectStore(IDB_CHUNKS_STORE).count(chunkRange(id))
+            countRequest.onsuccess = () => {
+              if (countRequest.result === Math.ceil(size / chunkSize!)) {
+                const blob: StoredBlob = { id, size, refs: files.length }
+                blobsStore.put(blob)
+              }
+            }
+          }
+        }
+      }
+
+      transaction.oncomplete = () => resolve(freed)
+      transaction.onerror = () => reject(toFileSystemError(transaction.error, '/', 'gc'))
+    })
+  }
+
+  /**
+   * Apply writes, deletes and mkdirs in a single IndexedDB transaction
+   * If any operation fails the transaction is aborted, so either all
+   * changes become visible or none do
+   */
+  async applyTransaction(operations: TransactionOperation[]): Promise<void> {
+    const db = await this.dbPromise
+    const now = Date.now()
+
+    const ancestors = (path: string) => {
+      const parts = path.split('/').filter(Boolean)
+      return parts.map((_, i) => '/' + parts.slice(0, i + 1).join('/'))
+    }
+
+    // Every file and directory record the batch depends on
+    const filePaths = new Set<string>()
+    const dirPaths = new Set<string>()
+    for (const op of operations) {
+      const normalized = this.normalizePath(op.path)
+      if (op.type === 'mkdir') {
+        ancestors(normalized).forEach(p => dirPaths.add(p))
+      } else {
+        filePaths.add(normalized)
+        dirPaths.add(normalized)
+        ancestors(this.getParentPath(normalized)).forEach(p => dirPaths.add(p))
+      }
+    }
+    // Files in the way of a directory are reported as ENOTDIR
+    dirPaths.forEach(p => filePaths.add(p))
+
+    // Digests must be ready before the transaction starts, or it would commit
+    const digests = new Map<TransactionOperation, string | undefined>()
+    for (const op of operations) {
+      if (op.type === 'write') {
+        digests.set(op, await this.contentDigest(op.content))
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
+      const filesStore = transaction.objectStore(IDB_FILES_STORE)
+      const dirsStore = transaction.objectStore(IDB_DIRS_STORE)
+      const files = new Map<string, StoredFile | undefined>()
+      const dirs = new Set<string>()
+      let failure: unknown = null
+
+      const fail = (error: FileSystemError) => {
+        failure = error
+        transaction.abort()
+      }
+
+      const ensureDirectories = (path: string) => {
+        for (const dirPath of ancestors(path)) {
+          if (files.get(dirPath)) {
+            throw new FileSystemError('ENOTDIR', dirPath, 'mkdir')
+          }
+          if (!dirs.has(dirPath)) {
+            const dir: StoredDirectory = { path: dirPath, ctime: now }
+            dirsStore.put(dir)
+            dirs.add(dirPath)
+          }
+        }
+      }
+
+      // Once all records are loaded, apply the operations against them in order
+      const apply = () => {
+        try {
+          for (const op of operations) {
+            const normalized = this.normalizePath(op.path)
+            if (op.type === 'mkdir') {
+              ensureDirectories(normalized)
+            } else if (dirs.has(normalized) || normalized === '/') {
+              throw new FileSystemError('EISDIR', op.path, op.type === 'write' ? 'write' : 'unlink')
+            } else if (op.type === 'write') {
+              ensureDirectories(this.getParentPath(normalized))
+              const existing = files.get(normalized)
+              files.set(normalized, this.storeContent(transaction, existing, {
+                path: normalized,
+                mtime: now,
+                ctime: existing?.ctime ?? now
+              }, op.content, digests.get(op)))
+            } else {
+              const existing = files.get(normalized)
+              if (!existing) {
+                throw new FileSystemError('ENOENT', op.path, 'unlink')
+              }
+              this.releaseContent(transaction, existing)
+              filesStore.delete(normalized)
+              files.set(normalized, undefined)
+            }
+          }
+        } catch (e) {
+          fail(e as FileSystemError)
+        }
+      }
+
+      let pending = filePaths.size + dirPaths.size
+      const loaded = () => {
+        pending--
+        if (pending === 0) apply()
+      }
+
+      for (const path of filePaths) {
+        const request = filesStore.get(path)
+        request.onsuccess = () => {
+          files.set(path, request.result as StoredFile | undefined)
+          loaded()
+        }
+      }
+      for (const path of dirPaths) {
+        const request = dirsStore.get(path)
+        request.onsuccess = () => {
+          if (request.result) dirs.add(path)
+          loaded()
+        }
+      }
+      if (pending === 0) apply()
+
+      transaction.oncomplete = () => resolve()
+      transaction.onabort = () => reject(failure ?? toFileSystemError(transaction.error, operations[0].path, 'transaction'))
+    })
   }
 
   /**
@@ -483,7 +1615,7 @@ export class IndexedDBBackend implements FileSystemBackend {
     const results = new Map<string, Uint8Array>()
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([IDB_FILES_STORE], 'readonly')
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_CHUNKS_STORE], 'readonly')
       const store = transaction.objectStore(IDB_FILES_STORE)
       let pending = paths.length
 
@@ -492,28 +1624,28 @@ export class IndexedDBBackend implements FileSystemBackend {
         return
       }
 
+      const done = () => {
+        pending--
+        if (pending === 0) resolve(results)
+      }
+
       for (const path of paths) {
         const normalized = this.normalizePath(path)
         const request = store.get(normalized)
 
         request.onsuccess = () => {
           const file = request.result as StoredFile | undefined
-          if (file) {
-            if (file.isBinary) {
-              results.set(path, file.content as Uint8Array)
-            } else {
-              const encoder = new TextEncoder()
-              results.set(path, encoder.encode(file.content as string))
-            }
+          if (!file) {
+            done()
+            return
           }
-          pending--
-          if (pending === 0) resolve(results)
+          this.loadContent(transaction, file, content => {
+            results.set(path, content)
+            done()
+          })
         }
 
-        request.onerror = () => {
-          pending--
-          if (pending === 0) resolve(results)
-        }
+        request.onerror = () => done()
       }
 
       transaction.onerror = () => reject(transaction.error)
@@ -529,6 +1661,9 @@ export class IndexedDBBackend implements FileSystemBackend {
     options: WriteBinaryBatchOptions = {}
   ): Promise<void> {
     const { createParents = true, onProgress, concurrency = 20 } = options
+    // A path written twice would store both contents in one transaction and
+    // leak the first; the last entry wins
+    entries = [...new Map(entries.map(entry => [this.normalizePath(entry.path), entry])).values()]
     const total = entries.length
     let completed = 0
 
@@ -562,33 +1697,34 @@ export class IndexedDBBackend implements FileSystemBackend {
     // Process in batches to avoid transaction size limits
     for (let i = 0; i < entries.length; i += concurrency) {
       const batch = entries.slice(i, i + concurrency)
+      const digests = await Promise.all(batch.map(({ content }) => this.contentDigest(content)))
 
       await new Promise<void>((resolve, reject) => {
-        const transaction = db.transaction([IDB_FILES_STORE], 'readwrite')
+        const transaction = db.transaction([IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
         const store = transaction.objectStore(IDB_FILES_STORE)
-        let pending = batch.length
 
-        for (const { path, content } of batch) {
+        batch.forEach(({ path, content, mtime, mode }, index) => {
           const normalized = this.normalizePath(path)
-          const file: StoredFile = {
-            path: normalized,
-            content,
-            isBinary: true,
-            size: content.length,
-            mtime: now,
-            ctime: now
-          }
 
-          const request = store.put(file)
-          request.onsuccess = () => {
-            completed++
-            pending--
-            if (pending === 0) resolve()
-          }
-          request.onerror = () => reject(request.error)
-        }
+          // Look up the previous version so its chunks are dropped
+          const request = store.get(normalized)
+          request.onsuccess = () => this.whenWritable(transaction, normalized, path, () => {
+            const existing = request.result as StoredFile | undefined
+            this.storeContent(transaction, existing, {
+              path: normalized,
+              mtime: mtime?.getTime() ?? now,
+              ctime: existing?.ctime ?? now,
+              mode
+            }, content, digests[index])
+          })
+        })
 
-        transaction.onerror = () => reject(transaction.error)
+        transaction.oncomplete = () => {
+          completed += batch.length
+          resolve()
+        }
+        transaction.onerror = () => reject(toFileSystemError(transaction.error, batch[0].path, 'write'))
+        transaction.onabort = () => reject(this.abortError(transaction, batch[0].path, 'write'))
       })
 
       onProgress?.(completed, total)
@@ -596,4 +1732,14 @@ export class IndexedDBBackend implements FileSystemBackend {
   }
 }
 
+/** Generate a unique id for one version of a file, and for its chunk records */
+function createChunkId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+/** Key range covering the chunks [first, last] of a chunk id */
+function chunkRange(chunkId: string, first = 0, last = Infinity): IDBKeyRange {
+  return IDBKeyRange.bound([chunkId, first], [chunkId, last])
+}
+
 export const indexedDBBackend = new IndexedDBBackend()
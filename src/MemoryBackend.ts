@@ -0,0 +1,477 @@
+/**
+ * In-memory filesystem backend
+ *
+ * Keeps files and directories in plain Maps. Nothing is persisted, which
+ * makes it suitable for:
+ * - Scratch mounts such as /tmp
+ * - Server-side rendering and other environments without browser storage
+ * - Unit tests that shouldn't depend on IndexedDB or OPFS
+ */
+
+import type {
+  FileSystemBackend,
+  FileStats,
+  FileEntry,
+  TreeEntry,
+  HashAlgorithm,
+  ReadStreamOptions,
+  TransactionOperation,
+  WriteBinaryBatchEntry,
+  WriteBinaryBatchOptions
+} from './types.js'
+import { FileSystemError } from './errors.js'
+import { createBufferedWriteStream, createRangeStream, resolveRange } from './streams.js'
+import { digest } from './hash.js'
+
+interface MemoryFile {
+  content: Uint8Array
+  mtime: number
+  ctime: number
+  mode?: number
+  /** Digests by algorithm; files are replaced on every write, which drops them */
+  hashes?: Partial<Record<HashAlgorithm, string>>
+}
+
+interface MemoryDirectory {
+  mtime: number
+  ctime: number
+}
+
+export class MemoryBackend implements FileSystemBackend {
+  readonly name = 'memory'
+  private files = new Map<string, MemoryFile>()
+  private dirs = new Map<string, MemoryDirectory>()
+
+  constructor() {
+    const now = Date.now()
+    this.dirs.set('/', { mtime: now, ctime: now })
+  }
+
+  private normalizePath(path: string): string {
+    // Ensure path starts with /
+    if (!path.startsWith('/')) {
+      path = '/' + path
+    }
+    // Normalize multiple slashes
+    path = path.replace(/\/+/g, '/')
+    // Remove trailing slash unless it's root
+    if (path.length > 1 && path.endsWith('/')) {
+      path = path.slice(0, -1)
+    }
+    return path
+  }
+
+  private getParentPath(path: string): string {
+    const lastSlash = path.lastIndexOf('/')
+    if (lastSlash <= 0) return '/'
+    return path.slice(0, lastSlash)
+  }
+
+  private getName(path: string): string {
+    return path.slice(path.lastIndexOf('/') + 1)
+  }
+
+  private getFile(path: string, original: string, syscall: string): MemoryFile {
+    const file = this.files.get(path)
+    if (!file) {
+      if (this.dirs.has(path)) {
+        throw new FileSystemError('EISDIR', original, syscall)
+      }
+      throw new FileSystemError('ENOENT', original, syscall)
+    }
+    return file
+  }
+
+  /** Update the mtime of a directory after its children changed */
+  private touchDirectory(path: string, now: number): void {
+    const dir = this.dirs.get(path)
+    if (dir) {
+      dir.mtime = now
+    }
+  }
+
+  /** Create a directory and any missing parents */
+  private ensureDirectory(path: string, now: number): void {
+    if (this.dirs.has(path)) return
+    if (this.files.has(path)) {
+      throw new FileSystemError('ENOTDIR', path, 'mkdir')
+    }
+
+    const parentPath = this.getParentPath(path)
+    this.ensureDirectory(parentPath, now)
+    this.dirs.set(path, { mtime: now, ctime: now })
+    this.touchDirectory(parentPath, now)
+  }
+
+  private putFile(path: string, content: Uint8Array, now: number, mtime = now, mode?: number): void {
+    if (path === '/' || this.dirs.has(path)) {
+      throw new FileSystemError('EISDIR', path, 'write')
+    }
+
+    // Ensure parent directory exists
+    const parentPath = this.getParentPath(path)
+    this.ensureDirectory(parentPath, now)
+
+    const existing = this.files.get(path)
+    this.files.set(path, {
+      // Copy so later mutations by the caller don't leak into storage
+      content: content.slice(),
+      mtime,
+      ctime: existing?.ctime ?? now,
+      mode: mode ?? existing?.mode
+    })
+
+    if (!existing) {
+      this.touchDirectory(parentPath, now)
+    }
+  }
+
+  /** Collect all file and directory paths strictly below a directory */
+  private getDescendants(path: string): { files: string[]; dirs: string[] } {
+    const prefix = path === '/' ? '/' : path + '/'
+    const files = [...this.files.keys()].filter(p => p.startsWith(prefix))
+    const dirs = [...this.dirs.keys()].filter(p => p !== '/' && p.startsWith(prefix))
+    return { files, dirs }
+  }
+
+  async readFile(path: string): Promise<string> {
+    const file = this.getFile(this.normalizePath(path), path, 'open')
+    return new TextDecoder().decode(file.content)
+  }
+
+  async readBinary(path: string): Promise<Uint8Array> {
+    const file = this.getFile(this.normalizePath(path), path, 'open')
+    return file.content.slice()
+  }
+
+  /**
+   * Stream a file in chunks
+   * The stream reads the contents as they were when it was opened
+   */
+  async readStream(path: string, options: ReadStreamOptions = {}): Promise<ReadableStream<Uint8Array>> {
+    const { content } = this.getFile(this.normalizePath(path), path, 'open')
+    const { start, end } = resolveRange(content.length, options, path)
+    return createRangeStream(async (from, to) => content.slice(from, to), start, end, options.highWaterMark)
+  }
+
+  /**
+   * Open a write stream; the file is replaced when the stream closes
+   */
+  async createWriteStream(path: string): Promise<WritableStream<Uint8Array>> {
+    const normalized = this.normalizePath(path)
+    if (normalized === '/' || this.dirs.has(normalized)) {
+      throw new FileSystemError('EISDIR', path, 'write')
+    }
+    return createBufferedWriteStream(async content => this.putFile(normalized, content, Date.now()))
+  }
+
+  async readRange(path: string, start: number, end: number): Promise<Uint8Array> {
+    const file = this.getFile(this.normalizePath(path), path, 'read')
+    return file.content.slice(start, end)
+  }
+
+  async writeRange(path: string, position: number, data: Uint8Array): Promise<void> {
+    if (position < 0) {
+      throw new FileSystemError('EINVAL', path, 'write')
+    }
+
+    const normalized = this.normalizePath(path)
+    const current = this.files.get(normalized)?.content ?? new Uint8Array(0)
+    const content = new Uint8Array(Math.max(current.length, position + data.length))
+    content.set(current)
+    content.set(data, position)
+    this.putFile(normalized, content, Date.now())
+  }
+
+  async truncate(path: string, size: number): Promise<void> {
+    if (size < 0) {
+      throw new FileSystemError('EINVAL', path, 'ftruncate')
+    }
+
+    const normalized = this.normalizePath(path)
+    const file = this.getFile(normalized, path, 'ftruncate')
+    const content = new Uint8Array(size)
+    content.set(file.content.subarray(0, size))
+    this.putFile(normalized, content, Date.now())
+  }
+
+  async hash(path: string, algorithm: HashAlgorithm): Promise<string> {
+    const file = this.getFile(this.normalizePath(path), path, 'open')
+    file.hashes ??= {}
+    file.hashes[algorithm] ??= await digest(file.content, algorithm)
+    return file.hashes[algorithm]
+  }
+
+  async writeFile(path: string, content: string): Promise<void> {
+    this.putFile(this.normalizePath(path), new TextEncoder().encode(content), Date.now())
+  }
+
+  async writeBinary(path: string, content: Uint8Array): Promise<void> {
+    this.putFile(this.normalizePath(path), content, Date.now())
+  }
+
+  async deleteFile(path: string): Promise<void> {
+    const normalized = this.normalizePath(path)
+    this.getFile(normalized, path, 'unlink')
+    this.files.delete(normalized)
+    this.touchDirectory(this.getParentPath(normalized), Date.now())
+  }
+
+  async exists(path: string): Promise<boolean> {
+    const normalized = this.normalizePath(path)
+    return this.files.has(normalized) || this.dirs.has(normalized)
+  }
+
+  async stat(path: string): Promise<FileStats> {
+    const normalized = this.normalizePath(path)
+
+    const file = this.files.get(normalized)
+    if (file) {
+      return {
+        size: file.content.length,
+        isDirectory: false,
+        isFile: true,
+        mtime: new Date(file.mtime),
+        mode: file.mode
+      }
+    }
+
+    const dir = this.dirs.get(normalized)
+    if (dir) {
+      return {
+        size: 0,
+        isDirectory: true,
+        isFile: false,
+        mtime: new Date(dir.mtime)
+      }
+    }
+
+    throw new FileSystemError('ENOENT', path, 'stat')
+  }
+
+  async mkdir(path: string): Promise<void> {
+    this.ensureDirectory(this.normalizePath(path), Date.now())
+  }
+
+  async rmdir(path: string, options?: { recursive?: boolean }): Promise<void> {
+    const normalized = this.normalizePath(path)
+
+    if (normalized === '/') {
+      throw new FileSystemError('EACCES', path, 'rmdir')
+    }
+    if (!this.dirs.has(normalized)) {
+      if (this.files.has(normalized)) {
+        throw new FileSystemError('ENOTDIR', path, 'rmdir')
+      }
+      throw new FileSystemError('ENOENT', path, 'rmdir')
+    }
+
+    const descendants = this.getDescendants(normalized)
+    if (!options?.recursive && (descendants.files.length > 0 || descendants.dirs.length > 0)) {
+      throw new FileSystemError('ENOTEMPTY', path, 'rmdir')
+    }
+
+    for (const filePath of descendants.files) {
+      this.files.delete(filePath)
+    }
+    for (const dirPath of descendants.dirs) {
+      this.dirs.delete(dirPath)
+    }
+    this.dirs.delete(normalized)
+    this.touchDirectory(this.getParentPath(normalized), Date.now())
+  }
+
+  async readdir(path: string): Promise<FileEntry[]> {
+    const normalized = this.normalizePath(path)
+
+    if (!this.dirs.has(normalized)) {
+      if (this.files.has(normalized)) {
+        throw new FileSystemError('ENOTDIR', path, 'scandir')
+      }
+      throw new FileSystemError('ENOENT', path, 'scandir')
+    }
+
+    const entries: FileEntry[] = []
+    for (const dirPath of this.dirs.keys()) {
+      if (dirPath !== '/' && this.getParentPath(dirPath) === normalized) {
+        entries.push({ name: this.getName(dirPath), path: dirPath, isDirectory: true })
+      }
+    }
+    for (const filePath of this.files.keys()) {
+      if (this.getParentPath(filePath) === normalized) {
+        entries.push({ name: this.getName(filePath), path: filePath, isDirectory: false })
+      }
+    }
+
+    return entries.sort((a, b) => {
+      // Directories first, then alphabetical
+      if (a.isDirectory !== b.isDirectory) {
+        return a.isDirectory ? -1 : 1
+      }
+      return a.name.localeCompare(b.name)
+    })
+  }
+
+  async listTree(path: string, options: { withStats?: boolean } = {}): Promise<TreeEntry[]> {
+    const normalized = this.normalizePath(path)
+    if (!this.dirs.has(normalized)) {
+      if (this.files.has(normalized)) {
+        throw new FileSystemError('ENOTDIR', path, 'scandir')
+      }
+      throw new FileSystemError('ENOENT', path, 'scandir')
+    }
+
+    const { files, dirs } = this.getDescendants(normalized)
+    const entries: TreeEntry[] = [
+      ...dirs.sort().map(dir => ({ name: this.getName(dir), path: dir, isDirectory: true })),
+      ...files.map(file => ({ name: this.getName(file), path: file, isDirectory: false }))
+    ]
+    if (options.withStats) {
+      for (const entry of entries) {
+        entry.stats = await this.stat(entry.path)
+      }
+    }
+    return entries
+  }
+
+  async rename(oldPath: string, newPath: string): Promise<void> {
+    const from = this.normalizePath(oldPath)
+    const to = this.normalizePath(newPath)
+    if (from === to) return
+
+    if (this.dirs.has(from)) {
+      this.renameDirectory(from, to, newPath)
+      return
+    }
+
+    const file = this.getFile(from, oldPath, 'rename')
+    const now = Date.now()
+
+    // Renaming keeps the original timestamps
+    this.putFile(to, file.content, now, file.mtime)
+    this.files.set(to, { ...this.files.get(to)!, ctime: file.ctime, mode: file.mode })
+    this.files.delete(from)
+    this.touchDirectory(this.getParentPath(from), now)
+  }
+
+  /** Re-key a directory and everything below it, keeping timestamps */
+  private renameDirectory(from: string, to: string, newPath: string): void {
+    if (from === '/') {
+      throw new FileSystemError('EACCES', from, 'rename')
+    }
+    if (to.startsWith(from + '/')) {
+      throw new FileSystemError('EINVAL', newPath, 'rename')
+    }
+    if (this.files.has(to) || this.dirs.has(to)) {
+      throw new FileSystemError('EEXIST', newPath, 'rename')
+    }
+
+    const now = Date.now()
+    const newParent = this.getParentPath(to)
+    this.ensureDirectory(newParent, now)
+
+    const { files, dirs } = this.getDescendants(from)
+    const rekey = (path: string) => to + path.slice(from.length)
+
+    for (const dirPath of [from, ...dirs]) {
+      this.dirs.set(rekey(dirPath), this.dirs.get(dirPath)!)
+      this.dirs.delete(dirPath)
+    }
+    for (const filePath of files) {
+      this.files.set(rekey(filePath), this.files.get(filePath)!)
+      this.files.delete(filePath)
+    }
+
+    this.touchDirectory(this.getParentPath(from), now)
+    this.touchDirectory(newParent, now)
+  }
+
+  async copyFile(src: string, dest: string): Promise<void> {
+    const file = this.getFile(this.normalizePath(src), src, 'copyfile')
+    this.putFile(this.normalizePath(dest), file.content, Date.now())
+  }
+
+  /**
+   * Apply writes, deletes and mkdirs all-or-nothing
+   * Changes are made synchronously, so readers never see part of the batch
+   */
+  async applyTransaction(operations: TransactionOperation[]): Promise<void> {
+    const files = new Map(this.files)
+    const dirs = new Map([...this.dirs].map(([path, dir]) => [path, { ...dir }]))
+    const now = Date.now()
+
+    try {
+      for (const op of operations) {
+        const normalized = this.normalizePath(op.path)
+        if (op.type === 'write') {
+          this.putFile(normalized, op.content, now)
+        } else if (op.type === 'delete') {
+          this.getFile(normalized, op.path, 'unlink')
+          this.files.delete(normalized)
+          this.touchDirectory(this.getParentPath(normalized), now)
+        } else {
+          this.ensureDirectory(normalized, now)
+        }
+      }
+    } catch (e) {
+      // Roll back to the state before the batch
+      this.files = files
+      this.dirs = dirs
+      throw e
+    }
+  }
+
+  /**
+   * Read multiple files at once (missing files are omitted)
+   */
+  async readBinaryBatch(paths: string[]): Promise<Map<string, Uint8Array>> {
+    const results = new Map<string, Uint8Array>()
+
+    for (const path of paths) {
+      const file = this.files.get(this.normalizePath(path))
+      if (file) {
+        results.set(path, file.content.slice())
+      }
+    }
+
+    return results
+  }
+
+  /**
+   * Write multiple files with progress reporting
+   */
+  async writeBinaryBatch(
+    entries: WriteBinaryBatchEntry[],
+    options: WriteBinaryBatchOptions = {}
+  ): Promise<void> {
+    const { createParents = true, onProgress, concurrency = 20 } = options
+    const total = entries.length
+    let completed = 0
+
+    if (total === 0) {
+      onProgress?.(0, 0)
+      return
+    }
+
+    const now = Date.now()
+
+    // Report progress at the same granularity as the other backends
+    for (let i = 0; i < entries.length; i += concurrency) {
+      const batch = entries.slice(i, i + concurrency)
+
+      for (const { path, content, mtime, mode } of batch) {
+        const normalized = this.normalizePath(path)
+        const parentPath = this.getParentPath(normalized)
+        if (!createParents && !this.dirs.has(parentPath)) {
+          throw new FileSystemError('ENOENT', parentPath, 'write')
+        }
+        this.putFile(normalized, content, now, mtime?.getTime() ?? now, mode)
+        completed++
+      }
+
+      onProgress?.(completed, total)
+    }
+  }
+}
+
+export const memoryBackend = new MemoryBackend()
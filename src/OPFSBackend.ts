@@ -8,11 +8,45 @@
  * - No serialization overhead
  */
 
-import type { FileSystemBackend, FileStats, FileEntry, WriteBinaryBatchEntry, WriteBinaryBatchOptions } from './types.js'
+import type {
+  FileSystemBackend,
+  FileStats,
+  FileEntry,
+  ReadStreamOptions,
+  TransactionOperation,
+  ExternalChangeOptions,
+  FileSystemEvent,
+  HashAlgorithm,
+  WriteOptions,
+  WriteBinaryBatchEntry,
+  WriteBinaryBatchOptions
+} from './types.js'
+import { OPFS_META_DIR, OPFS_TEMP_PREFIX } from './constants.js'
+import { FileSystemError, toFileSystemError } from './errors.js'
+import { limitChunkSize, resolveRange } from './streams.js'
+import { watchDirectory } from './opfsWatch.js'
+import { digest } from './hash.js'
+
+// Identifies temp files created by this page, which cleanup must not touch
+const SESSION_ID = `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+
+// Temp files younger than this may belong to a write in progress in another tab
+const TEMP_FILE_MAX_AGE = 10 * 60 * 1000
+
+/** Sidecar of a file's cached digests, valid while size and mtime match */
+interface HashSidecar {
+  path: string
+  size: number
+  lastModified: number
+  hashes: Partial<Record<HashAlgorithm, string>>
+}
 
 export class OPFSBackend implements FileSystemBackend {
   readonly name = 'opfs'
   private rootPromise: Promise<FileSystemDirectoryHandle> | null = null
+  private tempCounter = 0
+  /** Directories already swept for temp files orphaned by earlier sessions */
+  private sweptDirs = new Set<string>()
 
   private async getRoot(): Promise<FileSystemDirectoryHandle> {
     if (!this.rootPromise) {
@@ -44,72 +78,533 @@ export class OPFSBackend implements FileSystemBackend {
 
   private async getDirectoryHandle(
     path: string,
-    options: { create?: boolean } = {}
+    options: { create?: boolean; syscall?: string } = {}
   ): Promise<FileSystemDirectoryHandle> {
     const root = await this.getRoot()
     const parts = this.getPathParts(path)
 
     let current = root
-    for (const part of parts) {
-      current = await current.getDirectoryHandle(part, { create: options.create })
+    try {
+      for (const part of parts) {
+        current = await current.getDirectoryHandle(part, { create: options.create })
+      }
+    } catch (e) {
+      // A file somewhere along the path surfaces as TypeMismatchError
+      throw toFileSystemError(e, path, options.syscall ?? 'open', 'ENOTDIR')
     }
     return current
   }
 
   private async getParentAndName(
     path: string,
-    options: { createParents?: boolean } = {}
+    options: { createParents?: boolean; syscall?: string } = {}
   ): Promise<{ parent: FileSystemDirectoryHandle; name: string }> {
+    const syscall = options.syscall ?? 'open'
     const parts = this.getPathParts(path)
     if (parts.length === 0) {
-      throw new Error('Invalid path: root has no parent')
+      // Root has no parent - it can only be used as a directory
+      throw new FileSystemError('EISDIR', path, syscall)
     }
 
     const name = parts.pop()!
     const root = await this.getRoot()
 
     let parent = root
-    for (const part of parts) {
-      parent = await parent.getDirectoryHandle(part, { create: options.createParents })
+    try {
+      for (const part of parts) {
+        parent = await parent.getDirectoryHandle(part, { create: options.createParents })
+      }
+    } catch (e) {
+      throw toFileSystemError(e, path, syscall, 'ENOTDIR')
     }
 
     return { parent, name }
   }
 
+  /**
+   * Get a file handle, reporting a directory at the path as EISDIR
+   */
+  private async getFileHandleAt(
+    path: string,
+    syscall: string,
+    options: { create?: boolean } = {}
+  ): Promise<FileSystemFileHandle> {
+    const { parent, name } = await this.getParentAndName(path, { createParents: options.create, syscall })
+    try {
+      return await parent.getFileHandle(name, { create: options.create })
+    } catch (e) {
+      throw toFileSystemError(e, path, syscall, 'EISDIR')
+    }
+  }
+
   async readFile(path: string): Promise<string> {
-    const { parent, name } = await this.getParentAndName(path)
-    const fileHandle = await parent.getFileHandle(name)
-    const file = await fileHandle.getFile()
-    return file.text()
+    try {
+      const fileHandle = await this.getFileHandleAt(path, 'open')
+      const file = await fileHandle.getFile()
+      return await file.text()
+    } catch (e) {
+      throw toFileSystemError(e, path, 'open')
+    }
   }
 
   async readBinary(path: string): Promise<Uint8Array> {
-    const { parent, name } = await this.getParentAndName(path)
-    const fileHandle = await parent.getFileHandle(name)
-    const file = await fileHandle.getFile()
-    const buffer = await file.arrayBuffer()
-    return new Uint8Array(buffer)
+    try {
+      const fileHandle = await this.getFileHandleAt(path, 'open')
+      const file = await fileHandle.getFile()
+      const buffer = await file.arrayBuffer()
+      return new Uint8Array(buffer)
+    } catch (e) {
+      throw toFileSystemError(e, path, 'open')
+    }
+  }
+
+  /**
+   * Stream a file (or a byte range of it) via File.stream()
+   */
+  async readStream(path: string, options: ReadStreamOptions = {}): Promise<ReadableStream<Uint8Array>> {
+    let file: File
+    try {
+      const fileHandle = await this.getFileHandleAt(path, 'open')
+      file = await fileHandle.getFile()
+    } catch (e) {
+      throw toFileSystemError(e, path, 'open')
+    }
+
+    const { start, end } = resolveRange(file.size, options, path)
+    return limitChunkSize(file.slice(start, end).stream(), options.highWaterMark)
+  }
+
+  /**
+   * Open a write stream via createWritable()
+   * OPFS writes to a swap file and only replaces the contents on close
+   */
+  async createWriteStream(path: string): Promise<WritableStream<Uint8Array>> {
+    let writer: WritableStreamDefaultWriter<Uint8Array>
+    try {
+      const fileHandle = await this.getFileHandleAt(path, 'write', { create: true })
+      writer = (await fileHandle.createWritable()).getWriter()
+    } catch (e) {
+      throw toFileSystemError(e, path, 'write')
+    }
+
+    return new WritableStream<Uint8Array>({
+      write: chunk => writer.write(chunk),
+      close: async () => {
+        await writer.close()
+        await this.removeHashSidecar(path)
+      },
+      abort: reason => writer.abort(reason)
+    })
+  }
+
+  async readRange(path: string, start: number, end: number): Promise<Uint8Array> {
+    try {
+      const fileHandle = await this.getFileHandleAt(path, 'read')
+      const file = await fileHandle.getFile()
+      return new Uint8Array(await file.slice(start, end).arrayBuffer())
+    } catch (e) {
+      throw toFileSystemError(e, path, 'read')
+    }
+  }
+
+  /**
+   * Write data at a byte offset via createWritable({ keepExistingData: true })
+   * The rest of the file is kept; OPFS zero-fills a gap past the old end
+   */
+  async writeRange(path: string, position: number, data: Uint8Array): Promise<void> {
+    if (position < 0) {
+      throw new FileSystemError('EINVAL', path, 'write')
+    }
+
+    try {
+      const fileHandle = await this.getFileHandleAt(path, 'write', { create: true })
+      const writable = await fileHandle.createWritable({ keepExistingData: true })
+      await writable.seek(position)
+      await writable.write(data)
+      await writable.close()
+      await this.removeHashSidecar(path)
+    } catch (e) {
+      throw toFileSystemError(e, path, 'write')
+    }
+  }
+
+  async truncate(path: string, size: number): Promise<void> {
+    if (size < 0) {
+      throw new FileSystemError('EINVAL', path, 'ftruncate')
+    }
+
+    try {
+      const fileHandle = await this.getFileHandleAt(path, 'ftruncate')
+      const writable = await fileHandle.createWritable({ keepExistingData: true })
+      await writable.truncate(size)
+      await writable.close()
+      await this.removeHashSidecar(path)
+    } catch (e) {
+      throw toFileSystemError(e, path, 'ftruncate')
+    }
+  }
+
+  async writeFile(path: string, content: string, options?: Pick<WriteOptions, 'atomic'>): Promise<void> {
+    if (options?.atomic) {
+      return this.writeAtomic(path, content)
+    }
+
+    try {
+      const fileHandle = await this.getFileHandleAt(path, 'write', { create: true })
+      const writable = await fileHandle.createWritable()
+      await writable.write(content)
+      await writable.close()
+      await this.removeHashSidecar(path)
+    } catch (e) {
+      throw toFileSystemError(e, path, 'write')
+    }
   }
 
-  async writeFile(path: string, content: string): Promise<void> {
-    const { parent, name } = await this.getParentAndName(path, { createParents: true })
-    const fileHandle = await parent.getFileHandle(name, { create: true })
-    const writable = await fileHandle.createWritable()
+  async writeBinary(path: string, content: Uint8Array, options?: Pick<WriteOptions, 'atomic'>): Promise<void> {
+    if (options?.atomic) {
+      return this.writeAtomic(path, content)
+    }
+
+    try {
+      const fileHandle = await this.getFileHandleAt(path, 'write', { create: true })
+      const writable = await fileHandle.createWritable()
+      await writable.write(content)
+      await writable.close()
+      await this.removeHashSidecar(path)
+    } catch (e) {
+      throw toFileSystemError(e, path, 'write')
+    }
+  }
+
+  /**
+   * Write to a temp sibling, verify its size, then swap it in
+   * Uses FileSystemHandle.move() where available; otherwise the verified
+   * temp file is copied over the target and removed.
+   */
+  private async writeAtomic(path: string, content: string | Uint8Array): Promise<void> {
+    const { parent, name } = await this.getParentAndName(path, { createParents: true, syscall: 'write' })
+    const tempName = this.createTempName(name)
+    this.sweepParent(parent, path)
+
+    try {
+      await this.writeTempFile(parent, tempName, content, path)
+      await this.moveFileEntry(parent, tempName, name)
+      await this.removeHashSidecar(path)
+    } catch (e) {
+      await parent.removeEntry(tempName).catch(() => {})
+      throw toFileSystemError(e, path, 'write', 'EISDIR')
+    }
+  }
+
+  private createTempName(name: string): string {
+    return `${OPFS_TEMP_PREFIX}${SESSION_ID}-${++this.tempCounter}-${name}`
+  }
+
+  /**
+   * Sweep orphaned temp files out of the directory holding `path` in the
+   * background, the first time this page writes temp files there
+   */
+  private sweepParent(parent: FileSystemDirectoryHandle, path: string): void {
+    const dir = this.getPathParts(path).slice(0, -1).join('/')
+    if (this.sweptDirs.has(dir)) return
+    this.sweptDirs.add(dir)
+    this.removeTempFiles(parent, false).catch(() => {})
+  }
+
+  /** Write a temp file and check that all of it reached storage */
+  private async writeTempFile(
+    parent: FileSystemDirectoryHandle,
+    tempName: string,
+    content: string | Uint8Array,
+    path: string
+  ): Promise<void> {
+    const expectedSize = typeof content === 'string' ? new Blob([content]).size : content.length
+    const temp = await parent.getFileHandle(tempName, { create: true })
+    const writable = await temp.createWritable()
     await writable.write(content)
     await writable.close()
+
+    if ((await temp.getFile()).size !== expectedSize) {
+      throw new FileSystemError('EIO', path, 'write')
+    }
   }
 
-  async writeBinary(path: string, content: Uint8Array): Promise<void> {
-    const { parent, name } = await this.getParentAndName(path, { createParents: true })
-    const fileHandle = await parent.getFileHandle(name, { create: true })
-    const writable = await fileHandle.createWritable()
-    await writable.write(content)
+  /**
+   * Move a file to a new name in the same directory, replacing any file there
+   * Uses FileSystemHandle.move() where available, else copies and removes
+   */
+  private async moveFileEntry(parent: FileSystemDirectoryHandle, fromName: string, toName: string): Promise<void> {
+    const handle = await parent.getFileHandle(fromName)
+    if (typeof (handle as any).move === 'function') {
+      try {
+        await (handle as any).move(parent, toName)
+        return
+      } catch (e) {
+        if ((e as { name?: string }).name !== 'NotSupportedError') throw e
+      }
+    }
+
+    const target = await parent.getFileHandle(toName, { create: true })
+    const writable = await target.createWritable()
+    await writable.write(await handle.getFile())
     await writable.close()
+    await parent.removeEntry(fromName)
+  }
+
+  /**
+   * Apply writes, deletes and mkdirs all-or-nothing
+   *
+   * New contents are staged in temp siblings first. The commit then moves
+   * each replaced or deleted file aside as a backup and moves the staged file
+   * into place; if any step fails, completed steps are undone, backups are
+   * restored and directories created for the batch are removed again.
+   */
+  async applyTransaction(operations: TransactionOperation[]): Promise<void> {
+    type Entry = { parent: FileSystemDirectoryHandle; name: string }
+    const createdDirs: string[] = []
+    const staged = new Map<TransactionOperation, Entry & { tempName: string }>()
+    const backups: Array<Entry & { backupName: string }> = []
+    const placed: Entry[] = []
+
+    try {
+      // Create directories up front, remembering the new ones
+      const dirs = new Set<string>()
+      for (const op of operations) {
+        const parts = this.getPathParts(op.path)
+        if (op.type !== 'mkdir') parts.pop()
+        parts.forEach((_, i) => dirs.add(parts.slice(0, i + 1).join('/')))
+      }
+      for (const dir of [...dirs].sort((a, b) => a.split('/').length - b.split('/').length)) {
+        if (!(await this.exists(dir))) {
+          await this.mkdir(dir)
+          createdDirs.push(dir)
+        }
+      }
+
+      // Stage new contents, and check that files to delete exist
+      for (const op of operations) {
+        if (op.type === 'write') {
+          const { parent, name } = await this.getParentAndName(op.path, { syscall: 'write' })
+          const tempName = this.createTempName(name)
+          this.sweepParent(parent, op.path)
+          staged.set(op, { parent, name, tempName })
+          await this.writeTempFile(parent, tempName, op.content, op.path)
+        } else if (op.type === 'delete') {
+          await this.getFileHandleAt(op.path, 'unlink')
+        }
+      }
+
+      // Commit: move old files aside, then staged files into place
+      for (const op of operations) {
+        if (op.type === 'mkdir') continue
+
+        const { parent, name } = staged.get(op) ?? await this.getParentAndName(op.path, { syscall: 'unlink' })
+        const existing = await parent.getFileHandle(name).catch(e => {
+          if ((e as { name?: string }).name === 'NotFoundError') return null
+          throw toFileSystemError(e, op.path, op.type === 'write' ? 'write' : 'unlink', 'EISDIR')
+        })
+        if (existing) {
+          const backupName = this.createTempName(name)
+          await this.moveFileEntry(parent, name, backupName)
+          backups.push({ parent, name, backupName })
+        }
+
+        const entry = staged.get(op)
+        if (entry) {
+          await this.moveFileEntry(parent, entry.tempName, name)
+          staged.delete(op)
+          placed.push({ parent, name })
+        }
+      }
+    } catch (e) {
+      for (const { parent, name } of placed.reverse()) {
+        await parent.removeEntry(name).catch(() => {})
+      }
+      for (const { parent, name, backupName } of backups.reverse()) {
+        await this.moveFileEntry(parent, backupName, name).catch(() => {})
+      }
+      for (const { parent, tempName } of staged.values()) {
+        await parent.removeEntry(tempName).catch(() => {})
+      }
+      for (const dir of createdDirs.reverse()) {
+        await this.rmdir(dir).catch(() => {})
+      }
+      throw toFileSystemError(e, operations[0].path, 'transaction')
+    }
+
+    // Committed; the backups are no longer needed
+    for (const { parent, backupName } of backups) {
+      await parent.removeEntry(backupName).catch(() => {})
+    }
+    for (const op of operations) {
+      if (op.type !== 'mkdir') await this.removeHashSidecar(op.path)
+    }
+  }
+
+  /**
+   * Remove temp files left behind by atomic writes that never finished,
+   * e.g. because the tab was closed mid-write
+   *
+   * Sweeps the whole tree. Atomic writes and transactions also sweep each
+   * directory they write to, in the background and once per page. Temp files
+   * from this page, and those younger than `maxAge` (another tab may still
+   * be writing them), are kept.
+   *
+   * @returns Number of files removed
+   */
+  async cleanupTempFiles(options: { maxAge?: number } = {}): Promise<number> {
+    return this.removeTempFiles(await this.getRoot(), true, options.maxAge)
+  }
+
+  /** Remove orphaned temp files from a directory, and with `recursive` from those below it */
+  private async removeTempFiles(
+    root: FileSystemDirectoryHandle,
+    recursive: boolean,
+    maxAge = TEMP_FILE_MAX_AGE
+  ): Promise<number> {
+    const cutoff = Date.now() - maxAge
+    const ownPrefix = `${OPFS_TEMP_PREFIX}${SESSION_ID}-`
+    let removed = 0
+
+    const sweep = async (dir: FileSystemDirectoryHandle): Promise<void> => {
+      const orphans: string[] = []
+      const dirAsIterable = dir as unknown as AsyncIterable<[string, FileSystemHandle]>
+      for await (const [name, handle] of dirAsIterable) {
+        if (handle.kind === 'directory') {
+          if (recursive) await sweep(handle as FileSystemDirectoryHandle)
+        } else if (name.startsWith(OPFS_TEMP_PREFIX) && !name.startsWith(ownPrefix)) {
+          const file = await (handle as FileSystemFileHandle).getFile()
+          if (file.lastModified <= cutoff) {
+            orphans.push(name)
+          }
+        }
+      }
+
+      // Remove after iterating; mutating a directory mid-iteration is unspecified
+      for (const name of orphans) {
+        await dir.removeEntry(name)
+        removed++
+      }
+    }
+
+    await sweep(root)
+    return removed
+  }
+
+  /**
+   * Report changes to OPFS, including those made by workers or other tabs
+   * Uses FileSystemObserver where available, otherwise polls sizes and mtimes.
+   */
+  watchChanges(onChange: (event: FileSystemEvent) => void, options?: ExternalChangeOptions): () => void {
+    return watchDirectory(() => this.getRoot(), onChange, options)
   }
 
   async deleteFile(path: string): Promise<void> {
-    const { parent, name } = await this.getParentAndName(path)
-    await parent.removeEntry(name)
+    const { parent, name } = await this.getParentAndName(path, { syscall: 'unlink' })
+
+    // removeEntry() would also delete an empty directory
+    let isDirectory = false
+    try {
+      await parent.getDirectoryHandle(name)
+      isDirectory = true
+    } catch {
+      // Not a directory
+    }
+    if (isDirectory) {
+      throw new FileSystemError('EISDIR', path, 'unlink')
+    }
+
+    try {
+      await parent.removeEntry(name)
+    } catch (e) {
+      throw toFileSystemError(e, path, 'unlink')
+    }
+    await this.removeHashSidecar(path)
+  }
+
+  /**
+   * Hex digest of a file
+   * Digests are cached in a sidecar under OPFS_META_DIR along with the size
+   * and mtime they were computed for, so any later write, including writes
+   * made outside this backend, invalidates them. Writes through this backend
+   * also drop the sidecar, in case the mtime doesn't change.
+   */
+  async hash(path: string, algorithm: HashAlgorithm): Promise<string> {
+    let file: File
+    try {
+      file = await (await this.getFileHandleAt(path, 'open')).getFile()
+    } catch (e) {
+      throw toFileSystemError(e, path, 'open')
+    }
+
+    const normalized = '/' + this.normalizePath(path)
+    const cached = await this.readHashSidecar(normalized)
+    const valid = cached?.path === normalized && cached.size === file.size && cached.lastModified === file.lastModified
+    if (valid && cached.hashes[algorithm]) {
+      return cached.hashes[algorithm]
+    }
+
+    const value = await digest(new Uint8Array(await file.arrayBuffer()), algorithm)
+    const sidecar: HashSidecar = {
+      path: normalized,
+      size: file.size,
+      lastModified: file.lastModified,
+      hashes: { ...(valid ? cached.hashes : {}), [algorithm]: value }
+    }
+    // Caching is best-effort; the digest is still valid for the caller
+    await this.writeHashSidecar(sidecar).catch(() => {})
+    return value
+  }
+
+  /** Sidecars are named by a digest of the path, which keeps names short */
+  private async getHashSidecarName(normalized: string): Promise<string> {
+    return `${await digest(new TextEncoder().encode(normalized), 'SHA-1')}.json`
+  }
+
+  private async readHashSidecar(normalized: string): Promise<HashSidecar | null> {
+    try {
+      const metaDir = await (await this.getRoot()).getDirectoryHandle(OPFS_META_DIR)
+      const handle = await metaDir.getFileHandle(await this.getHashSidecarName(normalized))
+      return JSON.parse(await (await handle.getFile()).text()) as HashSidecar
+    } catch {
+      return null
+    }
+  }
+
+  private async writeHashSidecar(sidecar: HashSidecar): Promise<void> {
+    const metaDir = await (await this.getRoot()).getDirectoryHandle(OPFS_META_DIR, { create: true })
+    const handle = await metaDir.getFileHandle(await this.getHashSidecarName(sidecar.path), { create: true })
+    const writable = await handle.createWritable()
+    await writable.write(JSON.stringify(sidecar))
+    await writable.close()
+  }
+
+  private async removeHashSidecar(path: string): Promise<void> {
+    try {
+      const metaDir = await (await this.getRoot()).getDirectoryHandle(OPFS_META_DIR)
+      await metaDir.removeEntry(await this.getHashSidecarName('/' + this.normalizePath(path)))
+    } catch {
+      // No sidecar
+    }
+  }
+
+  /**
+   * Drop sidecars at both ends of a rename, since a native move keeps the mtime
+   * For directories, this covers every file now under the new path
+   */
+  private async removeMovedHashSidecars(oldPath: string, newPath: string, isDirectory: boolean): Promise<void> {
+    if (!isDirectory) {
+      await this.removeHashSidecar(oldPath)
+      await this.removeHashSidecar(newPath)
+      return
+    }
+
+    const from = this.normalizePath(oldPath)
+    const to = this.normalizePath(newPath)
+    for (const entry of await this.readdir(newPath)) {
+      const rest = entry.path.slice(to.length + 1)
+      await this.removeMovedHashSidecars('/' + from + rest, entry.path, entry.isDirectory)
+    }
   }
 
   async exists(path: string): Promise<boolean> {
@@ -153,7 +648,7 @@ export class OPFSBackend implements FileSystemBackend {
       }
     }
 
-    const { parent, name } = await this.getParentAndName(path)
+    const { parent, name } = await this.getParentAndName(path, { syscall: 'stat' })
 
     // Try as file first
     try {
@@ -175,30 +670,37 @@ export class OPFSBackend implements FileSystemBackend {
           isFile: false,
           mtime: new Date(0) // OPFS doesn't track directory mtime
         }
-      } catch {
-        throw new Error(`ENOENT: no such file or directory: ${path}`)
+      } catch (e) {
+        throw toFileSystemError(e, path, 'stat')
       }
     }
   }
 
   async mkdir(path: string): Promise<void> {
-    await this.getDirectoryHandle(path, { create: true })
+    // A file with the same name in the way surfaces as ENOTDIR
+    await this.getDirectoryHandle(path, { create: true, syscall: 'mkdir' })
   }
 
   async rmdir(path: string, options?: { recursive?: boolean }): Promise<void> {
     const parts = this.getPathParts(path)
     if (parts.length === 0) {
-      throw new Error('Cannot remove root directory')
+      throw new FileSystemError('EACCES', path, 'rmdir')
     }
 
-    const { parent, name } = await this.getParentAndName(path)
-    await parent.removeEntry(name, { recursive: options?.recursive })
+    const { parent, name } = await this.getParentAndName(path, { syscall: 'rmdir' })
+    try {
+      // Make sure we don't remove a file through rmdir
+      await parent.getDirectoryHandle(name)
+      await parent.removeEntry(name, { recursive: options?.recursive })
+    } catch (e) {
+      throw toFileSystemError(e, path, 'rmdir', 'ENOTDIR')
+    }
   }
 
   async readdir(path: string): Promise<FileEntry[]> {
     const dir = this.getPathParts(path).length === 0
       ? await this.getRoot()
-      : await this.getDirectoryHandle(path)
+      : await this.getDirectoryHandle(path, { syscall: 'scandir' })
 
     const entries: FileEntry[] = []
     const prefix = this.normalizePath(path)
@@ -208,6 +710,8 @@ export class OPFSBackend implements FileSystemBackend {
     // Cast to async iterable since TS types may be incomplete
     const dirAsIterable = dir as unknown as AsyncIterable<[string, FileSystemHandle]>
     for await (const [name, handle] of dirAsIterable) {
+      // Hide temp siblings of atomic writes in progress, and sidecar metadata
+      if (name.startsWith(OPFS_TEMP_PREFIX) || (name === OPFS_META_DIR && !prefix)) continue
       entries.push({
         name,
         path: pathPrefix + name,
@@ -225,10 +729,71 @@ export class OPFSBackend implements FileSystemBackend {
   }
 
   async rename(oldPath: string, newPath: string): Promise<void> {
-    // OPFS doesn't have native rename, so copy + delete
-    const content = await this.readBinary(oldPath)
-    await this.writeBinary(newPath, content)
-    await this.deleteFile(oldPath)
+    const from = this.normalizePath(oldPath)
+    const to = this.normalizePath(newPath)
+    if (from === to) return
+
+    const stats = await this.stat(oldPath)
+    if (stats.isDirectory) {
+      if (!from) {
+        throw new FileSystemError('EACCES', oldPath, 'rename')
+      }
+      if (to.startsWith(from + '/')) {
+        throw new FileSystemError('EINVAL', newPath, 'rename')
+      }
+      if (await this.exists(newPath)) {
+        throw new FileSystemError('EEXIST', newPath, 'rename')
+      }
+    }
+
+    // Chromium can move entries natively via FileSystemHandle.move()
+    const { parent, name } = await this.getParentAndName(oldPath, { syscall: 'rename' })
+    const handle = stats.isDirectory
+      ? await parent.getDirectoryHandle(name)
+      : await parent.getFileHandle(name)
+
+    if (typeof (handle as any).move === 'function') {
+      const target = await this.getParentAndName(newPath, { createParents: true, syscall: 'rename' })
+      try {
+        await (handle as any).move(target.parent, target.name)
+        await this.removeMovedHashSidecars(oldPath, newPath, stats.isDirectory)
+        return
+      } catch (e) {
+        // Older implementations only support moving files
+        if ((e as { name?: string }).name !== 'NotSupportedError') {
+          throw toFileSystemError(e, oldPath, 'rename')
+        }
+      }
+    }
+
+    // No native move, so copy + delete
+    if (stats.isDirectory) {
+      await this.copyDirectory(oldPath, newPath)
+      await this.rmdir(oldPath, { recursive: true })
+      await this.removeMovedHashSidecars(oldPath, newPath, true)
+    } else {
+      // Atomic, so a crash leaves the source plus either a complete copy or none
+      const content = await this.readBinary(oldPath)
+      await this.writeBinary(newPath, content, { atomic: true })
+      await this.deleteFile(oldPath)
+    }
+  }
+
+  /**
+   * Recursively copy a directory tree
+   */
+  private async copyDirectory(src: string, dest: string): Promise<void> {
+    await this.mkdir(dest)
+    const prefix = this.normalizePath(src)
+
+    for (const entry of await this.readdir(src)) {
+      const target = dest + entry.path.slice(prefix.length + 1)
+      if (entry.isDirectory) {
+        await this.copyDirectory(entry.path, target)
+      } else {
+        await this.copyFile(entry.path, target)
+      }
+    }
   }
 
   async copyFile(src: string, dest: string): Promise<void> {
@@ -241,8 +806,7 @@ export class OPFSBackend implements FileSystemBackend {
    * This allows the WASM compiler to read files directly
    */
   async getFileHandle(path: string): Promise<FileSystemFileHandle> {
-    const { parent, name } = await this.getParentAndName(path)
-    return parent.getFileHandle(name)
+    return this.getFileHandleAt(path, 'open')
   }
 
   /**
@@ -319,7 +883,11 @@ export class OPFSBackend implements FileSystemBackend {
         if (dirCache.has(currentPath)) {
           current = dirCache.get(currentPath)!
         } else {
-          current = await current.getDirectoryHandle(part, { create: createParents })
+          try {
+            current = await current.getDirectoryHandle(part, { create: createParents })
+          } catch (e) {
+            throw toFileSystemError(e, '/' + currentPath, 'mkdir', 'ENOTDIR')
+          }
           dirCache.set(currentPath, current)
         }
       }
@@ -338,10 +906,15 @@ export class OPFSBackend implements FileSystemBackend {
         const dirPath = parts.join('/')
 
         const dir = await getOrCreateDir(dirPath)
-        const handle = await dir.getFileHandle(fileName, { create: true })
-        const writable = await handle.createWritable()
-        await writable.write(content)
-        await writable.close()
+        try {
+          const handle = await dir.getFileHandle(fileName, { create: true })
+          const writable = await handle.createWritable()
+          await writable.write(content)
+          await writable.close()
+        } catch (e) {
+          throw toFileSystemError(e, path, 'write', 'EISDIR')
+        }
+        await this.removeHashSidecar(path)
         completed++
       }))
 
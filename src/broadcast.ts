@@ -0,0 +1,61 @@
+/**
+ * Cross-context event bridge
+ *
+ * Publishes FileSystemService events on a BroadcastChannel and re-emits the
+ * events other tabs and workers of the same origin publish, so subscribers
+ * see changes made anywhere.
+ */
+
+import type { FileSystemEvent, FileSystemEventHandler } from './types.js'
+import { EVENTS_CHANNEL } from './constants.js'
+
+export interface BroadcastOptions {
+  /** Channel name; contexts only hear each other on the same channel (default: EVENTS_CHANNEL) */
+  channel?: string
+  /** Id of this context, set as `origin` on events it publishes (default: random) */
+  contextId?: string
+}
+
+/**
+ * Message posted on the channel
+ * Exported so non-module workers can publish events in the same format
+ */
+export interface BroadcastMessage {
+  origin: string
+  event: FileSystemEvent
+}
+
+/**
+ * Connect a service's events to a BroadcastChannel
+ *
+ * Local events are published; received events are re-emitted with their
+ * `origin` set. Re-emitted events are never published again and messages
+ * carrying our own id are ignored, so events can't loop between contexts.
+ *
+ * @returns Function that disconnects the bridge
+ */
+export function createBroadcastBridge(
+  subscribe: (handler: FileSystemEventHandler) => () => void,
+  emit: (event: FileSystemEvent) => void,
+  options: BroadcastOptions = {}
+): () => void {
+  const contextId = options.contextId ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+  const channel = new BroadcastChannel(options.channel ?? EVENTS_CHANNEL)
+
+  const unsubscribe = subscribe((event) => {
+    if (event.origin !== undefined) return
+    const message: BroadcastMessage = { origin: contextId, event }
+    channel.postMessage(message)
+  })
+
+  channel.onmessage = (message: MessageEvent<BroadcastMessage>) => {
+    const { origin, event } = message.data ?? {}
+    if (!event || !origin || origin === contextId) return
+    emit({ ...event, origin })
+  }
+
+  return () => {
+    unsubscribe()
+    channel.close()
+  }
+}
@@ -0,0 +1,142 @@
+/**
+ * Size limits for cache mounts
+ *
+ * Tracks the files of a mount in least-recently-used order and deletes the
+ * oldest unpinned ones when a write would exceed the mount's limits.
+ * Access times live in memory; after a reload, files count as last used
+ * when they were last modified.
+ */
+
+import type { CacheOptions } from './types.js'
+import { FileSystemError } from './errors.js'
+import { createGlobMatcher } from './glob.js'
+
+export class MountCache {
+  /** Size of each tracked file, least recently used first */
+  private files = new Map<string, number>()
+  private bytes = 0
+  private loaded: Promise<void> | null = null
+  private isPinned: (path: string) => boolean
+
+  /**
+   * @param scan - Lists the mount's files; runs once, before the first write
+   * @param evict - Deletes a file chosen for eviction
+   */
+  constructor(
+    private options: CacheOptions,
+    private scan: () => Promise<Array<{ path: string; size: number; mtime: Date }>>,
+    private evict: (path: string) => Promise<void>
+  ) {
+    const matches = options.pinned ? createGlobMatcher(options.pinned, { dot: true }) : null
+    this.isPinned = path => matches !== null && matches(path.slice(1))
+  }
+
+  /** Total size and count of the tracked files */
+  get usage(): { bytes: number; files: number } {
+    return { bytes: this.bytes, files: this.files.size }
+  }
+
+  private load(): Promise<void> {
+    this.loaded ??= this.scan()
+      .then((files) => {
+        files.sort((a, b) => a.mtime.getTime() - b.mtime.getTime())
+        for (const file of files) {
+          // Changes recorded while the scan ran are newer
+          if (!this.files.has(file.path)) this.set(file.path, file.size)
+        }
+      })
+      .catch(() => {})
+    return this.loaded
+  }
+
+  /** Mark a file as just used */
+  touch(path: string): void {
+    const size = this.files.get(path)
+    if (size !== undefined) {
+      this.files.delete(path)
+      this.files.set(path, size)
+    }
+  }
+
+  /**
+   * Make room for writing `size` bytes to `path`, evicting as needed
+   * Fails with ENOSPC, evicting nothing, if pinned files leave too little room
+   */
+  async reserve(path: string, size: number): Promise<void> {
+    await this.load()
+    const previous = this.files.get(path)
+    this.set(path, size)
+
+    const victims = this.selectVictims(path)
+    if (!victims) {
+      if (previous === undefined) {
+        this.forget(path)
+      } else {
+        this.set(path, previous)
+      }
+      throw new FileSystemError('ENOSPC', path, 'write')
+    }
+    await this.evictAll(victims)
+  }
+
+  /**
+   * Record the size of a file after it changed
+   * Evicts what it can if the mount is now over its limits.
+   */
+  async record(path: string, size: number): Promise<void> {
+    await this.load()
+    this.set(path, size)
+    await this.evictAll(this.selectVictims(path, true) ?? [])
+  }
+
+  /** Stop tracking a file, or every file below a directory */
+  forget(path: string): void {
+    const prefix = path === '/' ? '/' : path + '/'
+    for (const [filePath, size] of this.files) {
+      if (filePath === path || filePath.startsWith(prefix)) {
+        this.files.delete(filePath)
+        this.bytes -= size
+      }
+    }
+  }
+
+  private set(path: string, size: number): void {
+    this.bytes += size - (this.files.get(path) ?? 0)
+    this.files.delete(path)
+    this.files.set(path, size)
+  }
+
+  /**
+   * Least recently used files whose removal brings the mount within its limits
+   * Returns null if that's impossible, or with `partial` what can be evicted.
+   */
+  private selectVictims(keep: string, partial = false): string[] | null {
+    const { maxBytes = Infinity, maxFiles = Infinity } = this.options
+    let bytes = this.bytes
+    let count = this.files.size
+    const victims: string[] = []
+
+    for (const [path, size] of this.files) {
+      if (bytes <= maxBytes && count <= maxFiles) break
+      if (path === keep || this.isPinned(path)) continue
+      victims.push(path)
+      bytes -= size
+      count--
+    }
+
+    if (bytes > maxBytes || count > maxFiles) {
+      return partial ? victims : null
+    }
+    return victims
+  }
+
+  private async evictAll(victims: string[]): Promise<void> {
+    // Drop from the tracker first so concurrent writes don't pick them again
+    for (const path of victims) {
+      this.forget(path)
+    }
+    for (const path of victims) {
+      await this.evict(path).catch(() => {})
+    }
+  }
+}
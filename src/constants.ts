@@ -8,10 +8,27 @@
 
 // IndexedDB constants
 export const IDB_NAME = 'siglum_filesystem'
-export const IDB_VERSION = 1
+export const IDB_VERSION = 3
 export const IDB_FILES_STORE = 'files'
 export const IDB_DIRS_STORE = 'directories'
+export const IDB_CHUNKS_STORE = 'chunks'
+// Reference counts of content-addressed blobs (deduplicating mode)
+export const IDB_BLOBS_STORE = 'blobs'
+// Files larger than this are split into chunk records
+export const IDB_CHUNK_SIZE = 1024 * 1024
+
+// BroadcastChannel used to share events between tabs and workers
+export const EVENTS_CHANNEL = 'siglum_filesystem_events'
 
 // OPFS root path constants
 // These are the paths used by siglum-filesystem in OPFS
 export const OPFS_ROOT = '' // Empty string = navigator.storage.getDirectory()
+// Name prefix of the temp siblings used by atomic writes
+export const OPFS_TEMP_PREFIX = '.siglum-tmp-'
+// Hidden root directory of sidecar metadata, such as cached digests
+export const OPFS_META_DIR = '.siglum-meta'
+
+// Root directory of earlier revisions of files, on mounts with history
+export const HISTORY_DIR = '.siglum-history'
+// Root directory of deleted entries, on mounts with a trash
+export const TRASH_DIR = '.siglum-trash'
@@ -0,0 +1,105 @@
+/**
+ * Filesystem errors
+ *
+ * All backends and the FileSystemService report failures as FileSystemError
+ * with a POSIX-style `code`, so callers can branch on `err.code` instead of
+ * matching message strings or backend-specific DOMException names.
+ */
+
+export type FileSystemErrorCode =
+  | 'ENOENT'
+  | 'EEXIST'
+  | 'ENOTDIR'
+  | 'EISDIR'
+  | 'ENOTEMPTY'
+  | 'EACCES'
+  | 'ENOSPC'
+  | 'EINVAL'
+  | 'EBADF'
+  | 'EIO'
+  | 'EXDEV'
+  | 'ENOMOUNT'
+
+const DESCRIPTIONS: Record<FileSystemErrorCode, string> = {
+  ENOENT: 'no such file or directory',
+  EEXIST: 'file already exists',
+  ENOTDIR: 'not a directory',
+  EISDIR: 'illegal operation on a directory',
+  ENOTEMPTY: 'directory not empty',
+  EACCES: 'permission denied',
+  ENOSPC: 'no space left on device',
+  EINVAL: 'invalid argument',
+  EBADF: 'bad file descriptor',
+  EIO: 'i/o error',
+  EXDEV: 'cross-mount operation not permitted',
+  ENOMOUNT: 'no filesystem mounted'
+}
+
+export class FileSystemError extends Error {
+  readonly name = 'FileSystemError'
+  /** POSIX-style error code */
+  readonly code: FileSystemErrorCode
+  /** Path the failed operation was called with */
+  readonly path?: string
+  /** Name of the failed operation, e.g. 'open', 'rmdir' */
+  readonly syscall?: string
+  /** Underlying error (DOMException, IDB request error) if any */
+  readonly cause?: unknown
+
+  constructor(code: FileSystemErrorCode, path?: string, syscall?: string, cause?: unknown) {
+    let message = `${code}: ${DESCRIPTIONS[code]}`
+    if (syscall) message += `, ${syscall}`
+    if (path !== undefined) message += ` '${path}'`
+    super(message)
+
+    this.code = code
+    this.path = path
+    this.syscall = syscall
+    this.cause = cause
+  }
+}
+
+/**
+ * Check if an error is a FileSystemError, optionally with a specific code
+ */
+export function isFileSystemError(error: unknown, code?: FileSystemErrorCode): error is FileSystemError {
+  return error instanceof FileSystemError && (code === undefined || error.code === code)
+}
+
+/**
+ * Map a native storage error to a FileSystemError
+ *
+ * Understands the DOMException names thrown by OPFS and IndexedDB.
+ * FileSystemErrors pass through unchanged; unknown errors are returned as-is.
+ *
+ * @param typeMismatch - Code for TypeMismatchError, which OPFS throws both when
+ *   a file is found where a directory was expected and vice versa
+ */
+export function toFileSystemError(
+  error: unknown,
+  path: string,
+  syscall: string,
+  typeMismatch: 'ENOTDIR' | 'EISDIR' = 'ENOTDIR'
+): unknown {
+  if (error instanceof FileSystemError) {
+    return error
+  }
+
+  const name = (error as { name?: unknown } | null)?.name
+  switch (name) {
+    case 'NotFoundError':
+      return new FileSystemError('ENOENT', path, syscall, error)
+    case 'TypeMismatchError':
+      return new FileSystemError(typeMismatch, path, syscall, error)
+    case 'InvalidModificationError':
+      return new FileSystemError('ENOTEMPTY', path, syscall, error)
+    case 'NoModificationAllowedError':
+    case 'NotAllowedError':
+    case 'SecurityError':
+      return new FileSystemError('EACCES', path, syscall, error)
+    case 'QuotaExceededError':
+      return new FileSystemError('ENOSPC', path, syscall, error)
+    default:
+      return error
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Glob pattern matching
+ *
+ * Supports `**` (any number of path segments), `*`, `?`, `[...]` classes,
+ * `{a,b}` braces (nestable) and `!` negation. Patterns match slash-separated
+ * paths relative to a base directory, without a leading slash.
+ */
+
+export interface GlobMatchOptions {
+  /** Let wildcards match names starting with a dot (default: false) */
+  dot?: boolean
+}
+
+/**
+ * Build a predicate for a set of patterns
+ * A path matches if it matches any positive pattern (or there are none) and
+ * no negated (`!`-prefixed) pattern.
+ */
+export function createGlobMatcher(
+  patterns: string | string[],
+  options: GlobMatchOptions = {}
+): (path: string) => boolean {
+  const list = typeof patterns === 'string' ? [patterns] : patterns
+  const include: RegExp[] = []
+  const exclude: RegExp[] = []
+
+  for (const pattern of list) {
+    if (pattern.startsWith('!')) {
+      exclude.push(globToRegExp(pattern.slice(1), options))
+    } else {
+      include.push(globToRegExp(pattern, options))
+    }
+  }
+
+  return (path: string) =>
+    (include.length === 0 || include.some(re => re.test(path))) &&
+    !exclude.some(re => re.test(path))
+}
+
+/**
+ * Compile a single pattern (without negation) to an anchored RegExp
+ */
+export function globToRegExp(pattern: string, options: GlobMatchOptions = {}): RegExp {
+  const alternatives = expandBraces(stripSlashes(pattern)).map(p => compilePattern(p, options.dot ?? false))
+  return new RegExp(`^(?:${alternatives.join('|')})$`)
+}
+
+/**
+ * Literal directory prefix of a pattern, before its first wildcard segment
+ * e.g. 'src/lib/**\/*.ts' -> 'src/lib'
+ */
+export function getGlobBase(pattern: string): string {
+  const base: string[] = []
+  for (const segment of stripSlashes(pattern).split('/').slice(0, -1)) {
+    if (/[*?[\]{}!]/.test(segment)) break
+    base.push(segment)
+  }
+  return base.join('/')
+}
+
+function stripSlashes(pattern: string): string {
+  return pattern.replace(/\/+/g, '/').replace(/^\.?\//, '').replace(/\/$/, '')
+}
+
+/** Expand `{a,b}` alternatives, innermost-first, into separate patterns */
+function expandBraces(pattern: string): string[] {
+  const close = pattern.indexOf('}')
+  const open = pattern.lastIndexOf('{', close)
+  if (close === -1 || open === -1) {
+    return [pattern]
+  }
+
+  const prefix = pattern.slice(0, open)
+  const suffix = pattern.slice(close + 1)
+  return pattern
+    .slice(open + 1, close)
+    .split(',')
+    .flatMap(option => expandBraces(prefix + option + suffix))
+}
+
+function compilePattern(pattern: string, dot: boolean): string {
+  const name = dot ? '[^/]+' : '(?!\\.)[^/]+'
+  const segments = pattern.split('/')
+  let source = ''
+  let afterGlobstar = false
+
+  segments.forEach((segment, i) => {
+    const first = i === 0
+    const last = i === segments.length - 1
+
+    if (segment === '**') {
+      // Zero or more whole segments
+      if (last) {
+        source += first ? `(?:${name}(?:/${name})*)?` : `(?:/${name})*`
+      } else {
+        source += first ? `(?:${name}/)*` : `/(?:${name}/)*`
+        afterGlobstar = true
+      }
+      return
+    }
+
+    if (!first && !afterGlobstar) {
+      source += '/'
+    }
+    afterGlobstar = false
+    source += compileSegment(segment, dot)
+  })
+
+  return source
+}
+
+function compileSegment(segment: string, dot: boolean): string {
+  // Wildcards don't match a leading dot unless the pattern spells it out
+  let source = dot || segment.startsWith('.') ? '' : '(?!\\.)'
+
+  for (let i = 0; i < segment.length; i++) {
+    const char = segment[i]
+    if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else if (char === '[' && segment.indexOf(']', i + 2) !== -1) {
+      const end = segment.indexOf(']', i + 2)
+      let body = segment.slice(i + 1, end)
+      if (body.startsWith('!')) body = '^/' + body.slice(1)
+      source += `[${body.replace(/\\/g, '\\\\')}]`
+      i = end
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+
+  return source
+}
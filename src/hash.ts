@@ -0,0 +1,15 @@
+/**
+ * Content digests via WebCrypto
+ */
+
+import type { HashAlgorithm } from './types.js'
+
+/** Hex-encoded digest of some bytes */
+export async function digest(data: Uint8Array, algorithm: HashAlgorithm): Promise<string> {
+  const hash = new Uint8Array(await crypto.subtle.digest(algorithm, data))
+  let hex = ''
+  for (const byte of hash) {
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
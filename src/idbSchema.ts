@@ -0,0 +1,70 @@
+/**
+ * IndexedDB schema migrations
+ *
+ * Each step brings a database up to its version. Opening a database older
+ * than IDB_VERSION runs the steps above its version in order, inside
+ * onupgradeneeded, so a failing step aborts the whole upgrade and leaves
+ * the database as it was. The worker keeps a copy of these steps in
+ * worker.ts; change both together. The tests upgrade a v1 database
+ * through each of them.
+ */
+
+import {
+  IDB_FILES_STORE,
+  IDB_DIRS_STORE,
+  IDB_CHUNKS_STORE,
+  IDB_BLOBS_STORE
+} from './constants.js'
+
+export interface IDBMigration {
+  version: number
+  /**
+   * Runs within the versionchange transaction, which covers every store,
+   * so steps can also rewrite existing records through it
+   */
+  migrate(db: IDBDatabase, transaction: IDBTransaction): void
+}
+
+/** Steps in ascending version order; the last one is IDB_VERSION */
+export const IDB_MIGRATIONS: readonly IDBMigration[] = [
+  {
+    // Files and directories, keyed by path
+    version: 1,
+    migrate(db) {
+      const files = db.createObjectStore(IDB_FILES_STORE, { keyPath: 'path' })
+      files.createIndex('mtime', 'mtime', { unique: false })
+      db.createObjectStore(IDB_DIRS_STORE, { keyPath: 'path' })
+    }
+  },
+  {
+    // Chunks of large files, keyed by [chunk id, index]
+    version: 2,
+    migrate(db) {
+      db.createObjectStore(IDB_CHUNKS_STORE, { keyPath: ['id', 'index'] })
+    }
+  },
+  {
+    // Reference counts of deduplicated blobs, keyed by chunk id
+    version: 3,
+    migrate(db) {
+      db.createObjectStore(IDB_BLOBS_STORE, { keyPath: 'id' })
+    }
+  }
+]
+
+/**
+ * Run the steps a database at `oldVersion` is missing
+ * Call from onupgradeneeded with the open request's transaction.
+ */
+export function upgradeDatabase(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  migrations: readonly IDBMigration[] = IDB_MIGRATIONS
+): void {
+  for (const step of migrations) {
+    if (step.version > oldVersion) {
+      step.migrate(db, transaction)
+    }
+  }
+}
@@ -6,6 +6,7 @@
  * Provides a single interface for file operations across different backends:
  * - OPFS (Origin Private File System) - primary storage, fast and persistent
  * - IndexedDB (fallback for browsers without OPFS)
+ * - Memory (scratch mounts, SSR and tests - nothing is persisted)
  *
  * ## Auto-mounting with fallback
  *
@@ -30,6 +31,7 @@
  * // Or force a specific backend with mountAuto
  * await fileSystem.mountAuto('/documents', { backend: 'opfs' })
  * await fileSystem.mountAuto('/legacy', { backend: 'indexeddb' })
+ * await fileSystem.mountAuto('/tmp', { backend: 'memory' })
  * ```
  *
  * ## Check OPFS availability
@@ -52,28 +54,68 @@
 export type {
   FileStats,
   FileEntry,
+  TreeEntry,
+  WalkEntry,
   FileSystemBackend,
   FileSystemEvent,
   FileSystemEventHandler,
   WriteOptions,
   WriteBinaryBatchEntry,
-  WriteBinaryBatchOptions
+  WriteBinaryBatchOptions,
+  CopyOptions,
+  MigrateOptions,
+  MigrationVerification,
+  ExportZipOptions,
+  ImportZipOptions,
+  ZipCompression,
+  ImportTarOptions,
+  TarEntry,
+  ReadStreamOptions,
+  OpenFlags,
+  TransactionOperation,
+  WatchOptions,
+  MountConfig,
+  ExternalChangeOptions,
+  GlobOptions,
+  WalkOptions,
+  DiskUsage,
+  StorageInfo,
+  CacheOptions,
+  HistoryOptions,
+  Revision,
+  TrashOptions,
+  TrashEntry,
+  HashAlgorithm
 } from './types.js'
 
 export type { BackendPreference, MountOptions } from './FileSystemService.js'
+export type { IndexedDBBackendOptions } from './IndexedDBBackend.js'
+
+export type { FileHandleReadResult, FileHandleWriteResult } from './FileHandle.js'
+
+// Errors
+export type { FileSystemErrorCode } from './errors.js'
+export { FileSystemError, isFileSystemError } from './errors.js'
 
 // Service and helpers
 export {
   fileSystem,
   FileSystemService,
   isOPFSAvailable,
+  isIndexedDBAvailable,
   getBestBackend,
   getBackend
 } from './FileSystemService.js'
+export { FileHandle } from './FileHandle.js'
+export { FileSystemTransaction } from './FileSystemTransaction.js'
+export { FileSystemWatcher } from './watch.js'
+export type { WatchListener } from './watch.js'
+export type { BroadcastOptions, BroadcastMessage } from './broadcast.js'
 
 // Backends
 export { OPFSBackend, opfsBackend } from './OPFSBackend.js'
 export { IndexedDBBackend, indexedDBBackend } from './IndexedDBBackend.js'
+export { MemoryBackend, memoryBackend } from './MemoryBackend.js'
 
 // Storage constants (for direct access in workers)
 export {
@@ -81,5 +123,13 @@ export {
   IDB_VERSION,
   IDB_FILES_STORE,
   IDB_DIRS_STORE,
-  OPFS_ROOT
+  IDB_CHUNKS_STORE,
+  IDB_BLOBS_STORE,
+  IDB_CHUNK_SIZE,
+  OPFS_ROOT,
+  OPFS_TEMP_PREFIX,
+  OPFS_META_DIR,
+  HISTORY_DIR,
+  TRASH_DIR,
+  EVENTS_CHANNEL
 } from './constants.js'
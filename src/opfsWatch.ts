@@ -0,0 +1,207 @@
+/**
+ * Change detection for OPFS
+ *
+ * Uses FileSystemObserver where the browser has it, otherwise periodically
+ * scans the tree and diffs sizes and mtimes. Either way, changes are
+ * reported as ordinary FileSystemEvents with paths relative to the root.
+ */
+
+import type { ExternalChangeOptions, FileSystemEvent } from './types.js'
+import { HISTORY_DIR, OPFS_META_DIR, OPFS_TEMP_PREFIX, TRASH_DIR } from './constants.js'
+
+export const DEFAULT_POLL_INTERVAL = 2000
+
+interface EntrySnapshot {
+  isDirectory: boolean
+  size: number
+  mtime: number
+}
+
+interface FileSystemChangeRecord {
+  type: 'appeared' | 'disappeared' | 'modified' | 'moved' | 'unknown' | 'errored'
+  changedHandle: FileSystemHandle | null
+  relativePathComponents: string[]
+  relativePathMovedFrom?: string[] | null
+}
+
+interface FileSystemObserverLike {
+  observe(handle: FileSystemHandle, options?: { recursive?: boolean }): Promise<void>
+  disconnect(): void
+}
+
+type FileSystemObserverConstructor = new (
+  callback: (records: FileSystemChangeRecord[]) => void
+) => FileSystemObserverLike
+
+/** Temp files of atomic writes, sidecar metadata and Chromium's .crswap files aren't real changes */
+function isInternalName(name: string): boolean {
+  return name.startsWith(OPFS_TEMP_PREFIX) || name.endsWith('.crswap') || name === OPFS_META_DIR || name === HISTORY_DIR || name === TRASH_DIR
+}
+
+/**
+ * Watch a directory tree for changes
+ *
+ * @returns Function that stops watching
+ */
+export function watchDirectory(
+  getRoot: () => Promise<FileSystemDirectoryHandle>,
+  onChange: (event: FileSystemEvent) => void,
+  options: ExternalChangeOptions = {}
+): () => void {
+  const Observer = (globalThis as { FileSystemObserver?: FileSystemObserverConstructor }).FileSystemObserver
+  let stopped = false
+  let stop = () => {}
+
+  const startPolling = () => {
+    if (stopped) return
+    stop = pollDirectory(getRoot, onChange, options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL)
+  }
+
+  if (Observer && !options.forcePolling) {
+    const observer = new Observer((records) => {
+      for (const record of records) {
+        if (record.type === 'errored') {
+          // The observation broke down; keep going by scanning instead
+          observer.disconnect()
+          startPolling()
+          return
+        }
+        for (const event of recordToEvents(record)) {
+          onChange(event)
+        }
+      }
+    })
+    stop = () => observer.disconnect()
+
+    getRoot()
+      .then(root => observer.observe(root, { recursive: true }))
+      .catch(() => {
+        observer.disconnect()
+        startPolling()
+      })
+  } else {
+    startPolling()
+  }
+
+  return () => {
+    stopped = true
+    stop()
+  }
+}
+
+function recordToEvents(record: FileSystemChangeRecord): FileSystemEvent[] {
+  const path = '/' + record.relativePathComponents.join('/')
+  const name = record.relativePathComponents[record.relativePathComponents.length - 1] ?? ''
+  if (isInternalName(name) || isInternalName(record.relativePathComponents[0] ?? '')) return []
+
+  const isDirectory = record.changedHandle?.kind === 'directory'
+  switch (record.type) {
+    case 'appeared':
+      return [{ type: isDirectory ? 'directory:created' : 'file:created', path }]
+    case 'disappeared':
+      return [{ type: isDirectory ? 'directory:deleted' : 'file:deleted', path }]
+    case 'modified':
+      return isDirectory ? [] : [{ type: 'file:modified', path }]
+    case 'moved': {
+      const from = '/' + (record.relativePathMovedFrom ?? []).join('/')
+      return [
+        { type: isDirectory ? 'directory:deleted' : 'file:deleted', path: from },
+        { type: isDirectory ? 'directory:created' : 'file:created', path }
+      ]
+    }
+    default:
+      // 'unknown' records carry no usable path
+      return []
+  }
+}
+
+/**
+ * Poll a directory tree, diffing each scan against the previous one
+ * The first scan only records the baseline.
+ */
+function pollDirectory(
+  getRoot: () => Promise<FileSystemDirectoryHandle>,
+  onChange: (event: FileSystemEvent) => void,
+  intervalMs: number
+): () => void {
+  let previous: Map<string, EntrySnapshot> | null = null
+  let timer: ReturnType<typeof setTimeout> | null = null
+  let stopped = false
+
+  const tick = async () => {
+    try {
+      const current = await scanTree(await getRoot())
+      if (previous && !stopped) {
+        for (const event of diffSnapshots(previous, current)) {
+          onChange(event)
+        }
+      }
+      previous = current
+    } catch {
+      // Entries can vanish mid-scan; the next scan catches up
+    }
+    if (!stopped) {
+      timer = setTimeout(tick, intervalMs)
+    }
+  }
+
+  tick()
+
+  return () => {
+    stopped = true
+    if (timer !== null) clearTimeout(timer)
+  }
+}
+
+async function scanTree(root: FileSystemDirectoryHandle): Promise<Map<string, EntrySnapshot>> {
+  const snapshot = new Map<string, EntrySnapshot>()
+
+  const visit = async (dir: FileSystemDirectoryHandle, prefix: string) => {
+    const dirAsIterable = dir as unknown as AsyncIterable<[string, FileSystemHandle]>
+    for await (const [name, handle] of dirAsIterable) {
+      if (isInternalName(name)) continue
+      const path = prefix + name
+      if (handle.kind === 'directory') {
+        snapshot.set(path, { isDirectory: true, size: 0, mtime: 0 })
+        await visit(handle as FileSystemDirectoryHandle, path + '/')
+      } else {
+        const file = await (handle as FileSystemFileHandle).getFile()
+        snapshot.set(path, { isDirectory: false, size: file.size, mtime: file.lastModified })
+      }
+    }
+  }
+
+  await visit(root, '/')
+  return snapshot
+}
+
+/**
+ * Events turning one snapshot into the next
+ * Deletions come first (deepest paths first), then creations and changes
+ */
+export function diffSnapshots(
+  previous: Map<string, EntrySnapshot>,
+  current: Map<string, EntrySnapshot>
+): FileSystemEvent[] {
+  const deleted: FileSystemEvent[] = []
+  const changed: FileSystemEvent[] = []
+
+  for (const [path, before] of previous) {
+    const after = current.get(path)
+    if (!after || after.isDirectory !== before.isDirectory) {
+      deleted.push({ type: before.isDirectory ? 'directory:deleted' : 'file:deleted', path })
+    }
+  }
+
+  for (const [path, after] of current) {
+    const before = previous.get(path)
+    if (!before || before.isDirectory !== after.isDirectory) {
+      changed.push({ type: after.isDirectory ? 'directory:created' : 'file:created', path })
+    } else if (!after.isDirectory && (after.size !== before.size || after.mtime !== before.mtime)) {
+      changed.push({ type: 'file:modified', path })
+    }
+  }
+
+  deleted.sort((a, b) => b.path.length - a.path.length)
+  return [...deleted, ...changed]
+}
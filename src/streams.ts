@@ -0,0 +1,119 @@
+/**
+ * Stream helpers shared by the backends
+ */
+
+import type { ReadStreamOptions } from './types.js'
+import { FileSystemError } from './errors.js'
+
+/** Default chunk size for read streams */
+export const DEFAULT_HIGH_WATER_MARK = 64 * 1024
+
+/**
+ * Resolve read stream options against a file size
+ * Returns a clamped [start, end) byte range
+ */
+export function resolveRange(
+  size: number,
+  options: ReadStreamOptions,
+  path: string
+): { start: number; end: number } {
+  const start = options.start ?? 0
+  const end = Math.min(options.end ?? size, size)
+
+  if (start < 0 || end < 0 || (options.end !== undefined && options.end < start)) {
+    throw new FileSystemError('EINVAL', path, 'read')
+  }
+  if (options.highWaterMark !== undefined && options.highWaterMark <= 0) {
+    throw new FileSystemError('EINVAL', path, 'read')
+  }
+
+  return { start: Math.min(start, end), end }
+}
+
+/**
+ * Create a pull-based stream over a byte range
+ * Each pull reads at most `chunkSize` bytes via `readRange`
+ */
+export function createRangeStream(
+  readRange: (start: number, end: number) => Promise<Uint8Array>,
+  start: number,
+  end: number,
+  chunkSize = DEFAULT_HIGH_WATER_MARK
+): ReadableStream<Uint8Array> {
+  let position = start
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (position >= end) {
+        controller.close()
+        return
+      }
+
+      const chunk = await readRange(position, Math.min(position + chunkSize, end))
+      if (chunk.length === 0) {
+        // File shrank underneath us
+        controller.close()
+        return
+      }
+
+      position += chunk.length
+      controller.enqueue(chunk)
+    }
+  })
+}
+
+/**
+ * Split chunks larger than `maxSize` so consumers see bounded chunks
+ */
+export function limitChunkSize(
+  stream: ReadableStream<Uint8Array>,
+  maxSize = DEFAULT_HIGH_WATER_MARK
+): ReadableStream<Uint8Array> {
+  return stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      for (let offset = 0; offset < chunk.length; offset += maxSize) {
+        controller.enqueue(chunk.subarray(offset, offset + maxSize))
+      }
+    }
+  }))
+}
+
+/**
+ * Create a write stream that collects chunks in memory and hands the
+ * complete content to `commit` when the stream is closed
+ * Aborting the stream discards everything written so far
+ */
+export function createBufferedWriteStream(
+  commit: (content: Uint8Array) => Promise<void>
+): WritableStream<Uint8Array> {
+  let chunks: Uint8Array[] = []
+  let size = 0
+
+  return new WritableStream<Uint8Array>({
+    write(chunk) {
+      // Copy, since callers may reuse their buffers
+      chunks.push(chunk.slice())
+      size += chunk.length
+    },
+    async close() {
+      await commit(concatChunks(chunks, size))
+      chunks = []
+    },
+    abort() {
+      chunks = []
+    }
+  })
+}
+
+/**
+ * Concatenate chunks into a single buffer
+ */
+export function concatChunks(chunks: Uint8Array[], size = chunks.reduce((sum, c) => sum + c.length, 0)): Uint8Array {
+  const result = new Uint8Array(size)
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.length
+  }
+  return result
+}
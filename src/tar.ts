@@ -0,0 +1,270 @@
+/**
+ * Streaming tar reader
+ *
+ * Parses ustar archives incrementally, including the GNU long name and
+ * pax extended headers that tools use for long paths and large files.
+ * Only the current entry's contents are ever buffered.
+ */
+
+import type { TarEntry } from './types.js'
+import { FileSystemError } from './errors.js'
+
+const BLOCK_SIZE = 512
+
+/** An entry being read; its contents are skipped unless read() is called */
+export interface TarArchiveEntry extends TarEntry {
+  /** Target of a link entry, as stored in the archive */
+  linkName: string
+  read(): Promise<Uint8Array>
+}
+
+/**
+ * Reads exact byte counts from a stream, buffering as little as possible
+ */
+class ByteReader {
+  private chunks: Uint8Array[] = []
+  private buffered = 0
+
+  constructor(private reader: ReadableStreamDefaultReader<Uint8Array>) {}
+
+  /** Buffer at least `length` bytes; false if the stream ends first */
+  private async fill(length: number): Promise<boolean> {
+    while (this.buffered < length) {
+      const { value, done } = await this.reader.read()
+      if (done) return false
+      if (value.length > 0) {
+        this.chunks.push(value)
+        this.buffered += value.length
+      }
+    }
+    return true
+  }
+
+  /** The next `length` bytes, or null at the end of the stream */
+  async read(length: number): Promise<Uint8Array | null> {
+    if (!(await this.fill(length))) {
+      return null
+    }
+
+    const result = new Uint8Array(length)
+    let offset = 0
+    while (offset < length) {
+      const chunk = this.chunks[0]
+      const count = Math.min(chunk.length, length - offset)
+      result.set(chunk.subarray(0, count), offset)
+      offset += count
+      if (count === chunk.length) {
+        this.chunks.shift()
+      } else {
+        this.chunks[0] = chunk.subarray(count)
+      }
+    }
+    this.buffered -= length
+    return result
+  }
+
+  /** Discard `length` bytes without buffering them all */
+  async skip(length: number): Promise<boolean> {
+    while (length > 0) {
+      const count = Math.min(length, 1024 * 1024)
+      if (!(await this.read(count))) return false
+      length -= count
+    }
+    return true
+  }
+
+  async cancel(): Promise<void> {
+    await this.reader.cancel()
+  }
+}
+
+/** NUL-terminated string field of a header */
+function readString(block: Uint8Array, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length)
+  const end = field.indexOf(0)
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end))
+}
+
+/** Numeric header field: octal text, or base-256 if the high bit is set */
+function readNumber(block: Uint8Array, offset: number, length: number): number {
+  if (block[offset] & 0x80) {
+    let value = block[offset] & 0x7f
+    for (let i = 1; i < length; i++) {
+      value = value * 256 + block[offset + i]
+    }
+    return value
+  }
+  const text = readString(block, offset, length).trim()
+  return text ? parseInt(text, 8) : 0
+}
+
+/** Bytes filling up the last block of an entry's contents */
+function paddingOf(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE
+}
+
+function isValidChecksum(block: Uint8Array): boolean {
+  let sum = 0
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    // The checksum field itself counts as spaces
+    sum += i >= 148 && i < 156 ? 0x20 : block[i]
+  }
+  return sum === readNumber(block, 148, 8)
+}
+
+/** Records of a pax extended header, e.g. `path` and `mtime` */
+function parsePax(data: Uint8Array): Map<string, string> {
+  const records = new Map<string, string>()
+  const text = new TextDecoder().decode(data)
+  let position = 0
+  while (position < text.length) {
+    const space = text.indexOf(' ', position)
+    const length = parseInt(text.slice(position, space), 10)
+    if (space === -1 || !(length > 0)) break
+    // Lengths count bytes; records are almost always ASCII
+    const record = text.slice(space + 1, position + length - 1)
+    const equals = record.indexOf('=')
+    if (equals !== -1) {
+      records.set(record.slice(0, equals), record.slice(equals + 1))
+    }
+    position += length
+  }
+  return records
+}
+
+function entryType(flag: string): TarArchiveEntry['type'] {
+  switch (flag) {
+    case '0':
+    case '\0':
+    case '':
+    case '7':
+      return 'file'
+    case '5':
+      return 'directory'
+    case '1':
+      return 'hardlink'
+    case '2':
+      return 'symlink'
+    default:
+      return 'other'
+  }
+}
+
+/**
+ * Iterate over the entries of a tar stream
+ * An entry's contents must be read before moving on to the next one;
+ * unread contents are skipped. Fails with EINVAL on corrupt or truncated
+ * archives.
+ */
+export async function* readTar(stream: ReadableStream<Uint8Array>): AsyncGenerator<TarArchiveEntry, void, undefined> {
+  const input = new ByteReader(stream.getReader())
+  const truncated = () => new FileSystemError('EINVAL', undefined, 'untar')
+  // Overrides from pax and GNU headers, for the next entry
+  let pending = new Map<string, string>()
+
+  try {
+    while (true) {
+      const block = await input.read(BLOCK_SIZE)
+      // End of archive: a zero block, or a stream ending without one
+      if (!block || block.every(byte => byte === 0)) {
+        return
+      }
+      if (!isValidChecksum(block)) {
+        throw new FileSystemError('EINVAL', undefined, 'untar')
+      }
+
+      const flag = String.fromCharCode(block[156]).replace('\0', '')
+
+      // Metadata entries describing the next entry; global pax headers are ignored
+      if (flag === 'x' || flag === 'g' || flag === 'L' || flag === 'K') {
+        const size = readNumber(block, 124, 12)
+        const data = await input.read(size + paddingOf(size))
+        if (!data) throw truncated()
+        const content = data.subarray(0, size)
+        if (flag === 'x') {
+          pending = new Map([...pending, ...parsePax(content)])
+        } else if (flag === 'L') {
+          pending.set('path', readString(content, 0, size))
+        } else if (flag === 'K') {
+          pending.set('linkpath', readString(content, 0, size))
+        }
+        continue
+      }
+
+      let path = pending.get('path') ?? readString(block, 0, 100)
+      if (!pending.has('path') && readString(block, 257, 5) === 'ustar') {
+        const prefix = readString(block, 345, 155)
+        if (prefix) path = prefix + '/' + path
+      }
+      const mtime = pending.has('mtime') ? Number(pending.get('mtime')) : readNumber(block, 136, 12)
+      const linkName = pending.get('linkpath') ?? readString(block, 157, 100)
+      const size = pending.has('size') ? Number(pending.get('size')) : readNumber(block, 124, 12)
+      const padding = paddingOf(size)
+      pending = new Map()
+
+      let consumed = false
+      const type = entryType(flag)
+      yield {
+        path,
+        type: type === 'file' && path.endsWith('/') ? 'directory' : type,
+        size,
+        mode: readNumber(block, 100, 8) & 0o7777,
+        mtime: new Date(mtime * 1000),
+        linkName,
+        read: async () => {
+          if (consumed) {
+            throw new FileSystemError('EINVAL', path, 'untar')
+          }
+          consumed = true
+          const data = await input.read(size + padding)
+          if (!data) throw truncated()
+          return data.subarray(0, size)
+        }
+      }
+
+      if (!consumed) {
+        consumed = true
+        if (!(await input.skip(size + padding))) throw truncated()
+      }
+    }
+  } finally {
+    await input.cancel().catch(() => {})
+  }
+}
+
+/**
+ * Decompress a tar stream if it's gzipped
+ * Unless `gzip` says so, the first chunk is checked for the gzip magic bytes.
+ */
+export async function gunzipIfNeeded(
+  stream: ReadableStream<Uint8Array>,
+  gzip?: boolean
+): Promise<ReadableStream<Uint8Array>> {
+  const gunzip = (input: ReadableStream<Uint8Array>) => input.pipeThrough(new DecompressionStream('gzip'))
+  if (gzip !== undefined) {
+    return gzip ? gunzip(stream) : stream
+  }
+
+  // Peek at the first chunk, then replay it in front of the rest
+  const reader = stream.getReader()
+  let first: Uint8Array | undefined = (await reader.read()).value
+  const replay = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (first) {
+        controller.enqueue(first)
+        first = undefined
+        return
+      }
+      const { value, done } = await reader.read()
+      if (done) {
+        controller.close()
+      } else {
+        controller.enqueue(value)
+      }
+    },
+    cancel: reason => reader.cancel(reason)
+  })
+
+  const isGzip = first !== undefined && first.length >= 2 && first[0] === 0x1f && first[1] === 0x8b
+  return isGzip ? gunzip(replay) : replay
+}
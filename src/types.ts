@@ -11,6 +11,8 @@ export interface FileStats {
   isDirectory: boolean
   isFile: boolean
   mtime: Date
+  /** Permission bits recorded with the file, e.g. 0o755 (see WriteBinaryBatchEntry.mode) */
+  mode?: number
 }
 
 export interface FileEntry {
@@ -19,6 +21,21 @@ export interface FileEntry {
   isDirectory: boolean
 }
 
+/**
+ * Entry of FileSystemBackend.listTree(); `stats` is set when requested
+ */
+export interface TreeEntry extends FileEntry {
+  stats?: FileStats
+}
+
+/**
+ * Entry yielded by FileSystemService.walk()
+ */
+export interface WalkEntry extends TreeEntry {
+  /** 1 for children of the walked directory, 2 for their children, ... */
+  depth: number
+}
+
 /**
  * Abstract filesystem backend interface
  * Implementations handle the actual storage mechanism
@@ -34,10 +51,10 @@ export interface FileSystemBackend {
   readBinary(path: string): Promise<Uint8Array>
 
   /** Write string content to file */
-  writeFile(path: string, content: string): Promise<void>
+  writeFile(path: string, content: string, options?: Pick<WriteOptions, 'atomic'>): Promise<void>
 
   /** Write binary content to file */
-  writeBinary(path: string, content: Uint8Array): Promise<void>
+  writeBinary(path: string, content: Uint8Array, options?: Pick<WriteOptions, 'atomic'>): Promise<void>
 
   /** Delete a file */
   deleteFile(path: string): Promise<void>
@@ -57,28 +74,97 @@ export interface FileSystemBackend {
   /** List directory contents */
   readdir(path: string): Promise<FileEntry[]>
 
-  /** Rename/move a file or directory */
+  /** Rename/move a file or directory (directories move with all their contents) */
   rename(oldPath: string, newPath: string): Promise<void>
 
   /** Copy a file */
   copyFile(src: string, dest: string): Promise<void>
 
+  /**
+   * List every file and directory below a directory, at any depth (optional)
+   * Lets a backend answer with one scan instead of a readdir per directory.
+   * Directories come before their contents.
+   */
+  listTree?(path: string, options?: { withStats?: boolean }): Promise<TreeEntry[]>
+
+  /**
+   * Hex digest of a file's contents (optional)
+   * Backends keep digests with the file and drop them when it changes.
+   */
+  hash?(path: string, algorithm: HashAlgorithm): Promise<string>
+
+  /** Stream file contents in chunks (optional) */
+  readStream?(path: string, options?: ReadStreamOptions): Promise<ReadableStream<Uint8Array>>
+
+  /**
+   * Open a stream that replaces the file's contents (optional)
+   * Contents become visible when the stream is closed
+   */
+  createWriteStream?(path: string): Promise<WritableStream<Uint8Array>>
+
+  /** Read the bytes in [start, end) of a file (optional) */
+  readRange?(path: string, start: number, end: number): Promise<Uint8Array>
+
+  /**
+   * Write data at a byte offset without rewriting the rest of the file (optional)
+   * Creates the file if needed; a gap past the old end is zero-filled
+   */
+  writeRange?(path: string, position: number, data: Uint8Array): Promise<void>
+
+  /** Shrink or zero-extend a file to `size` bytes (optional) */
+  truncate?(path: string, size: number): Promise<void>
+
+  /**
+   * Apply a batch of writes, deletes and mkdirs all-or-nothing (optional)
+   * Operations are in order with at most one write or delete per path
+   */
+  applyTransaction?(operations: TransactionOperation[]): Promise<void>
+
   /** Batch write binary files with optional progress (optional) */
   writeBinaryBatch?(
     entries: WriteBinaryBatchEntry[],
     options?: WriteBinaryBatchOptions
   ): Promise<void>
+
+  /**
+   * Report changes to the underlying storage, whoever made them (optional)
+   * Paths are relative to the backend root. Returns a function that stops watching.
+   */
+  watchChanges?(
+    onChange: (event: FileSystemEvent) => void,
+    options?: ExternalChangeOptions
+  ): () => void
 }
 
+/**
+ * Digest algorithms for FileSystemService.hash()
+ */
+export type HashAlgorithm = 'SHA-256' | 'SHA-1'
+
+/**
+ * A change recorded by FileSystemService.transaction()
+ */
+export type TransactionOperation =
+  | { type: 'write'; path: string; content: Uint8Array }
+  | { type: 'delete'; path: string }
+  | { type: 'mkdir'; path: string }
+
 /**
  * Events emitted by FileSystemService
  */
-export type FileSystemEvent =
+export type FileSystemEvent = (
   | { type: 'file:created'; path: string }
   | { type: 'file:modified'; path: string }
   | { type: 'file:deleted'; path: string }
   | { type: 'directory:created'; path: string }
   | { type: 'directory:deleted'; path: string }
+  // Deletes and restores on mounts with a trash, of files and directories alike
+  | { type: 'file:trashed'; path: string; id: string; isDirectory: boolean }
+  | { type: 'file:restored'; path: string; id: string; isDirectory: boolean }
+) & {
+  /** Id of the tab or worker the event came from; only set on events received via broadcastEvents() */
+  origin?: string
+}
 
 export type FileSystemEventHandler = (event: FileSystemEvent) => void
 
@@ -90,6 +176,11 @@ export interface WriteOptions {
   createParents?: boolean
   /** Skip emitting change event */
   silent?: boolean
+  /**
+   * Write to a temp sibling and swap it in once verified, so readers never
+   * see a partial file (OPFS; IndexedDB and memory writes are always atomic)
+   */
+  atomic?: boolean
 }
 
 /**
@@ -100,6 +191,16 @@ export interface WriteBinaryBatchEntry {
   path: string
   /** Binary content to write */
   content: Uint8Array
+  /**
+   * Modification time to record instead of the write time.
+   * Ignored by backends that can't set mtimes (OPFS).
+   */
+  mtime?: Date
+  /**
+   * Permission bits to record, reported by stat() and kept when the file
+   * is rewritten. Ignored by backends that can't store them (OPFS).
+   */
+  mode?: number
 }
 
 /**
@@ -115,3 +216,255 @@ export interface WriteBinaryBatchOptions {
   /** Number of files to write in parallel (default: 20) */
   concurrency?: number
 }
+
+/**
+ * Options for recursive copy operations
+ */
+export interface CopyOptions {
+  /** Copy directories with all their contents (required when copying a directory) */
+  recursive?: boolean
+  /** Replace files that already exist at the destination (default: false) */
+  overwrite?: boolean
+  /** Return false to skip an entry; skipping a directory skips its contents */
+  filter?: (entry: FileEntry) => boolean
+  /** Progress callback: (completed, total) files */
+  onProgress?: (completed: number, total: number) => void
+  /** Skip emitting change events */
+  silent?: boolean
+}
+
+/** How migrate() checks copied files: by comparing contents, or their SHA-256 digests */
+export type MigrationVerification = 'bytes' | 'hash'
+
+/**
+ * Options for FileSystemService.migrate()
+ */
+export interface MigrateOptions {
+  /** How copied files are checked before the mount is switched (default: 'hash') */
+  verify?: MigrationVerification
+  /** Delete everything from the source backend once the mount is switched (default: false) */
+  deleteSource?: boolean
+  /** Progress callback: (completed, total) files of the current phase */
+  onProgress?: (completed: number, total: number, phase: 'copy' | 'verify') => void
+}
+
+/** How exportZip() stores files: deflated, or as they are */
+export type ZipCompression = 'deflate' | 'store'
+
+/**
+ * Options for FileSystemService.exportZip()
+ */
+export interface ExportZipOptions {
+  /** Return false to leave an entry out; leaving out a directory leaves out its contents */
+  filter?: (entry: FileEntry) => boolean
+  /** Files that don't get smaller are stored either way (default: 'deflate') */
+  compression?: ZipCompression
+}
+
+/**
+ * Options for FileSystemService.importZip()
+ */
+export interface ImportZipOptions {
+  /** Replace files that already exist at the destination (default: false) */
+  overwrite?: boolean
+  /** Progress callback: (completed, total) files */
+  onProgress?: (completed: number, total: number) => void
+  /** Skip emitting change events */
+  silent?: boolean
+}
+
+/**
+ * An entry of a tar archive, as passed to ImportTarOptions.filter
+ */
+export interface TarEntry {
+  /** Path inside the archive, after stripComponents */
+  path: string
+  type: 'file' | 'directory' | 'symlink' | 'hardlink' | 'other'
+  size: number
+  /** Permission bits, e.g. 0o755 */
+  mode: number
+  mtime: Date
+}
+
+/**
+ * Options for FileSystemService.importTar()
+ */
+export interface ImportTarOptions {
+  /** Whether the stream is gzipped (default: detected from its first bytes) */
+  gzip?: boolean
+  /** Leading path components to remove from entry paths, as in `tar --strip-components` (default: 0) */
+  stripComponents?: number
+  /** Return false to skip an entry; skipping a directory skips its contents */
+  filter?: (entry: TarEntry) => boolean
+  /** Progress callback: entries unpacked so far and bytes of the stream consumed */
+  onProgress?: (entries: number, bytes: number) => void
+  /** Skip emitting change events */
+  silent?: boolean
+}
+
+/**
+ * Options for streaming reads
+ */
+export interface ReadStreamOptions {
+  /** Byte offset to start reading at (default: 0) */
+  start?: number
+  /** Byte offset to stop reading at, exclusive (default: end of file) */
+  end?: number
+  /** Maximum size of each chunk in bytes (default: 64 KiB) */
+  highWaterMark?: number
+}
+
+/**
+ * Flags for FileSystemService.open(), as in Node's fs.open()
+ * - 'r' / 'r+': read (and write) an existing file
+ * - 'w' / 'w+': truncate or create, then write (and read)
+ * - 'a' / 'a+': append (and read), creating the file if needed
+ * - 'x' variants fail with EEXIST if the file already exists
+ */
+export type OpenFlags = 'r' | 'r+' | 'w' | 'w+' | 'wx' | 'wx+' | 'a' | 'a+' | 'ax' | 'ax+'
+
+/**
+ * Options for FileSystemService.watch()
+ */
+export interface WatchOptions {
+  /** Also report changes in subdirectories (default: false, direct children only) */
+  recursive?: boolean
+  /** Glob patterns relative to the watched path; other paths are ignored */
+  include?: string | string[]
+  /** Wait until no event arrived for this long, then deliver the batch (default: 0) */
+  debounceMs?: number
+  /** Let wildcards in `include` match names starting with a dot (default: false) */
+  dot?: boolean
+}
+
+/**
+ * Options for FileSystemService.glob()
+ */
+export interface GlobOptions {
+  /** Directory that relative patterns are resolved against (default: '/') */
+  cwd?: string
+  /** Patterns to leave out, like `!`-prefixed patterns */
+  ignore?: string | string[]
+  /** Only return files, not directories (default: true) */
+  onlyFiles?: boolean
+  /** Let wildcards match names starting with a dot (default: false) */
+  dot?: boolean
+}
+
+/**
+ * Space used by a file or directory tree, from FileSystemService.du()
+ */
+export interface DiskUsage {
+  /** Total size of all files */
+  bytes: number
+  files: number
+  /** Directories below the measured path, not counting itself */
+  directories: number
+}
+
+/**
+ * Result of FileSystemService.storageInfo()
+ */
+export interface StorageInfo {
+  /** Bytes used by the whole origin, per navigator.storage.estimate() (null if unavailable) */
+  usage: number | null
+  /** Bytes the origin may use before the browser evicts (null if unavailable) */
+  quota: number | null
+  /** Usage of each mount's own files, excluding mounts nested in it */
+  mounts: Array<{ path: string; backend: string; usage: DiskUsage }>
+}
+
+/**
+ * Options for FileSystemService.walk()
+ */
+export interface WalkOptions {
+  /** How many levels to descend; 1 lists only direct children (default: Infinity) */
+  depth?: number
+  /** Descend into mounts nested below the walked directory (default: false) */
+  followMounts?: boolean
+  /** Include each entry's stats (default: false) */
+  withStats?: boolean
+  /** 'pre' yields a directory before its contents, 'post' after them (default: 'pre') */
+  order?: 'pre' | 'post'
+}
+
+/**
+ * How a backend detects changes made outside the service
+ */
+export interface ExternalChangeOptions {
+  /** Scan interval when no native observer is available (default: 2000) */
+  pollIntervalMs?: number
+  /** Scan even if the browser has FileSystemObserver (default: false) */
+  forcePolling?: boolean
+}
+
+/**
+ * Options for FileSystemService.mount()
+ */
+export interface MountConfig {
+  /**
+   * Emit events for changes made to the backend's storage by other code,
+   * such as a compiler writing to OPFS directly. Ignored by backends
+   * without watchChanges().
+   */
+  detectExternalChanges?: boolean | ExternalChangeOptions
+  /** Treat the mount as a cache that evicts least recently used files to stay within limits */
+  cache?: CacheOptions
+  /** Keep earlier revisions of files overwritten with writeFile() or writeBinary() */
+  history?: boolean | HistoryOptions
+  /** Move deleted files and directory trees into a trash they can be restored from */
+  trash?: boolean | TrashOptions
+}
+
+/**
+ * Limits of a cache mount
+ */
+export interface CacheOptions {
+  /** Total size the mount's files may use */
+  maxBytes?: number
+  /** Number of files the mount may hold */
+  maxFiles?: number
+  /** Glob patterns, relative to the mount, of files that are never evicted */
+  pinned?: string | string[]
+}
+
+/**
+ * How many revisions a history mount keeps of each file
+ * A revision is dropped once it's beyond either limit. Without any limit,
+ * the last 10 revisions are kept.
+ */
+export interface HistoryOptions {
+  /** Number of revisions kept per file */
+  maxRevisions?: number
+  /** Days a revision is kept after it was replaced */
+  maxAgeDays?: number
+}
+
+/**
+ * An earlier version of a file, listed by FileSystemService.history()
+ */
+export interface Revision {
+  id: string
+  /** When this version was replaced */
+  savedAt: Date
+  size: number
+}
+
+/**
+ * Options of a mount's trash
+ */
+export interface TrashOptions {
+  /** Days deleted entries are kept before they're purged (default: 30) */
+  retentionDays?: number
+}
+
+/**
+ * A deleted file or directory tree, listed by FileSystemService.listTrash()
+ */
+export interface TrashEntry {
+  id: string
+  /** Where the entry was deleted from */
+  path: string
+  deletedAt: Date
+  isDirectory: boolean
+}
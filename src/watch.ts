@@ -0,0 +1,120 @@
+/**
+ * Path-scoped, debounced views of the FileSystemService event stream
+ */
+
+import type { FileSystemEvent, FileSystemEventHandler, WatchOptions } from './types.js'
+import { createGlobMatcher } from './glob.js'
+
+export type WatchListener = (events: FileSystemEvent[]) => void
+
+/**
+ * Subscribe to the events below `root` that match the watch options
+ * Events are delivered in batches once no new event arrived for
+ * `debounceMs`; identical events within a batch are reported once.
+ *
+ * @returns Unsubscribe function; pending events are dropped
+ */
+export function watchEvents(
+  subscribe: (handler: FileSystemEventHandler) => () => void,
+  root: string,
+  options: WatchOptions,
+  listener: WatchListener
+): () => void {
+  const { recursive = false, include, debounceMs = 0, dot = false } = options
+  const prefix = root === '/' ? '/' : root + '/'
+  const matches = include ? createGlobMatcher(include, { dot }) : () => true
+
+  let pending: FileSystemEvent[] = []
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const flush = () => {
+    timer = null
+    const batch = pending
+    pending = []
+    listener(batch)
+  }
+
+  const unsubscribe = subscribe((event) => {
+    let relativePath: string
+    if (event.path === root) {
+      relativePath = ''
+    } else if (event.path.startsWith(prefix)) {
+      relativePath = event.path.slice(prefix.length)
+    } else {
+      return
+    }
+
+    if (!recursive && relativePath.includes('/')) return
+    if (include && !matches(relativePath)) return
+
+    if (!pending.some(e => e.type === event.type && e.path === event.path)) {
+      pending.push(event)
+    }
+
+    // Restart the quiet period on every event so a burst arrives as one batch
+    if (timer !== null) clearTimeout(timer)
+    timer = setTimeout(flush, debounceMs)
+  })
+
+  return () => {
+    if (timer !== null) clearTimeout(timer)
+    pending = []
+    unsubscribe()
+  }
+}
+
+/**
+ * Async iterator over batches of watched events
+ * Batches that arrive while the consumer is busy are queued.
+ *
+ * @example
+ * for await (const events of fileSystem.watch('/documents', { recursive: true })) { ... }
+ */
+export class FileSystemWatcher implements AsyncIterableIterator<FileSystemEvent[]> {
+  private queue: FileSystemEvent[][] = []
+  private waiting: Array<(result: IteratorResult<FileSystemEvent[]>) => void> = []
+  private closed = false
+  private unsubscribe: () => void
+
+  constructor(start: (listener: WatchListener) => () => void) {
+    this.unsubscribe = start((events) => {
+      const resolve = this.waiting.shift()
+      if (resolve) {
+        resolve({ value: events, done: false })
+      } else {
+        this.queue.push(events)
+      }
+    })
+  }
+
+  next(): Promise<IteratorResult<FileSystemEvent[]>> {
+    const events = this.queue.shift()
+    if (events) {
+      return Promise.resolve({ value: events, done: false })
+    }
+    if (this.closed) {
+      return Promise.resolve({ value: undefined, done: true })
+    }
+    return new Promise(resolve => this.waiting.push(resolve))
+  }
+
+  /** Called when a for-await loop exits early */
+  return(): Promise<IteratorResult<FileSystemEvent[]>> {
+    this.close()
+    return Promise.resolve({ value: undefined, done: true })
+  }
+
+  /** Stop watching; a pending next() resolves as done */
+  close(): void {
+    if (this.closed) return
+    this.closed = true
+    this.unsubscribe()
+    for (const resolve of this.waiting.splice(0)) {
+      resolve({ value: undefined, done: true })
+    }
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<FileSystemEvent[]> {
+    return this
+  }
+}
@@ -13,8 +13,13 @@
 
 // Storage constants (same as constants.ts)
 const IDB_NAME = 'siglum_filesystem'
-const IDB_VERSION = 1
+const IDB_VERSION = 3
 const IDB_FILES_STORE = 'files'
+const IDB_CHUNKS_STORE = 'chunks'
+const IDB_BLOBS_STORE = 'blobs'
+const IDB_CHUNK_SIZE = 1024 * 1024
+const EVENTS_CHANNEL = 'siglum_filesystem_events'
+const OPFS_META_DIR = '.siglum-meta'
 
 interface StoredFile {
   path: string
@@ -23,12 +28,54 @@ interface StoredFile {
   size: number
   mtime: number
   ctime: number
+  mode?: number
+  chunkId?: string
+  chunkSize?: number
+  /** Set when `chunkId` is a blob shared with other files */
+  shared?: boolean
+  /** Changes with every write of the contents, so hash() can tell they're still the same */
+  version?: string
+}
+
+interface StoredChunk {
+  id: string
+  index: number
+  data: Uint8Array
+}
+
+interface StoredBlob {
+  id: string
+  refs: number
 }
 
 // ============================================================================
 // IndexedDB helpers
 // ============================================================================
 
+// Schema steps by version (same as IDB_MIGRATIONS in idbSchema.ts)
+const IDB_MIGRATIONS: Array<{ version: number; migrate(db: IDBDatabase, transaction: IDBTransaction): void }> = [
+  {
+    version: 1,
+    migrate(db) {
+      const store = db.createObjectStore(IDB_FILES_STORE, { keyPath: 'path' })
+      store.createIndex('mtime', 'mtime', { unique: false })
+      db.createObjectStore('directories', { keyPath: 'path' })
+    }
+  },
+  {
+    version: 2,
+    migrate(db) {
+      db.createObjectStore(IDB_CHUNKS_STORE, { keyPath: ['id', 'index'] })
+    }
+  },
+  {
+    version: 3,
+    migrate(db) {
+      db.createObjectStore(IDB_BLOBS_STORE, { keyPath: 'id' })
+    }
+  }
+]
+
 let idbPromise: Promise<IDBDatabase> | null = null
 
 function getIDB(): Promise<IDBDatabase> {
@@ -38,16 +85,21 @@ function getIDB(): Promise<IDBDatabase> {
     const request = indexedDB.open(IDB_NAME, IDB_VERSION)
 
     request.onerror = () => reject(request.error)
-    request.onsuccess = () => resolve(request.result)
+    request.onsuccess = () => {
+      const db = request.result
+      // Let a newer page upgrade the schema instead of blocking it
+      db.onversionchange = () => {
+        db.close()
+        idbPromise = null
+      }
+      resolve(db)
+    }
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result
-      if (!db.objectStoreNames.contains(IDB_FILES_STORE)) {
-        const store = db.createObjectStore(IDB_FILES_STORE, { keyPath: 'path' })
-        store.createIndex('mtime', 'mtime', { unique: false })
-      }
-      if (!db.objectStoreNames.contains('directories')) {
-        db.createObjectStore('directories', { keyPath: 'path' })
+      for (const step of IDB_MIGRATIONS) {
+        if (step.version > event.oldVersion) {
+          step.migrate(request.result, request.transaction!)
+        }
       }
     }
   })
@@ -55,6 +107,11 @@ function getIDB(): Promise<IDBDatabase> {
   return idbPromise
 }
 
+/** Unique id for one version of a file, and for its chunk records (same as IndexedDBBackend) */
+function createVersionId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
 function normalizeIDBPath(path: string): string {
   if (!path.startsWith('/')) {
     path = '/' + path
@@ -65,6 +122,64 @@ function normalizeIDBPath(path: string): string {
   return path.replace(/\/+/g, '/')
 }
 
+function chunkRange(chunkId: string): IDBKeyRange {
+  return IDBKeyRange.bound([chunkId, 0], [chunkId, Infinity])
+}
+
+/**
+ * Load a file record's contents, joining chunk records for large files
+ */
+function loadIDBContent(
+  transaction: IDBTransaction,
+  file: StoredFile,
+  onLoad: (content: Uint8Array) => void
+): void {
+  if (!file.chunkId) {
+    onLoad(file.isBinary
+      ? file.content as Uint8Array
+      : new TextEncoder().encode(file.content as string))
+    return
+  }
+
+  const request = transaction.objectStore(IDB_CHUNKS_STORE).getAll(chunkRange(file.chunkId))
+  request.onsuccess = () => {
+    const content = new Uint8Array(file.size)
+    let offset = 0
+    for (const chunk of request.result as StoredChunk[]) {
+      content.set(chunk.data, offset)
+      offset += chunk.data.length
+    }
+    onLoad(content)
+  }
+}
+
+/**
+ * Drop a file record's claim on its chunks
+ * Shared blobs of deduplicating backends are only deleted with their last reference.
+ */
+function releaseIDBContent(transaction: IDBTransaction, file: StoredFile): void {
+  if (!file.chunkId) return
+  const chunksStore = transaction.objectStore(IDB_CHUNKS_STORE)
+  if (!file.shared) {
+    chunksStore.delete(chunkRange(file.chunkId))
+    return
+  }
+
+  const chunkId = file.chunkId
+  const blobsStore = transaction.objectStore(IDB_BLOBS_STORE)
+  const request = blobsStore.get(chunkId)
+  request.onsuccess = () => {
+    const blob = request.result as StoredBlob | undefined
+    if (!blob) return
+    if (blob.refs > 1) {
+      blobsStore.put({ ...blob, refs: blob.refs - 1 })
+    } else {
+      blobsStore.delete(blob.id)
+      chunksStore.delete(chunkRange(chunkId))
+    }
+  }
+}
+
 /**
  * Read binary data from IndexedDB
  */
@@ -74,7 +189,7 @@ export async function readBinaryIDB(path: string): Promise<Uint8Array | null> {
     const normalized = normalizeIDBPath(path)
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([IDB_FILES_STORE], 'readonly')
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_CHUNKS_STORE], 'readonly')
       const store = transaction.objectStore(IDB_FILES_STORE)
       const request = store.get(normalized)
 
@@ -84,14 +199,9 @@ export async function readBinaryIDB(path: string): Promise<Uint8Array | null> {
           resolve(null)
           return
         }
-        if (file.isBinary) {
-          resolve(file.content as Uint8Array)
-        } else {
-          const encoder = new TextEncoder()
-          resolve(encoder.encode(file.content as string))
-        }
+        loadIDBContent(transaction, file, resolve)
       }
-      request.onerror = () => reject(request.error)
+      transaction.onerror = () => reject(transaction.error)
     })
   } catch {
     return null
@@ -107,26 +217,45 @@ export async function writeBinaryIDB(path: string, content: Uint8Array): Promise
   const now = Date.now()
 
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction([IDB_FILES_STORE], 'readwrite')
+    const transaction = db.transaction([IDB_FILES_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE], 'readwrite')
     const store = transaction.objectStore(IDB_FILES_STORE)
+    const chunksStore = transaction.objectStore(IDB_CHUNKS_STORE)
 
     const getRequest = store.get(normalized)
     getRequest.onsuccess = () => {
       const existing = getRequest.result as StoredFile | undefined
+      if (existing) {
+        releaseIDBContent(transaction, existing)
+      }
+
       const file: StoredFile = {
         path: normalized,
         content,
         isBinary: true,
         size: content.length,
         mtime: now,
-        ctime: existing?.ctime ?? now
+        ctime: existing?.ctime ?? now,
+        mode: existing?.mode,
+        version: createVersionId()
+      }
+
+      // Large files are split into chunk records like IndexedDBBackend does
+      if (content.length > IDB_CHUNK_SIZE) {
+        const chunkId = createVersionId()
+        for (let index = 0; index * IDB_CHUNK_SIZE < content.length; index++) {
+          const offset = index * IDB_CHUNK_SIZE
+          chunksStore.put({ id: chunkId, index, data: content.slice(offset, offset + IDB_CHUNK_SIZE) })
+        }
+        file.content = new Uint8Array(0)
+        file.chunkId = chunkId
+        file.chunkSize = IDB_CHUNK_SIZE
       }
 
-      const putRequest = store.put(file)
-      putRequest.onsuccess = () => resolve()
-      putRequest.onerror = () => reject(putRequest.error)
+      store.put(file)
     }
-    getRequest.onerror = () => reject(getRequest.error)
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
   })
 }
 
@@ -161,7 +290,7 @@ export async function readBinaryBatchIDB(paths: string[]): Promise<Map<string, U
     const db = await getIDB()
 
     return new Promise((resolve, reject) => {
-      const transaction = db.transaction([IDB_FILES_STORE], 'readonly')
+      const transaction = db.transaction([IDB_FILES_STORE, IDB_CHUNKS_STORE], 'readonly')
       const store = transaction.objectStore(IDB_FILES_STORE)
       let pending = paths.length
 
@@ -176,16 +305,16 @@ export async function readBinaryBatchIDB(paths: string[]): Promise<Map<string, U
 
         request.onsuccess = () => {
           const file = request.result as StoredFile | undefined
-          if (file) {
-            if (file.isBinary) {
-              results.set(path, file.content as Uint8Array)
-            } else {
-              const encoder = new TextEncoder()
-              results.set(path, encoder.encode(file.content as string))
-            }
+          if (!file) {
+            pending--
+            if (pending === 0) resolve(results)
+            return
           }
-          pending--
-          if (pending === 0) resolve(results)
+          loadIDBContent(transaction, file, content => {
+            results.set(path, content)
+            pending--
+            if (pending === 0) resolve(results)
+          })
         }
 
         request.onerror = () => {
@@ -286,6 +415,26 @@ export async function writeBinaryOPFS(path: string, content: Uint8Array): Promis
   const writable = await fileHandle.createWritable()
   await writable.write(content)
   await writable.close()
+  await removeHashSidecarOPFS(path)
+}
+
+/**
+ * Drop the cached digests OPFSBackend keeps for a file
+ * Sidecars are named by the SHA-1 of the normalized path
+ */
+async function removeHashSidecarOPFS(path: string): Promise<void> {
+  const normalized = new TextEncoder().encode('/' + normalizeOPFSPath(path))
+  const hash = new Uint8Array(await crypto.subtle.digest('SHA-1', normalized))
+  let hex = ''
+  for (const byte of hash) {
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  try {
+    const metaDir = await (await getOPFSRoot()).getDirectoryHandle(OPFS_META_DIR)
+    await metaDir.removeEntry(`${hex}.json`)
+  } catch {
+    // No sidecar
+  }
 }
 
 /**
@@ -376,6 +525,29 @@ export async function exists(path: string): Promise<boolean> {
   return existsIDB(path)
 }
 
+// ============================================================================
+// Events
+// ============================================================================
+
+type EventType = 'file:created' | 'file:modified' | 'file:deleted' | 'directory:created' | 'directory:deleted'
+
+const workerContextId = `worker-${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+let eventsChannel: BroadcastChannel | null = null
+
+/**
+ * Publish a change to contexts that called fileSystem.broadcastEvents()
+ * The helpers above don't emit events, so call this after writing files
+ * other tabs should know about (e.g. compile output). Paths are the
+ * absolute paths FileSystemService uses in those contexts.
+ */
+export function broadcastEvent(type: EventType, path: string): void {
+  if (typeof BroadcastChannel === 'undefined') return
+  if (!eventsChannel) {
+    eventsChannel = new BroadcastChannel(EVENTS_CHANNEL)
+  }
+  eventsChannel.postMessage({ origin: workerContextId, event: { type, path } })
+}
+
 // Export constants
 export { IDB_NAME, IDB_VERSION, IDB_FILES_STORE }
 
@@ -404,5 +576,8 @@ if (typeof self !== 'undefined') {
     writeBinaryIDB,
     existsIDB,
     readBinaryBatchIDB,
+
+    // Events
+    broadcastEvent,
   }
 }
@@ -0,0 +1,339 @@
+/**
+ * ZIP archive reading and writing
+ *
+ * Covers what exporting and importing directory trees needs: stored and
+ * deflated entries (deflate via CompressionStream), UTF-8 names and the
+ * extended timestamp field for mtimes to the second. There is no ZIP64
+ * support, so archives and entries are limited to 4 GiB and 65535 entries,
+ * and no encryption.
+ */
+
+import type { ZipCompression } from './types.js'
+import { FileSystemError } from './errors.js'
+
+/** An entry to write into an archive */
+export interface ZipEntry {
+  /** Path inside the archive; directories end with '/' */
+  name: string
+  mtime: Date
+  /** Contents of a file entry */
+  content?: Uint8Array
+}
+
+/** An entry of an archive being read; contents are extracted on demand */
+export interface ZipArchiveEntry {
+  name: string
+  isDirectory: boolean
+  mtime: Date
+  /** Uncompressed size */
+  size: number
+  read(): Promise<Uint8Array>
+}
+
+const LOCAL_HEADER = 0x04034b50
+const CENTRAL_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const EXTENDED_TIMESTAMP = 0x5455
+const UTF8_FLAG = 0x0800
+const METHOD_STORE = 0
+const METHOD_DEFLATE = 8
+const MAX_UINT32 = 0xffffffff
+
+let crcTable: Uint32Array | null = null
+
+/** CRC-32 of some bytes, as used by ZIP and gzip */
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+/** Run bytes through a compression or decompression stream */
+async function transform(data: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([data]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+/** MS-DOS date and time fields, in local time with 2-second resolution */
+function toDosTime(date: Date): { time: number; date: number } {
+  if (date.getFullYear() < 1980) {
+    return { time: 0, date: (1 << 5) | 1 }
+  }
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+function fromDosTime(time: number, date: number): Date {
+  return new Date(
+    (date >> 9) + 1980, ((date >> 5) & 0xf) - 1, date & 0x1f,
+    time >> 11, (time >> 5) & 0x3f, (time & 0x1f) * 2
+  )
+}
+
+/**
+ * Write entries into a ZIP archive as they're produced
+ * Each file is compressed whole before it's written, so memory use is
+ * bounded by the largest file rather than the archive.
+ */
+export function createZipStream(
+  entries: AsyncIterable<ZipEntry>,
+  compression: ZipCompression = 'deflate'
+): ReadableStream<Uint8Array> {
+  const iterator = entries[Symbol.asyncIterator]()
+  const encoder = new TextEncoder()
+  const centralDirectory: Uint8Array[] = []
+  let offset = 0
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { value: entry, done } = await iterator.next()
+      if (done) {
+        controller.enqueue(endOfCentralDirectory(centralDirectory, offset))
+        controller.close()
+        return
+      }
+
+      const name = encoder.encode(entry.name)
+      const content = entry.content ?? new Uint8Array(0)
+      let data = content
+      let method = METHOD_STORE
+      if (compression === 'deflate' && content.length > 0) {
+        const deflated = await transform(content, new CompressionStream('deflate-raw'))
+        // Incompressible files are stored as they are
+        if (deflated.length < content.length) {
+          data = deflated
+          method = METHOD_DEFLATE
+        }
+      }
+      if (data.length > MAX_UINT32 || offset > MAX_UINT32) {
+        throw new FileSystemError('EINVAL', entry.name, 'zip')
+      }
+
+      const header = {
+        name,
+        method,
+        mtime: entry.mtime,
+        crc: crc32(content),
+        compressedSize: data.length,
+        size: content.length,
+        isDirectory: entry.name.endsWith('/'),
+        offset
+      }
+      const local = localHeader(header)
+      centralDirectory.push(centralHeader(header))
+      offset += local.length + data.length
+
+      controller.enqueue(local)
+      if (data.length > 0) {
+        controller.enqueue(data)
+      }
+    },
+
+    async cancel() {
+      await iterator.return?.()
+    }
+  })
+}
+
+interface HeaderFields {
+  name: Uint8Array
+  method: number
+  mtime: Date
+  crc: number
+  compressedSize: number
+  size: number
+  isDirectory: boolean
+  offset: number
+}
+
+/** Extended timestamp extra field holding the mtime in Unix seconds */
+function timestampField(mtime: Date): Uint8Array {
+  const field = new Uint8Array(9)
+  const view = new DataView(field.buffer)
+  view.setUint16(0, EXTENDED_TIMESTAMP, true)
+  view.setUint16(2, 5, true)
+  view.setUint8(4, 1)
+  view.setUint32(5, Math.max(0, Math.floor(mtime.getTime() / 1000)), true)
+  return field
+}
+
+function localHeader(fields: HeaderFields): Uint8Array {
+  const extra = timestampField(fields.mtime)
+  const header = new Uint8Array(30 + fields.name.length + extra.length)
+  const view = new DataView(header.buffer)
+  const { time, date } = toDosTime(fields.mtime)
+
+  view.setUint32(0, LOCAL_HEADER, true)
+  view.setUint16(4, 20, true)
+  view.setUint16(6, UTF8_FLAG, true)
+  view.setUint16(8, fields.method, true)
+  view.setUint16(10, time, true)
+  view.setUint16(12, date, true)
+  view.setUint32(14, fields.crc, true)
+  view.setUint32(18, fields.compressedSize, true)
+  view.setUint32(22, fields.size, true)
+  view.setUint16(26, fields.name.length, true)
+  view.setUint16(28, extra.length, true)
+  header.set(fields.name, 30)
+  header.set(extra, 30 + fields.name.length)
+  return header
+}
+
+function centralHeader(fields: HeaderFields): Uint8Array {
+  const extra = timestampField(fields.mtime)
+  const header = new Uint8Array(46 + fields.name.length + extra.length)
+  const view = new DataView(header.buffer)
+  const { time, date } = toDosTime(fields.mtime)
+
+  view.setUint32(0, CENTRAL_HEADER, true)
+  view.setUint16(4, 20, true)
+  view.setUint16(6, 20, true)
+  view.setUint16(8, UTF8_FLAG, true)
+  view.setUint16(10, fields.method, true)
+  view.setUint16(12, time, true)
+  view.setUint16(14, date, true)
+  view.setUint32(16, fields.crc, true)
+  view.setUint32(20, fields.compressedSize, true)
+  view.setUint32(24, fields.size, true)
+  view.setUint16(28, fields.name.length, true)
+  view.setUint16(30, extra.length, true)
+  // MS-DOS directory attribute
+  view.setUint32(38, fields.isDirectory ? 0x10 : 0, true)
+  view.setUint32(42, fields.offset, true)
+  header.set(fields.name, 46)
+  header.set(extra, 46 + fields.name.length)
+  return header
+}
+
+function endOfCentralDirectory(headers: Uint8Array[], offset: number): Uint8Array {
+  const size = headers.reduce((sum, header) => sum + header.length, 0)
+  if (headers.length > 0xffff || offset > MAX_UINT32) {
+    throw new FileSystemError('EINVAL', undefined, 'zip')
+  }
+
+  const record = new Uint8Array(size + 22)
+  let position = 0
+  for (const header of headers) {
+    record.set(header, position)
+    position += header.length
+  }
+
+  const view = new DataView(record.buffer, size)
+  view.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+  view.setUint16(8, headers.length, true)
+  view.setUint16(10, headers.length, true)
+  view.setUint32(12, size, true)
+  view.setUint32(16, offset, true)
+  return record
+}
+
+/**
+ * List the entries of a ZIP archive from its central directory
+ * Fails with EINVAL on archives it can't read; reading an entry whose
+ * checksum doesn't match fails with EIO.
+ */
+export function readZip(data: Uint8Array): ZipArchiveEntry[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const invalid = () => new FileSystemError('EINVAL', undefined, 'unzip')
+
+  // The end record sits before a comment of up to 64 KiB
+  let end = -1
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) throw invalid()
+
+  const count = view.getUint16(end + 10, true)
+  const directoryOffset = view.getUint32(end + 16, true)
+  if (directoryOffset === MAX_UINT32) throw invalid()
+
+  const decoder = new TextDecoder()
+  const entries: ZipArchiveEntry[] = []
+  let position = directoryOffset
+
+  for (let i = 0; i < count; i++) {
+    if (position + 46 > data.length || view.getUint32(position, true) !== CENTRAL_HEADER) {
+      throw invalid()
+    }
+    const flags = view.getUint16(position + 8, true)
+    const method = view.getUint16(position + 10, true)
+    const crc = view.getUint32(position + 16, true)
+    const compressedSize = view.getUint32(position + 20, true)
+    const size = view.getUint32(position + 24, true)
+    const nameLength = view.getUint16(position + 28, true)
+    const extraLength = view.getUint16(position + 30, true)
+    const commentLength = view.getUint16(position + 32, true)
+    const localOffset = view.getUint32(position + 42, true)
+    // Encrypted, or ZIP64
+    if (flags & 1 || compressedSize === MAX_UINT32 || size === MAX_UINT32 || localOffset === MAX_UINT32) {
+      throw invalid()
+    }
+
+    const name = decoder.decode(data.subarray(position + 46, position + 46 + nameLength)).replace(/\\/g, '/')
+    const extra = data.subarray(position + 46 + nameLength, position + 46 + nameLength + extraLength)
+    const mtime = readTimestamp(extra) ??
+      fromDosTime(view.getUint16(position + 12, true), view.getUint16(position + 14, true))
+    position += 46 + nameLength + extraLength + commentLength
+
+    entries.push({
+      name,
+      isDirectory: name.endsWith('/'),
+      mtime,
+      size,
+      read: async () => {
+        if (localOffset + 30 > data.length || view.getUint32(localOffset, true) !== LOCAL_HEADER) {
+          throw invalid()
+        }
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true)
+        const compressed = data.subarray(start, start + compressedSize)
+
+        let content: Uint8Array
+        if (method === METHOD_STORE) {
+          content = compressed.slice()
+        } else if (method === METHOD_DEFLATE) {
+          content = await transform(compressed, new DecompressionStream('deflate-raw'))
+        } else {
+          throw new FileSystemError('EINVAL', name, 'unzip')
+        }
+        if (content.length !== size || crc32(content) !== crc) {
+          throw new FileSystemError('EIO', name, 'unzip')
+        }
+        return content
+      }
+    })
+  }
+
+  return entries
+}
+
+/** Mtime from an extended timestamp extra field, if there is one */
+function readTimestamp(extra: Uint8Array): Date | undefined {
+  const view = new DataView(extra.buffer, extra.byteOffset, extra.byteLength)
+  for (let position = 0; position + 4 <= extra.length;) {
+    const id = view.getUint16(position, true)
+    const size = view.getUint16(position + 2, true)
+    if (id === EXTENDED_TIMESTAMP && size >= 5 && position + 9 <= extra.length && view.getUint8(position + 4) & 1) {
+      return new Date(view.getUint32(position + 5, true) * 1000)
+    }
+    position += 4 + size
+  }
+  return undefined
+}
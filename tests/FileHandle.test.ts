@@ -0,0 +1,215 @@
+import { describe, expect, test, beforeEach } from 'bun:test'
+import './setup'
+import { FileSystemService } from '../src/FileSystemService'
+import { MemoryBackend } from '../src/MemoryBackend'
+import { IndexedDBBackend } from '../src/IndexedDBBackend'
+import type { FileSystemBackend, FileSystemEvent } from '../src/types'
+
+const text = (data: Uint8Array) => new TextDecoder().decode(data)
+
+describe('FileHandle', () => {
+  let service: FileSystemService
+  let events: FileSystemEvent[]
+
+  beforeEach(() => {
+    service = new FileSystemService()
+    service.mount('/mem', new MemoryBackend())
+    events = []
+    service.subscribe(event => events.push(event))
+  })
+
+  describe('open', () => {
+    test("'r' requires an existing file", async () => {
+      await expect(service.open('/mem/missing.txt')).rejects.toMatchObject({ code: 'ENOENT' })
+    })
+
+    test('rejects directories with EISDIR', async () => {
+      await service.mkdir('/mem/dir')
+      await expect(service.open('/mem/dir', 'r+')).rejects.toMatchObject({ code: 'EISDIR' })
+    })
+
+    test("'wx' fails if the file exists", async () => {
+      await service.writeFile('/mem/file.txt', 'content')
+      await expect(service.open('/mem/file.txt', 'wx')).rejects.toMatchObject({ code: 'EEXIST' })
+    })
+
+    test("'w' truncates an existing file", async () => {
+      await service.writeFile('/mem/file.txt', 'content')
+      const handle = await service.open('/mem/file.txt', 'w')
+      await handle.close()
+
+      expect(await service.readFile('/mem/file.txt')).toBe('')
+    })
+
+    test("'a' creates a missing file and emits file:created", async () => {
+      const handle = await service.open('/mem/new.log', 'a')
+      await handle.close()
+
+      expect(await service.exists('/mem/new.log')).toBe(true)
+      expect(events).toEqual([{ type: 'file:created', path: '/mem/new.log' }])
+    })
+  })
+
+  describe('read', () => {
+    test('reads sequentially from the file position', async () => {
+      await service.writeFile('/mem/file.txt', 'hello world')
+      const handle = await service.open('/mem/file.txt')
+      const buffer = new Uint8Array(5)
+
+      expect((await handle.read(buffer)).bytesRead).toBe(5)
+      expect(text(buffer)).toBe('hello')
+
+      await handle.read(buffer, 0, 5)
+      expect(text(buffer)).toBe(' worl')
+
+      const last = await handle.read(buffer, 0, 5)
+      expect(last.bytesRead).toBe(1)
+      expect(text(buffer.subarray(0, 1))).toBe('d')
+    })
+
+    test('positional reads fill the buffer at an offset without moving the position', async () => {
+      await service.writeFile('/mem/file.txt', 'hello world')
+      const handle = await service.open('/mem/file.txt')
+      const buffer = new Uint8Array(8).fill(46)
+
+      await handle.read(buffer, 3, 5, 6)
+      expect(text(buffer)).toBe('...world')
+
+      await handle.read(buffer, 0, 5)
+      expect(text(buffer.subarray(0, 5))).toBe('hello')
+    })
+
+    test('write-only handles cannot read', async () => {
+      const handle = await service.open('/mem/file.txt', 'w')
+      await expect(handle.read(new Uint8Array(1))).rejects.toMatchObject({ code: 'EBADF' })
+    })
+  })
+
+  describe('write', () => {
+    test('writes at positions and the file position', async () => {
+      await service.writeFile('/mem/file.txt', 'hello world')
+      const handle = await service.open('/mem/file.txt', 'r+')
+
+      await handle.write('HELLO')
+      await handle.write('W', 6)
+      await handle.write('!')
+      await handle.close()
+
+      expect(await service.readFile('/mem/file.txt')).toBe('HELLO!World')
+    })
+
+    test('writing past the end zero-fills the gap', async () => {
+      const handle = await service.open('/mem/file.bin', 'w')
+      await handle.write(new Uint8Array([1]), 3)
+      await handle.close()
+
+      expect(await service.readBinary('/mem/file.bin')).toEqual(new Uint8Array([0, 0, 0, 1]))
+    })
+
+    test('append mode always writes at the end', async () => {
+      await service.writeFile('/mem/main.log', 'one\n')
+      const handle = await service.open('/mem/main.log', 'a')
+
+      await handle.write('two\n', 0)
+      await handle.appendFile('three\n')
+      await handle.close()
+
+      expect(await service.readFile('/mem/main.log')).toBe('one\ntwo\nthree\n')
+    })
+
+    test('read-only handles cannot write', async () => {
+      await service.writeFile('/mem/file.txt', 'content')
+      const handle = await service.open('/mem/file.txt')
+      await expect(handle.write('x')).rejects.toMatchObject({ code: 'EBADF' })
+    })
+  })
+
+  describe('truncate, stat, sync and close', () => {
+    test('truncate shrinks and zero-extends', async () => {
+      await service.writeFile('/mem/file.txt', 'hello world')
+      const handle = await service.open('/mem/file.txt', 'r+')
+
+      await handle.truncate(5)
+      expect((await handle.stat()).size).toBe(5)
+
+      await handle.truncate(7)
+      await handle.close()
+      expect(await service.readBinary('/mem/file.txt')).toEqual(new Uint8Array([104, 101, 108, 108, 111, 0, 0]))
+    })
+
+    test('sync emits one file:modified for pending writes', async () => {
+      await service.writeFile('/mem/file.txt', 'content')
+      events = []
+      const handle = await service.open('/mem/file.txt', 'r+')
+
+      await handle.write('a')
+      await handle.write('b')
+      await handle.sync()
+      await handle.close()
+
+      expect(events).toEqual([{ type: 'file:modified', path: '/mem/file.txt' }])
+    })
+
+    test('operations after close fail with EBADF', async () => {
+      await service.writeFile('/mem/file.txt', 'content')
+      const handle = await service.open('/mem/file.txt')
+      await handle.close()
+      await handle.close()
+
+      await expect(handle.stat()).rejects.toMatchObject({ code: 'EBADF' })
+    })
+  })
+
+  describe('backends without range methods', () => {
+    test('fall back to rewriting the whole file', async () => {
+      const memory = new MemoryBackend()
+      const plain: FileSystemBackend = {
+        name: 'plain',
+        readFile: path => memory.readFile(path),
+        readBinary: path => memory.readBinary(path),
+        writeFile: (path, content) => memory.writeFile(path, content),
+        writeBinary: (path, content) => memory.writeBinary(path, content),
+        deleteFile: path => memory.deleteFile(path),
+        exists: path => memory.exists(path),
+        stat: path => memory.stat(path),
+        mkdir: path => memory.mkdir(path),
+        rmdir: (path, options) => memory.rmdir(path, options),
+        readdir: path => memory.readdir(path),
+        rename: (from, to) => memory.rename(from, to),
+        copyFile: (src, dest) => memory.copyFile(src, dest)
+      }
+      service.mount('/plain', plain)
+
+      const handle = await service.open('/plain/file.txt', 'w+')
+      await handle.write('hello world')
+      await handle.write('W', 6)
+      await handle.truncate(8)
+
+      const buffer = new Uint8Array(8)
+      await handle.read(buffer, 0, 8, 0)
+      await handle.close()
+
+      expect(text(buffer)).toBe('hello Wo')
+    })
+  })
+
+  describe('on IndexedDB', () => {
+    test('appends to a chunked file', async () => {
+      const base = `/log-${Date.now()}-${Math.random().toString(36).slice(2)}`
+      service.mount('/idb', new IndexedDBBackend({ chunkSize: 16 }))
+
+      const handle = await service.open(`/idb${base}/main.log`, 'a+')
+      for (let i = 0; i < 10; i++) {
+        await handle.appendFile(`line ${i}\n`)
+      }
+      await handle.truncate(21)
+
+      const buffer = new Uint8Array(7)
+      await handle.read(buffer, 0, 7, 14)
+      await handle.close()
+
+      expect(text(buffer)).toBe('line 2\n')
+      expect(await service.readFile(`/idb${base}/main.log`)).toBe('line 0\nline 1\nline 2\n')
+    })
+  })
+})
@@ -2,6 +2,9 @@ import { describe, expect, test, beforeEach } from 'bun:test'
 import './setup'
 import { FileSystemService } from '../src/FileSystemService'
 import { IndexedDBBackend } from '../src/IndexedDBBackend'
+import { MemoryBackend } from '../src/MemoryBackend'
+import { createZipStream } from '../src/zip'
+import type { FileSystemEvent } from '../src/types'
 
 describe('FileSystemService', () => {
   let service: FileSystemService
@@ -87,12 +90,66 @@ describe('FileSystemService', () => {
       expect(await service.exists(testPath + '/todelete.txt')).toBe(false)
     })
 
+    test('readStream streams file contents', async () => {
+      await service.writeFile(testPath + '/stream.txt', 'streamed content')
+      const stream = await service.readStream(testPath + '/stream.txt', { start: 9 })
+      expect(await new Response(stream).text()).toBe('content')
+    })
+
+    test('createWriteStream accepts piped streams', async () => {
+      const source = new Blob(['piped ', 'content']).stream()
+      await source.pipeTo(await service.createWriteStream(testPath + '/piped.txt'))
+      expect(await service.readFile(testPath + '/piped.txt')).toBe('piped content')
+    })
+
+    test('createWriteStream emits on close', async () => {
+      const events: FileSystemEvent[] = []
+      service.subscribe(event => events.push(event))
+
+      const writer = (await service.createWriteStream(testPath + '/events.txt')).getWriter()
+      await writer.write(new TextEncoder().encode('first'))
+      expect(events).toEqual([])
+      await writer.close()
+
+      const rewriter = (await service.createWriteStream(testPath + '/events.txt')).getWriter()
+      await rewriter.write(new TextEncoder().encode('second'))
+      await rewriter.close()
+
+      expect(events).toEqual([
+        { type: 'file:created', path: testPath + '/events.txt' },
+        { type: 'file:modified', path: testPath + '/events.txt' }
+      ])
+    })
+
+    test('createWriteStream abort leaves no file', async () => {
+      const writer = (await service.createWriteStream(testPath + '/aborted.txt')).getWriter()
+      await writer.write(new TextEncoder().encode('partial'))
+      await writer.abort('cancelled')
+
+      expect(await service.exists(testPath + '/aborted.txt')).toBe(false)
+    })
+
     test('stat returns file info', async () => {
       await service.writeFile(testPath + '/info.txt', 'hello')
       const stats = await service.stat(testPath + '/info.txt')
       expect(stats.isFile).toBe(true)
       expect(stats.size).toBe(5)
     })
+    test('passes the atomic option to the backend', async () => {
+      const memory = new MemoryBackend()
+      const calls: unknown[] = []
+      const original = memory.writeBinary.bind(memory)
+      memory.writeBinary = async (path, content, options) => {
+        calls.push(options)
+        return original(path, content)
+      }
+      service.mount('/atomic', memory)
+
+      await service.writeBinary('/atomic/file.bin', new Uint8Array([1]), { atomic: true })
+      await service.writeBinary('/atomic/file.bin', new Uint8Array([2]))
+
+      expect(calls).toEqual([{ atomic: true }, { atomic: undefined }])
+    })
   })
 
   describe('readBinaryBatch', () => {
@@ -162,6 +219,1159 @@ describe('FileSystemService', () => {
     })
   })
 
+  describe('external changes', () => {
+    // MemoryBackend whose watchChanges() hands out the change callback
+    const createWatchedBackend = () => {
+      const state: { report?: (event: FileSystemEvent) => void; stopped: boolean; options?: unknown } = { stopped: false }
+      const watched = Object.assign(new MemoryBackend(), {
+        watchChanges(onChange: (event: FileSystemEvent) => void, options?: unknown) {
+          state.report = onChange
+          state.options = options
+          return () => { state.stopped = true }
+        }
+      })
+      return { watched, state }
+    }
+
+    test('is off unless requested', () => {
+      const { watched, state } = createWatchedBackend()
+      service.mount('/out', watched)
+      expect(state.report).toBeUndefined()
+    })
+
+    test('emits backend changes under the mount path', () => {
+      const { watched, state } = createWatchedBackend()
+      service.mount('/out', watched, { detectExternalChanges: { pollIntervalMs: 500 } })
+      const events: FileSystemEvent[] = []
+      service.subscribe(event => events.push(event))
+
+      state.report!({ type: 'file:created', path: '/main.pdf' })
+      state.report!({ type: 'file:modified', path: '/main.pdf' })
+
+      expect(state.options).toEqual({ pollIntervalMs: 500 })
+      expect(events).toEqual([
+        { type: 'file:created', path: '/out/main.pdf' },
+        { type: 'file:modified', path: '/out/main.pdf' }
+      ])
+    })
+
+    test('drops echoes of changes made through the service', async () => {
+      const { watched, state } = createWatchedBackend()
+      service.mount('/out', watched, { detectExternalChanges: true })
+      let events: FileSystemEvent[] = []
+      service.subscribe(event => events.push(event))
+      await service.writeFile('/out/main.tex', 'content')
+      events = []
+
+      state.report!({ type: 'file:created', path: '/main.tex' })
+      state.report!({ type: 'file:created', path: '/other.tex' })
+
+      expect(events).toEqual([{ type: 'file:created', path: '/out/other.tex' }])
+    })
+
+    test('stops watching on unmount and remount', () => {
+      const first = createWatchedBackend()
+      service.mount('/out', first.watched, { detectExternalChanges: true })
+      service.mount('/out', new MemoryBackend())
+      expect(first.state.stopped).toBe(true)
+
+      const second = createWatchedBackend()
+      service.mount('/out', second.watched, { detectExternalChanges: true })
+      service.unmount('/out')
+      expect(second.state.stopped).toBe(true)
+    })
+  })
+
+  describe('glob', () => {
+    beforeEach(async () => {
+      service.mount('/docs', new MemoryBackend())
+      service.mount('/docs/cache', new MemoryBackend())
+      service.mount('/output', new MemoryBackend())
+      service.mount('/idb', backend)
+
+      await service.writeFile('/docs/proj/main.tex', 'main')
+      await service.writeFile('/docs/proj/chapters/intro.tex', 'intro')
+      await service.writeFile('/docs/proj/refs.bib', 'refs')
+      await service.writeFile('/docs/proj/.hidden/notes.tex', 'notes')
+      await service.writeFile('/docs/cache/fmt.tex', 'fmt')
+      await service.writeFile('/output/main.aux', 'aux')
+      await service.writeFile('/output/build/chapter.aux', 'aux')
+      await service.writeFile(`/idb${testPath}/draft.tex`, 'draft')
+    })
+
+    test('matches relative patterns against cwd', async () => {
+      expect(await service.glob('**/*.aux', { cwd: '/output' })).toEqual([
+        '/output/build/chapter.aux',
+        '/output/main.aux'
+      ])
+    })
+
+    test('supports braces, negation and ignore', async () => {
+      const matches = await service.glob(['**/*.{tex,bib}', '!chapters/**'], { cwd: '/docs/proj' })
+      expect(matches).toEqual(['/docs/proj/main.tex', '/docs/proj/refs.bib'])
+
+      expect(await service.glob('*.?ib', { cwd: '/docs/proj', ignore: 'refs.*' })).toEqual([])
+    })
+
+    test('skips dotfiles unless dot is set', async () => {
+      expect(await service.glob('/docs/proj/**/notes.tex')).toEqual([])
+      expect(await service.glob('/docs/proj/**/notes.tex', { dot: true })).toEqual(['/docs/proj/.hidden/notes.tex'])
+    })
+
+    test('spans nested mounts and IndexedDB', async () => {
+      expect(await service.glob('/docs/**/*.tex')).toEqual([
+        '/docs/cache/fmt.tex',
+        '/docs/proj/chapters/intro.tex',
+        '/docs/proj/main.tex'
+      ])
+      expect(await service.glob(`/idb${testPath}/*.tex`)).toEqual([`/idb${testPath}/draft.tex`])
+    })
+
+    test('lists directories, including mount points, unless onlyFiles', async () => {
+      expect(await service.glob('/*', { onlyFiles: false })).toEqual(['/docs', '/idb', '/output'])
+      expect(await service.glob('*', { cwd: '/output', onlyFiles: false })).toEqual(['/output/build', '/output/main.aux'])
+    })
+
+    test('returns nothing for missing directories', async () => {
+      expect(await service.glob('/docs/missing/**')).toEqual([])
+      expect(await service.glob('/unmounted/*')).toEqual([])
+    })
+  })
+
+  describe('walk', () => {
+    const collect = async (iterable: AsyncIterable<{ path: string }>) => {
+      const paths: string[] = []
+      for await (const entry of iterable) paths.push(entry.path)
+      return paths
+    }
+
+    beforeEach(async () => {
+      service.mount('/docs', new MemoryBackend())
+      service.mount('/docs/cache', new MemoryBackend())
+      await service.writeFile('/docs/proj/main.tex', 'main')
+      await service.writeFile('/docs/proj/chapters/intro.tex', 'intro')
+      await service.writeFile('/docs/readme.md', 'readme')
+      await service.writeFile('/docs/cache/fmt.tex', 'fmt')
+    })
+
+    test('yields directories before their contents by default', async () => {
+      expect(await collect(service.walk('/docs'))).toEqual([
+        '/docs/proj',
+        '/docs/proj/chapters',
+        '/docs/proj/chapters/intro.tex',
+        '/docs/proj/main.tex',
+        '/docs/readme.md'
+      ])
+    })
+
+    test("order: 'post' yields contents first", async () => {
+      expect(await collect(service.walk('/docs/proj', { order: 'post' }))).toEqual([
+        '/docs/proj/chapters/intro.tex',
+        '/docs/proj/chapters',
+        '/docs/proj/main.tex'
+      ])
+    })
+
+    test('depth limits how far it descends', async () => {
+      const entries = []
+      for await (const entry of service.walk('/docs', { depth: 2 })) entries.push(entry)
+
+      expect(entries.map(e => [e.path, e.depth])).toEqual([
+        ['/docs/proj', 1],
+        ['/docs/proj/chapters', 2],
+        ['/docs/proj/main.tex', 2],
+        ['/docs/readme.md', 1]
+      ])
+    })
+
+    test('followMounts descends into nested mounts', async () => {
+      const paths = await collect(service.walk('/docs', { followMounts: true, depth: 1 }))
+      expect(paths).toEqual(['/docs/cache', '/docs/proj', '/docs/readme.md'])
+
+      expect(await collect(service.walk('/', { followMounts: true }))).toContain('/docs/cache/fmt.tex')
+    })
+
+    test('withStats includes stats', async () => {
+      const entries = []
+      for await (const entry of service.walk('/docs/proj', { withStats: true })) entries.push(entry)
+
+      expect(entries.find(e => e.path === '/docs/proj/main.tex')?.stats).toMatchObject({ size: 4, isFile: true })
+      expect(entries.find(e => e.path === '/docs/proj/chapters')?.stats?.isDirectory).toBe(true)
+    })
+
+    test('reads IndexedDB with stats from a single scan', async () => {
+      service.mount('/idb', backend)
+      await service.writeFile(`/idb${testPath}/a/b.txt`, 'abc')
+      await service.writeFile(`/idb${testPath}/c.txt`, 'c')
+      let stats = 0
+      const original = backend.stat.bind(backend)
+      backend.stat = (path: string) => {
+        stats++
+        return original(path)
+      }
+
+      const entries = []
+      for await (const entry of service.walk(`/idb${testPath}`, { withStats: true })) entries.push(entry)
+
+      expect(entries.map(e => [e.path.slice(4 + testPath.length), e.stats?.size])).toEqual([
+        ['/a', 0],
+        ['/a/b.txt', 3],
+        ['/c.txt', 1]
+      ])
+      // Only the root is stat'ed; everything else comes from listTree()
+      expect(stats).toBe(1)
+    })
+
+    test('rejects missing directories and files', async () => {
+      await expect(collect(service.walk('/docs/missing'))).rejects.toMatchObject({ code: 'ENOENT' })
+      await expect(collect(service.walk('/docs/readme.md'))).rejects.toMatchObject({ code: 'ENOTDIR' })
+    })
+  })
+
+  describe('du and storageInfo', () => {
+    beforeEach(async () => {
+      service.mount('/docs', new MemoryBackend())
+      service.mount('/docs/cache', new MemoryBackend())
+      service.mount('/idb', backend)
+      await service.writeFile('/docs/proj/main.tex', 'main')
+      await service.writeFile('/docs/proj/chapters/intro.tex', 'intro')
+      await service.writeFile('/docs/cache/fmt.tex', 'format')
+      await service.writeFile(`/idb${testPath}/a/b.bin`, 'abc')
+    })
+
+    test('sums a subtree', async () => {
+      expect(await service.du('/docs/proj')).toEqual({ bytes: 9, files: 2, directories: 1 })
+    })
+
+    test('includes nested mounts', async () => {
+      expect(await service.du('/docs')).toEqual({ bytes: 15, files: 3, directories: 3 })
+    })
+
+    test('measures a single file', async () => {
+      expect(await service.du('/docs/proj/main.tex')).toEqual({ bytes: 4, files: 1, directories: 0 })
+    })
+
+    test('measures IndexedDB subtrees', async () => {
+      expect(await service.du(`/idb${testPath}`)).toEqual({ bytes: 3, files: 1, directories: 1 })
+    })
+
+    test('storageInfo combines the estimate with per-mount usage', async () => {
+      const original = Object.getOwnPropertyDescriptor(globalThis, 'navigator')
+      Object.defineProperty(globalThis, 'navigator', {
+        configurable: true,
+        value: { storage: { estimate: async () => ({ usage: 1000, quota: 5000 }) } }
+      })
+      try {
+        service.unmount('/idb')
+        const info = await service.storageInfo()
+
+        expect(info.usage).toBe(1000)
+        expect(info.quota).toBe(5000)
+        expect(info.mounts).toEqual([
+          { path: '/docs/cache/', backend: 'memory', usage: { bytes: 6, files: 1, directories: 0 } },
+          { path: '/docs/', backend: 'memory', usage: { bytes: 9, files: 2, directories: 2 } }
+        ])
+      } finally {
+        if (original) {
+          Object.defineProperty(globalThis, 'navigator', original)
+        } else {
+          delete (globalThis as { navigator?: unknown }).navigator
+        }
+      }
+    })
+
+    test('storageInfo reports null without the storage API', async () => {
+      service.unmount('/idb')
+      const info = await service.storageInfo()
+      expect(info.usage).toBeNull()
+      expect(info.quota).toBeNull()
+    })
+  })
+
+  describe('hash', () => {
+    const HELLO_SHA256 = '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824'
+
+    test('defaults to SHA-256', async () => {
+      service.mount(testPath, backend)
+      await service.writeFile(testPath + '/file.txt', 'hello')
+      expect(await service.hash(testPath + '/file.txt')).toBe(HELLO_SHA256)
+    })
+
+    test('hashes on backends without hash()', async () => {
+      const plain = Object.assign(new MemoryBackend(), { hash: undefined })
+      service.mount('/plain', plain)
+      await plain.writeFile('/file.txt', 'hello')
+
+      expect(await service.hash('/plain/file.txt')).toBe(HELLO_SHA256)
+    })
+
+    test('hashBatch skips missing files', async () => {
+      service.mount('/mem', new MemoryBackend())
+      await service.writeFile('/mem/a.txt', 'hello')
+
+      const digests = await service.hashBatch(['/mem/a.txt', '/mem/missing.txt', '/unmounted/x'], 'SHA-1')
+
+      expect(digests).toEqual(new Map([['/mem/a.txt', 'aaf4c61ddcc5e8a2dabede0f3b482cd9aea9434d']]))
+    })
+  })
+
+  describe('history', () => {
+    const decode = (data: Uint8Array) => new TextDecoder().decode(data)
+
+    test('keeps earlier contents of overwritten files, newest first', async () => {
+      service.mount('/docs', new MemoryBackend(), { history: true })
+      await service.writeFile('/docs/main.tex', 'one')
+      await service.writeFile('/docs/main.tex', 'two')
+      await service.writeBinary('/docs/main.tex', new TextEncoder().encode('three'))
+
+      const revisions = await service.history('/docs/main.tex')
+
+      expect(revisions.map(r => r.size)).toEqual([3, 3])
+      expect(decode(await service.readRevision('/docs/main.tex', revisions[0].id))).toBe('two')
+      expect(decode(await service.readRevision('/docs/main.tex', revisions[1].id))).toBe('one')
+    })
+
+    test('keeps earlier contents replaced by streams, handles, batches and transactions', async () => {
+      service.mount('/docs', new MemoryBackend(), { history: true })
+      const latest = async (path: string) => {
+        const [revision] = await service.history(path)
+        return decode(await service.readRevision(path, revision.id))
+      }
+
+      await service.writeFile('/docs/stream.tex', 'stream')
+      const stream = await service.createWriteStream('/docs/stream.tex')
+      await new Blob(['streamed']).stream().pipeTo(stream)
+      expect(await latest('/docs/stream.tex')).toBe('stream')
+
+      await service.writeFile('/docs/truncated.tex', 'truncated')
+      await (await service.open('/docs/truncated.tex', 'w')).close()
+      expect(await latest('/docs/truncated.tex')).toBe('truncated')
+
+      await service.writeFile('/docs/patched.tex', 'patched')
+      const handle = await service.open('/docs/patched.tex', 'r+')
+      await handle.write('P', 0)
+      await handle.write('!', 7)
+      await handle.close()
+      expect(await service.history('/docs/patched.tex')).toHaveLength(1)
+      expect(await latest('/docs/patched.tex')).toBe('patched')
+
+      await service.writeFile('/docs/batch.tex', 'batch')
+      await service.writeBinaryBatch([{ path: '/docs/batch.tex', content: new TextEncoder().encode('batched') }])
+      expect(await latest('/docs/batch.tex')).toBe('batch')
+
+      await service.writeFile('/docs/tx.tex', 'tx')
+      await service.transaction(tx => {
+        tx.writeFile('/docs/tx.tex', 'committed')
+        tx.writeFile('/docs/new.tex', 'new')
+      })
+      expect(await latest('/docs/tx.tex')).toBe('tx')
+      expect(await service.history('/docs/new.tex')).toEqual([])
+    })
+
+    test('keeps no revision for streams that fail to close or are aborted', async () => {
+      const memory = new MemoryBackend()
+      service.mount('/docs', memory, { history: { maxRevisions: 1 } })
+      await service.writeFile('/docs/main.tex', 'one')
+      await service.writeFile('/docs/main.tex', 'two')
+      const [kept] = await service.history('/docs/main.tex')
+
+      memory.createWriteStream = async () => new WritableStream({
+        close: () => { throw new Error('disk full') }
+      })
+      const writer = (await service.createWriteStream('/docs/main.tex')).getWriter()
+      await writer.write(new TextEncoder().encode('three'))
+      await expect(writer.close()).rejects.toThrow('disk full')
+      delete (memory as { createWriteStream?: unknown }).createWriteStream
+
+      const aborted = (await service.createWriteStream('/docs/main.tex')).getWriter()
+      await aborted.write(new TextEncoder().encode('four'))
+      await aborted.abort()
+
+      expect(await service.readFile('/docs/main.tex')).toBe('two')
+      expect(await service.history('/docs/main.tex')).toEqual([kept])
+    })
+
+    test('keeps no history unless the mount asks for it', async () => {
+      service.mount('/docs', new MemoryBackend())
+      await service.writeFile('/docs/main.tex', 'one')
+      await service.writeFile('/docs/main.tex', 'two')
+
+      expect(await service.history('/docs/main.tex')).toEqual([])
+      expect(await service.exists('/docs/.siglum-history')).toBe(false)
+    })
+
+    test('drops revisions beyond maxRevisions', async () => {
+      service.mount('/docs', new MemoryBackend(), { history: { maxRevisions: 2 } })
+      for (const content of ['1', '2', '3', '4']) {
+        await service.writeFile('/docs/main.tex', content)
+      }
+
+      const revisions = await service.history('/docs/main.tex')
+      const contents = await Promise.all(revisions.map(r => service.readRevision('/docs/main.tex', r.id)))
+
+      expect(contents.map(decode)).toEqual(['3', '2'])
+    })
+
+    test('drops revisions older than maxAgeDays', async () => {
+      const memory = new MemoryBackend()
+      service.mount('/docs', memory, { history: { maxAgeDays: 7 } })
+      await memory.mkdir('/.siglum-history/main.tex')
+      await memory.writeFile('/.siglum-history/main.tex/1000-0', 'ancient')
+      await service.writeFile('/docs/main.tex', 'one')
+      await service.writeFile('/docs/main.tex', 'two')
+
+      const revisions = await service.history('/docs/main.tex')
+
+      expect(revisions).toHaveLength(1)
+      expect(await memory.exists('/.siglum-history/main.tex/1000-0')).toBe(false)
+    })
+
+    test('restoreRevision brings back trashed files and can be undone', async () => {
+      service.mount('/docs', new MemoryBackend(), { history: true, trash: true })
+      await service.writeFile('/docs/ch/intro.tex', 'draft', { createParents: true })
+      await service.writeFile('/docs/ch/intro.tex', 'final')
+      await service.rmdir('/docs/ch', { recursive: true })
+
+      const [draft] = await service.history('/docs/ch/intro.tex')
+      await service.restoreRevision('/docs/ch/intro.tex', draft.id)
+      expect(await service.readFile('/docs/ch/intro.tex')).toBe('draft')
+
+      await service.writeFile('/docs/ch/intro.tex', 'rewrite')
+      const [restored] = await service.history('/docs/ch/intro.tex')
+      expect(decode(await service.readRevision('/docs/ch/intro.tex', restored.id))).toBe('draft')
+    })
+
+    test('revisions and trashed entries stay out of listings', async () => {
+      service.mount('/docs', new MemoryBackend(), { history: true, trash: true })
+      service.mount('/out', new MemoryBackend())
+      await service.writeFile('/docs/main.tex', 'one')
+      await service.writeFile('/docs/main.tex', 'three')
+      await service.writeFile('/docs/old.tex', 'old')
+      await service.deleteFile('/docs/old.tex')
+
+      const walked = []
+      for await (const entry of service.walk('/docs')) walked.push(entry.path)
+      await service.copy('/docs', '/out/copy', { recursive: true })
+      await service.importZip(await service.exportZip('/docs'), '/out/zip')
+
+      expect((await service.readdir('/docs')).map(e => e.path)).toEqual(['/docs/main.tex'])
+      expect(walked).toEqual(['/docs/main.tex'])
+      expect(await service.glob('**', { cwd: '/docs', dot: true, onlyFiles: false })).toEqual(['/docs/main.tex'])
+      expect(await service.du('/docs')).toEqual({ bytes: 5, files: 1, directories: 0 })
+      expect(await service.glob('**', { cwd: '/out', dot: true })).toEqual(['/out/copy/main.tex', '/out/zip/main.tex'])
+    })
+
+    test('only mounts using history or trash hide their directories', async () => {
+      const memory = new MemoryBackend()
+      await memory.writeFile('/.siglum-history/main.tex/1000-0', 'old')
+      await memory.writeFile('/.siglum-trash/1000-0/item', 'gone')
+      service.mount('/docs', memory, { history: true })
+
+      expect((await service.readdir('/docs')).map(e => e.path)).toEqual(['/docs/.siglum-trash'])
+
+      service.unmount('/docs')
+      service.mount('/docs', memory)
+      expect(await service.glob('**', { cwd: '/docs', dot: true })).toEqual([
+        '/docs/.siglum-history/main.tex/1000-0',
+        '/docs/.siglum-trash/1000-0/item'
+      ])
+      await service.rmdir('/docs/.siglum-history', { recursive: true })
+      expect(await memory.exists('/.siglum-history')).toBe(false)
+    })
+
+    test('revisions and trashed entries move along with migrate', async () => {
+      const source = new MemoryBackend()
+      service.mount('/docs', source, { history: true, trash: true })
+      await service.writeFile('/docs/main.tex', 'one')
+      await service.writeFile('/docs/main.tex', 'two')
+      await service.deleteFile('/docs/main.tex')
+
+      await service.migrate('/docs', source, new MemoryBackend())
+
+      expect(await service.history('/docs/main.tex')).toHaveLength(1)
+      expect(await service.listTrash()).toHaveLength(1)
+    })
+
+    test('stores revisions in IndexedDB mounts', async () => {
+      service.mount('/idb', backend, { history: true })
+      await service.writeFile(`/idb${testPath}/main.tex`, 'one', { createParents: true })
+      await service.writeFile(`/idb${testPath}/main.tex`, 'two')
+
+      const [revision] = await service.history(`/idb${testPath}/main.tex`)
+
+      expect(decode(await service.readRevision(`/idb${testPath}/main.tex`, revision.id))).toBe('one')
+      expect(await backend.exists(`/.siglum-history${testPath}/main.tex/${revision.id}`)).toBe(true)
+
+      await service.transaction(tx => tx.writeFile(`/idb${testPath}/main.tex`, 'three'))
+      const [latest] = await service.history(`/idb${testPath}/main.tex`)
+      expect(decode(await service.readRevision(`/idb${testPath}/main.tex`, latest.id))).toBe('two')
+    })
+
+    test('revisions follow renamed files and directories', async () => {
+      const memory = new MemoryBackend()
+      service.mount('/docs', memory, { history: true })
+      service.mount('/other', new MemoryBackend(), { history: true })
+      await service.writeFile('/docs/ch/intro.tex', 'one', { createParents: true })
+      await service.writeFile('/docs/ch/intro.tex', 'two')
+
+      await service.rename('/docs/ch/intro.tex', '/docs/ch/start.tex')
+      expect(await service.history('/docs/ch/intro.tex')).toEqual([])
+      expect(await service.history('/docs/ch/start.tex')).toHaveLength(1)
+
+      await service.rename('/docs/ch', '/docs/chapters')
+      const [revision] = await service.history('/docs/chapters/start.tex')
+      expect(decode(await service.readRevision('/docs/chapters/start.tex', revision.id))).toBe('one')
+
+      await service.rename('/docs/chapters', '/other/chapters')
+      expect(await service.history('/other/chapters/start.tex')).toHaveLength(1)
+      expect(await memory.exists('/.siglum-history/chapters')).toBe(false)
+    })
+
+    test('permanent deletes drop revisions', async () => {
+      const memory = new MemoryBackend()
+      service.mount('/docs', memory, { history: true })
+      await service.writeFile('/docs/main.tex', 'one')
+      await service.writeFile('/docs/main.tex', 'two')
+      await service.writeFile('/docs/ch/intro.tex', 'one', { createParents: true })
+      await service.writeFile('/docs/ch/intro.tex', 'two')
+      await service.writeFile('/docs/tx.tex', 'one')
+      await service.writeFile('/docs/tx.tex', 'two')
+
+      await service.deleteFile('/docs/main.tex')
+      await service.rmdir('/docs/ch', { recursive: true })
+      await service.transaction(tx => tx.deleteFile('/docs/tx.tex'))
+
+      expect(await service.history('/docs/main.tex')).toEqual([])
+      expect(await service.history('/docs/ch/intro.tex')).toEqual([])
+      expect(await service.history('/docs/tx.tex')).toEqual([])
+      expect(await memory.readdir('/.siglum-history')).toEqual([])
+    })
+
+    test('revisions of trashed files go when the trash is emptied', async () => {
+      service.mount('/docs', new MemoryBackend(), { history: true, trash: true })
+      await service.writeFile('/docs/main.tex', 'one')
+      await service.writeFile('/docs/main.tex', 'two')
+      await service.writeFile('/docs/kept.tex', 'one')
+      await service.writeFile('/docs/kept.tex', 'two')
+      await service.deleteFile('/docs/main.tex')
+      await service.deleteFile('/docs/kept.tex')
+      await service.writeFile('/docs/kept.tex', 'three')
+
+      expect(await service.history('/docs/main.tex')).toHaveLength(1)
+      await service.emptyTrash()
+
+      expect(await service.history('/docs/main.tex')).toEqual([])
+      expect(await service.history('/docs/kept.tex')).toHaveLength(1)
+    })
+
+    test('readRevision rejects unknown and malformed ids', async () => {
+      service.mount('/docs', new MemoryBackend(), { history: true })
+      await service.writeFile('/docs/main.tex', 'one')
+
+      await expect(service.readRevision('/docs/main.tex', '1-0')).rejects.toMatchObject({ code: 'ENOENT' })
+      await expect(service.readRevision('/docs/main.tex', '../x')).rejects.toMatchObject({ code: 'EINVAL' })
+    })
+  })
+
+  describe('trash', () => {
+    let memory: MemoryBackend
+    let events: FileSystemEvent[]
+
+    beforeEach(async () => {
+      memory = new MemoryBackend()
+      service.mount('/docs', memory, { trash: true })
+      await service.writeFile('/docs/proj/main.tex', 'main', { createParents: true })
+      await service.writeFile('/docs/proj/refs.bib', 'refs')
+      events = []
+      service.subscribe(event => events.push(event))
+    })
+
+    test('deleteFile moves files into the trash', async () => {
+      await service.deleteFile('/docs/proj/main.tex')
+
+      const [entry] = await service.listTrash()
+      expect(await service.exists('/docs/proj/main.tex')).toBe(false)
+      expect(entry).toMatchObject({ path: '/docs/proj/main.tex', isDirectory: false })
+      expect(events).toEqual([{ type: 'file:trashed', path: '/docs/proj/main.tex', id: entry.id, isDirectory: false }])
+    })
+
+    test('restore moves an entry back and emits file:restored', async () => {
+      await service.deleteFile('/docs/proj/main.tex')
+      const [entry] = await service.listTrash()
+
+      expect(await service.restore(entry.id)).toBe('/docs/proj/main.tex')
+      expect(await service.readFile('/docs/proj/main.tex')).toBe('main')
+      expect(await service.listTrash()).toEqual([])
+      expect(events[1]).toEqual({ type: 'file:restored', path: '/docs/proj/main.tex', id: entry.id, isDirectory: false })
+    })
+
+    test('recursive rmdir trashes the whole tree', async () => {
+      await service.rmdir('/docs/proj', { recursive: true })
+      const [entry] = await service.listTrash()
+
+      expect(await service.exists('/docs/proj')).toBe(false)
+      expect(entry).toMatchObject({ path: '/docs/proj', isDirectory: true })
+
+      await service.restore(entry.id)
+      expect(await service.readFile('/docs/proj/refs.bib')).toBe('refs')
+    })
+
+    test('transaction deletes go to the trash with the rest of the commit', async () => {
+      await service.transaction(tx => {
+        tx.writeFile('/docs/proj/notes.tex', 'notes')
+        tx.deleteFile('/docs/proj/main.tex')
+        tx.deleteFile('/docs/proj/refs.bib')
+      })
+      expect(await service.readFile('/docs/proj/notes.tex')).toBe('notes')
+
+      const entries = await service.listTrash()
+      const contents = await Promise.all(entries.map(async entry => {
+        await service.restore(entry.id)
+        return service.readFile(entry.path)
+      }))
+      expect(contents.sort()).toEqual(['main', 'refs'])
+      expect(events.filter(e => e.type === 'file:trashed')).toHaveLength(2)
+      expect(events.some(e => e.type === 'file:deleted')).toBe(false)
+    })
+
+    test('transaction deletes of missing files fail without trashing anything', async () => {
+      await expect(service.transaction(tx => {
+        tx.writeFile('/docs/proj/main.tex', 'changed')
+        tx.deleteFile('/docs/missing.tex')
+      })).rejects.toMatchObject({ code: 'ENOENT' })
+
+      expect(await service.readFile('/docs/proj/main.tex')).toBe('main')
+      expect(await service.listTrash()).toEqual([])
+    })
+
+    test('transaction deletes go to the trash on IndexedDB mounts', async () => {
+      service.mount('/idb', backend, { trash: true })
+      await service.writeFile(`/idb${testPath}/draft.tex`, 'draft', { createParents: true })
+
+      await service.transaction(tx => tx.deleteFile(`/idb${testPath}/draft.tex`))
+
+      const entry = (await service.listTrash()).find(e => e.path === `/idb${testPath}/draft.tex`)!
+      expect(await service.exists(`/idb${testPath}/draft.tex`)).toBe(false)
+      await service.restore(entry.id)
+      expect(await service.readFile(`/idb${testPath}/draft.tex`)).toBe('draft')
+    })
+
+    test('restore recreates missing parents and refuses to overwrite', async () => {
+      await service.deleteFile('/docs/proj/main.tex')
+      await service.deleteFile('/docs/proj/refs.bib', { permanent: true })
+      await service.rmdir('/docs/proj')
+      const [entry] = await service.listTrash()
+      await service.restore(entry.id)
+      expect(await service.readFile('/docs/proj/main.tex')).toBe('main')
+
+      await service.deleteFile('/docs/proj/main.tex')
+      await service.writeFile('/docs/proj/main.tex', 'new')
+      const [again] = await service.listTrash()
+      await expect(service.restore(again.id)).rejects.toMatchObject({ code: 'EEXIST' })
+      await expect(service.restore('1-0')).rejects.toMatchObject({ code: 'ENOENT' })
+    })
+
+    test('permanent deletes and mounts without a trash skip it', async () => {
+      service.mount('/scratch', new MemoryBackend())
+      await service.writeFile('/scratch/a.txt', 'a')
+      await service.deleteFile('/scratch/a.txt')
+      await service.deleteFile('/docs/proj/main.tex', { permanent: true })
+
+      expect(await service.listTrash()).toEqual([])
+      expect(events.map(e => e.type)).toEqual(['file:created', 'file:deleted', 'file:deleted'])
+    })
+
+    test('fails like a delete would', async () => {
+      await expect(service.deleteFile('/docs/proj')).rejects.toMatchObject({ code: 'EISDIR' })
+      await expect(service.deleteFile('/docs/missing.tex')).rejects.toMatchObject({ code: 'ENOENT' })
+      await expect(service.rmdir('/docs/proj/main.tex', { recursive: true })).rejects.toMatchObject({ code: 'ENOTDIR' })
+      expect(await service.listTrash()).toEqual([])
+    })
+
+    test('purges entries past the retention period', async () => {
+      await memory.mkdir('/.siglum-trash/1000-0')
+      await memory.writeFile('/.siglum-trash/1000-0/info.json', JSON.stringify({ path: '/old.tex', deletedAt: 1000, isDirectory: false }))
+      await memory.writeFile('/.siglum-trash/1000-0/item', 'old')
+
+      expect(await service.listTrash()).toEqual([])
+      expect(await memory.exists('/.siglum-trash/1000-0')).toBe(false)
+    })
+
+    test('emptyTrash deletes everything for good', async () => {
+      await service.deleteFile('/docs/proj/main.tex')
+      await service.rmdir('/docs/proj', { recursive: true })
+
+      await service.emptyTrash()
+
+      expect(await service.listTrash()).toEqual([])
+      expect(await memory.exists('/.siglum-trash')).toBe(false)
+    })
+  })
+
+  describe('rename', () => {
+    // Mounts of the shared backend see the same relative paths,
+    // so keep each test's files under its own unique directory
+    let base: string
+
+    beforeEach(() => {
+      service.mount(testPath, backend)
+      base = testPath + testPath
+    })
+
+    test('moves a directory tree within one backend', async () => {
+      await service.writeFile(base + '/proj/main.tex', 'main')
+      await service.writeFile(base + '/proj/sub/one.tex', 'one')
+
+      await service.rename(base + '/proj', base + '/renamed')
+
+      expect(await service.exists(base + '/proj')).toBe(false)
+      expect(await service.readFile(base + '/renamed/main.tex')).toBe('main')
+      expect(await service.readFile(base + '/renamed/sub/one.tex')).toBe('one')
+    })
+
+    test('moves a directory tree across backends keeping mtimes', async () => {
+      const memory = new MemoryBackend()
+      service.mount('/scratch', memory)
+
+      await service.writeFile('/scratch/proj/main.tex', 'main')
+      await service.writeBinary('/scratch/proj/fig/plot.png', new Uint8Array([1, 2, 3]))
+      await service.mkdir('/scratch/proj/empty')
+      const mtime = (await service.stat('/scratch/proj/main.tex')).mtime
+
+      await service.rename('/scratch/proj', base + '/proj')
+
+      expect(await service.exists('/scratch/proj')).toBe(false)
+      expect(await service.readFile(base + '/proj/main.tex')).toBe('main')
+      expect(await service.readBinary(base + '/proj/fig/plot.png')).toEqual(new Uint8Array([1, 2, 3]))
+      expect(await service.exists(base + '/proj/empty')).toBe(true)
+      expect((await service.stat(base + '/proj/main.tex')).mtime).toEqual(mtime)
+    })
+
+    test('emits events for every moved entry', async () => {
+      await service.writeFile(base + '/proj/main.tex', 'main')
+      await service.writeFile(base + '/proj/sub/one.tex', 'one')
+
+      const events: FileSystemEvent[] = []
+      service.subscribe(event => events.push(event))
+      await service.rename(base + '/proj', base + '/moved')
+
+      expect(events).toEqual([
+        { type: 'file:deleted', path: base + '/proj/main.tex' },
+        { type: 'file:deleted', path: base + '/proj/sub/one.tex' },
+        { type: 'directory:deleted', path: base + '/proj/sub' },
+        { type: 'directory:deleted', path: base + '/proj' },
+        { type: 'directory:created', path: base + '/moved' },
+        { type: 'directory:created', path: base + '/moved/sub' },
+        { type: 'file:created', path: base + '/moved/main.tex' },
+        { type: 'file:created', path: base + '/moved/sub/one.tex' }
+      ])
+    })
+
+    test('moves a single file across backends', async () => {
+      service.mount('/scratch', new MemoryBackend())
+      await service.writeFile('/scratch/note.txt', 'note')
+
+      await service.rename('/scratch/note.txt', base + '/docs/note.txt')
+
+      expect(await service.exists('/scratch/note.txt')).toBe(false)
+      expect(await service.readFile(base + '/docs/note.txt')).toBe('note')
+    })
+  })
+
+  describe('copy', () => {
+    let templates: MemoryBackend
+    let base: string
+
+    beforeEach(async () => {
+      templates = new MemoryBackend()
+      service.mount('/templates', templates)
+      service.mount(testPath, backend)
+      base = testPath + testPath
+
+      await service.writeFile('/templates/article/main.tex', 'main')
+      await service.writeFile('/templates/article/sections/intro.tex', 'intro')
+      await service.writeFile('/templates/article/main.aux', 'aux')
+    })
+
+    test('copies a directory tree across backends', async () => {
+      await service.copy('/templates/article', base + '/paper', { recursive: true })
+
+      expect(await service.readFile(base + '/paper/main.tex')).toBe('main')
+      expect(await service.readFile(base + '/paper/sections/intro.tex')).toBe('intro')
+      // Source is left untouched
+      expect(await service.readFile('/templates/article/main.tex')).toBe('main')
+    })
+
+    test('requires recursive for directories', async () => {
+      await expect(service.copy('/templates/article', base + '/paper')).rejects.toMatchObject({ code: 'EISDIR' })
+    })
+
+    test('copies a single file', async () => {
+      await service.copy('/templates/article/main.tex', base + '/main.tex')
+      expect(await service.readFile(base + '/main.tex')).toBe('main')
+    })
+
+    test('skips filtered entries', async () => {
+      await service.copy('/templates/article', '/templates/copy', {
+        recursive: true,
+        filter: entry => !entry.name.endsWith('.aux') && entry.name !== 'sections'
+      })
+
+      expect(await service.exists('/templates/copy/main.tex')).toBe(true)
+      expect(await service.exists('/templates/copy/main.aux')).toBe(false)
+      expect(await service.exists('/templates/copy/sections')).toBe(false)
+    })
+
+    test('passes absolute source paths to the filter', async () => {
+      const seen: string[] = []
+      await service.copy('/templates/article', '/templates/copy', {
+        recursive: true,
+        filter: entry => { seen.push(entry.path); return true }
+      })
+
+      expect(seen.sort()).toEqual([
+        '/templates/article/main.aux',
+        '/templates/article/main.tex',
+        '/templates/article/sections',
+        '/templates/article/sections/intro.tex'
+      ])
+    })
+
+    test('refuses to overwrite existing files by default', async () => {
+      await service.writeFile('/templates/copy/main.tex', 'mine')
+
+      await expect(service.copy('/templates/article', '/templates/copy', { recursive: true }))
+        .rejects.toMatchObject({ code: 'EEXIST', path: '/templates/copy/main.tex' })
+      expect(await service.readFile('/templates/copy/main.tex')).toBe('mine')
+    })
+
+    test('overwrites existing files when asked', async () => {
+      await service.writeFile('/templates/copy/main.tex', 'mine')
+      await service.copy('/templates/article', '/templates/copy', { recursive: true, overwrite: true })
+      expect(await service.readFile('/templates/copy/main.tex')).toBe('main')
+    })
+
+    test('refuses to copy a directory into itself', async () => {
+      await expect(service.copy('/templates/article', '/templates/article/nested', { recursive: true }))
+        .rejects.toMatchObject({ code: 'EINVAL' })
+    })
+
+    test('reports progress and emits events', async () => {
+      const progress: Array<[number, number]> = []
+      const events: FileSystemEvent[] = []
+      service.subscribe(event => events.push(event))
+
+      await service.copy('/templates/article', '/templates/copy', {
+        recursive: true,
+        onProgress: (completed, total) => progress.push([completed, total])
+      })
+
+      expect(progress[progress.length - 1]).toEqual([3, 3])
+      expect(events).toContainEqual({ type: 'directory:created', path: '/templates/copy' })
+      expect(events).toContainEqual({ type: 'directory:created', path: '/templates/copy/sections' })
+      expect(events).toContainEqual({ type: 'file:created', path: '/templates/copy/sections/intro.tex' })
+      expect(events.filter(e => e.type === 'file:created')).toHaveLength(3)
+    })
+  })
+
+  describe('migrate', () => {
+    let source: MemoryBackend
+    let target: MemoryBackend
+    const mtime = new Date('2024-03-01T12:00:00Z')
+
+    beforeEach(async () => {
+      source = new MemoryBackend()
+      target = new MemoryBackend()
+      await source.writeBinaryBatch([
+        { path: '/main.tex', content: new TextEncoder().encode('main'), mtime },
+        { path: '/chapters/intro.tex', content: new TextEncoder().encode('intro'), mtime }
+      ])
+      await source.mkdir('/figures')
+      service.mount('/docs', source, { trash: true })
+    })
+
+    test('copies the tree and switches the mount', async () => {
+      await service.migrate('/docs', source, target)
+
+      expect(await target.readFile('/chapters/intro.tex')).toBe('intro')
+      expect((await target.stat('/main.tex')).mtime).toEqual(mtime)
+      expect(await target.exists('/figures')).toBe(true)
+
+      await service.writeFile('/docs/new.tex', 'new')
+      expect(await target.exists('/new.tex')).toBe(true)
+      expect(await source.exists('/main.tex')).toBe(true)
+    })
+
+    test('keeps the mount config', async () => {
+      await service.migrate('/docs', source, target)
+      await service.deleteFile('/docs/main.tex')
+
+      expect((await service.listTrash()).map(entry => entry.path)).toEqual(['/docs/main.tex'])
+    })
+
+    test('deleteSource empties the source backend', async () => {
+      await service.migrate('/docs', source, target, { deleteSource: true, verify: 'bytes' })
+
+      expect(await source.readdir('/')).toEqual([])
+      expect(await service.readFile('/docs/main.tex')).toBe('main')
+    })
+
+    test('resumes by skipping files that were already copied', async () => {
+      await target.writeBinaryBatch([{ path: '/main.tex', content: new TextEncoder().encode('main'), mtime }])
+      const written: string[] = []
+      const writeBinaryBatch = target.writeBinaryBatch.bind(target)
+      target.writeBinaryBatch = async (entries, options) => {
+        written.push(...entries.map(entry => entry.path))
+        return writeBinaryBatch(entries, options)
+      }
+      const progress: Array<[number, number, string]> = []
+
+      await service.migrate('/docs', source, target, { onProgress: (...args) => progress.push(args) })
+
+      expect(written).toEqual(['/chapters/intro.tex'])
+      expect(progress).toEqual([[1, 2, 'copy'], [2, 2, 'copy'], [2, 2, 'verify']])
+    })
+
+    test('copies again files that fail verification', async () => {
+      // Same size and a newer mtime, but different contents
+      await target.writeFile('/main.tex', 'MAIN')
+
+      await service.migrate('/docs', source, target, { verify: 'bytes' })
+
+      expect(await target.readFile('/main.tex')).toBe('main')
+    })
+
+    test('leaves the mount alone when copies keep failing verification', async () => {
+      target.hash = async () => 'corrupt'
+
+      await expect(service.migrate('/docs', source, target)).rejects.toMatchObject({ code: 'EIO' })
+
+      await service.writeFile('/docs/new.tex', 'new')
+      expect(await source.exists('/new.tex')).toBe(true)
+    })
+
+    test('rejects migrations that would lose data', async () => {
+      service.mount('/other', source)
+
+      await expect(service.migrate('/docs', source, source)).rejects.toMatchObject({ code: 'EINVAL' })
+      await expect(service.migrate('/docs', source, target, { deleteSource: true })).rejects.toMatchObject({ code: 'EINVAL' })
+    })
+  })
+
+  describe('exportZip and importZip', () => {
+    let memory: MemoryBackend
+
+    beforeEach(async () => {
+      memory = new MemoryBackend()
+      service.mount('/projects', memory)
+      service.mount(testPath, backend)
+
+      await service.writeBinaryBatch([
+        { path: '/projects/paper/main.tex', content: new TextEncoder().encode('main'), mtime: new Date('2024-01-02T03:04:05Z') },
+        { path: '/projects/paper/sections/intro.tex', content: new TextEncoder().encode('intro') },
+        { path: '/projects/paper/main.aux', content: new TextEncoder().encode('aux') }
+      ])
+      await service.mkdir('/projects/paper/empty')
+    })
+
+    test('round-trips a tree into another mount, keeping mtimes', async () => {
+      const archive = await service.exportZip('/projects/paper')
+      expect(archive).toBeInstanceOf(Blob)
+
+      await service.importZip(archive, testPath + '/paper')
+
+      expect(await service.readFile(testPath + '/paper/main.tex')).toBe('main')
+      expect(await service.readFile(testPath + '/paper/sections/intro.tex')).toBe('intro')
+      expect((await service.stat(testPath + '/paper/empty')).isDirectory).toBe(true)
+      expect((await service.stat(testPath + '/paper/main.tex')).mtime).toEqual(new Date('2024-01-02T03:04:05Z'))
+    })
+
+    test('leaves out filtered entries', async () => {
+      const archive = await service.exportZip('/projects/paper', {
+        filter: entry => !entry.name.endsWith('.aux') && entry.name !== 'sections',
+        compression: 'store'
+      })
+      await service.importZip(archive, '/projects/copy')
+
+      expect(await service.exists('/projects/copy/main.tex')).toBe(true)
+      expect(await service.exists('/projects/copy/main.aux')).toBe(false)
+      expect(await service.exists('/projects/copy/sections')).toBe(false)
+    })
+
+    test('streams the archive', async () => {
+      const stream = service.exportZipStream('/projects/paper/sections')
+      const bytes = new Uint8Array(await new Response(stream).arrayBuffer())
+
+      await service.importZip(bytes, '/projects/streamed')
+      expect(await service.readFile('/projects/streamed/intro.tex')).toBe('intro')
+    })
+
+    test('refuses to overwrite existing files by default', async () => {
+      const archive = await service.exportZip('/projects/paper')
+      await service.writeFile('/projects/copy/main.tex', 'mine', { createParents: true })
+
+      await expect(service.importZip(archive, '/projects/copy'))
+        .rejects.toMatchObject({ code: 'EEXIST', path: '/projects/copy/main.tex' })
+      expect(await service.exists('/projects/copy/main.aux')).toBe(false)
+
+      await service.importZip(archive, '/projects/copy', { overwrite: true })
+      expect(await service.readFile('/projects/copy/main.tex')).toBe('main')
+    })
+
+    test('reports progress per file', async () => {
+      const progress: Array<[number, number]> = []
+      await service.importZip(await service.exportZip('/projects/paper'), '/projects/copy', {
+        onProgress: (completed, total) => progress.push([completed, total])
+      })
+      expect(progress[progress.length - 1]).toEqual([3, 3])
+    })
+
+    test('rejects entries leading outside the destination', async () => {
+      async function* entries() {
+        yield { name: '../evil.tex', mtime: new Date(), content: new Uint8Array([1]) }
+      }
+      const archive = await new Response(createZipStream(entries())).blob()
+
+      await expect(service.importZip(archive, '/projects/copy')).rejects.toMatchObject({ code: 'EINVAL' })
+      expect(await service.exists('/projects/evil.tex')).toBe(false)
+    })
+
+    test('fails for missing directories', async () => {
+      await expect(service.exportZip('/projects/missing')).rejects.toMatchObject({ code: 'ENOENT' })
+    })
+  })
+
+  describe('transaction', () => {
+    let base: string
+    let events: FileSystemEvent[]
+
+    beforeEach(() => {
+      service.mount(testPath, backend)
+      service.mount('/mem', new MemoryBackend())
+      base = testPath + testPath
+      events = []
+      service.subscribe(event => events.push(event))
+    })
+
+    test('commits writes, deletes and mkdirs together on IndexedDB', async () => {
+      await service.writeFile(base + '/old.tex', 'old', { silent: true })
+      events = []
+
+      const result = await service.transaction(async (tx) => {
+        tx.writeFile(base + '/main.tex', 'main')
+        tx.writeBinary(base + '/sections/intro.tex', new TextEncoder().encode('intro'))
+        tx.deleteFile(base + '/old.tex')
+        tx.mkdir(base + '/figures')
+        return 'saved'
+      })
+
+      expect(result).toBe('saved')
+      expect(await service.readFile(base + '/main.tex')).toBe('main')
+      expect(await service.readFile(base + '/sections/intro.tex')).toBe('intro')
+      expect(await service.exists(base + '/old.tex')).toBe(false)
+      expect((await service.stat(base + '/figures')).isDirectory).toBe(true)
+      expect(events).toEqual([
+        { type: 'file:created', path: base + '/main.tex' },
+        { type: 'file:created', path: base + '/sections/intro.tex' },
+        { type: 'file:deleted', path: base + '/old.tex' },
+        { type: 'directory:created', path: base + '/figures' }
+      ])
+    })
+
+    test('applies nothing if one IndexedDB operation fails', async () => {
+      await service.writeFile(base + '/main.tex', 'before')
+
+      await expect(service.transaction((tx) => {
+        tx.writeFile(base + '/main.tex', 'after')
+        tx.writeFile(base + '/new.tex', 'new')
+        tx.deleteFile(base + '/missing.tex')
+      })).rejects.toMatchObject({ code: 'ENOENT' })
+
+      expect(await service.readFile(base + '/main.tex')).toBe('before')
+      expect(await service.exists(base + '/new.tex')).toBe(false)
+      expect(await service.exists(base + '/missing.tex')).toBe(false)
+    })
+
+    test('applies writes and deletes of a path in order', async () => {
+      await service.transaction((tx) => {
+        tx.writeFile(base + '/file.txt', 'first')
+        tx.deleteFile(base + '/file.txt')
+        tx.writeFile(base + '/file.txt', 'last')
+      })
+
+      expect(await service.readFile(base + '/file.txt')).toBe('last')
+    })
+
+    test('a file written and then deleted is never created', async () => {
+      await service.transaction((tx) => {
+        tx.writeFile(base + '/scratch.txt', 'scratch')
+        tx.deleteFile(base + '/scratch.txt')
+        tx.writeFile(base + '/kept.txt', 'kept')
+      })
+
+      expect(await service.exists(base + '/scratch.txt')).toBe(false)
+      expect(await service.readFile(base + '/kept.txt')).toBe('kept')
+      expect(events).toEqual([{ type: 'file:created', path: base + '/kept.txt' }])
+    })
+
+    test('deleting a file twice fails with ENOENT', async () => {
+      await service.writeFile('/mem/file.txt', 'before')
+
+      await expect(service.transaction((tx) => {
+        tx.deleteFile('/mem/file.txt')
+        tx.deleteFile('/mem/file.txt')
+      })).rejects.toMatchObject({ code: 'ENOENT' })
+
+      expect(await service.readFile('/mem/file.txt')).toBe('before')
+    })
+
+    test('applies nothing when the callback throws', async () => {
+      await expect(service.transaction((tx) => {
+        tx.writeFile('/mem/file.txt', 'content')
+        throw new Error('validation failed')
+      })).rejects.toThrow('validation failed')
+
+      expect(await service.exists('/mem/file.txt')).toBe(false)
+      expect(events).toEqual([])
+    })
+
+    test('rolls back the memory backend on failure', async () => {
+      await service.writeFile('/mem/main.tex', 'before')
+
+      await expect(service.transaction((tx) => {
+        tx.writeFile('/mem/main.tex', 'after')
+        tx.mkdir('/mem/main.tex/sub')
+      })).rejects.toMatchObject({ code: 'ENOTDIR' })
+
+      expect(await service.readFile('/mem/main.tex')).toBe('before')
+    })
+
+    test('rejects transactions spanning mounts with EXDEV', async () => {
+      await expect(service.transaction((tx) => {
+        tx.writeFile('/mem/a.txt', 'a')
+        tx.writeFile(base + '/b.txt', 'b')
+      })).rejects.toMatchObject({ code: 'EXDEV' })
+
+      expect(await service.exists('/mem/a.txt')).toBe(false)
+    })
+
+    test('restores previous contents on backends without applyTransaction', async () => {
+      const memory = new MemoryBackend()
+      const plain = Object.assign(Object.create(memory), { applyTransaction: undefined }) as MemoryBackend
+      service.mount('/plain', plain)
+      await service.writeFile('/plain/main.tex', 'before')
+
+      await expect(service.transaction((tx) => {
+        tx.writeFile('/plain/main.tex', 'after')
+        tx.writeFile('/plain/new.tex', 'new')
+        tx.deleteFile('/plain/missing.tex')
+      })).rejects.toMatchObject({ code: 'ENOENT' })
+
+      expect(await service.readFile('/plain/main.tex')).toBe('before')
+      expect(await service.exists('/plain/new.tex')).toBe(false)
+    })
+  })
+
   describe('error handling', () => {
     test('throws when reading from unmounted path', async () => {
       await expect(service.readFile('/unmounted/file.txt')).rejects.toThrow()
@@ -170,5 +1380,17 @@ describe('FileSystemService', () => {
     test('throws when writing to unmounted path', async () => {
       await expect(service.writeFile('/unmounted/file.txt', 'content')).rejects.toThrow()
     })
+
+    test('reports unmounted paths as ENOMOUNT', async () => {
+      await expect(service.readFile('/unmounted/file.txt')).rejects.toMatchObject({
+        code: 'ENOMOUNT',
+        path: '/unmounted/file.txt'
+      })
+    })
+
+    test('passes backend error codes through', async () => {
+      service.mount(testPath, backend)
+      await expect(service.readFile(testPath + '/missing.txt')).rejects.toMatchObject({ code: 'ENOENT' })
+    })
   })
 })
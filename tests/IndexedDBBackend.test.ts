@@ -1,6 +1,46 @@
 import { describe, expect, test, beforeEach } from 'bun:test'
 import './setup'
 import { IndexedDBBackend } from '../src/IndexedDBBackend'
+import { FileSystemError } from '../src/errors'
+import { IDB_NAME, IDB_FILES_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE } from '../src/constants'
+
+/** Run a request against the raw database, bypassing the backend */
+async function rawRequest<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(IDB_NAME)
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+  return new Promise<T>((resolve, reject) => {
+    const request = run(db.transaction([storeName], mode).objectStore(storeName))
+    request.onsuccess = () => {
+      db.close()
+      resolve(request.result as T)
+    }
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function countChunks(chunkId: string): Promise<number> {
+  return rawRequest(IDB_CHUNKS_STORE, 'readonly', store =>
+    store.count(IDBKeyRange.bound([chunkId, 0], [chunkId, Infinity])))
+}
+
+function getRecord(path: string): Promise<{ chunkId?: string; size: number; ctime: number; content: unknown; hashes?: Record<string, string> }> {
+  return rawRequest(IDB_FILES_STORE, 'readonly', store => store.get(path))
+}
+
+function getBlob(id: string): Promise<{ refs: number; size: number } | undefined> {
+  return rawRequest(IDB_BLOBS_STORE, 'readonly', store => store.get(id))
+}
+
+function bytes(length: number, seed = 0): Uint8Array {
+  return Uint8Array.from({ length }, (_, i) => (i + seed) % 251)
+}
 
 describe('IndexedDBBackend', () => {
   let backend: IndexedDBBackend
@@ -33,6 +73,35 @@ describe('IndexedDBBackend', () => {
     test('throws on reading non-existent file', async () => {
       await expect(backend.readFile(testPrefix + '/nonexistent.txt')).rejects.toThrow()
     })
+
+    test('reports missing files as ENOENT', async () => {
+      const path = testPrefix + '/nonexistent.txt'
+      await expect(backend.readFile(path)).rejects.toMatchObject({
+        code: 'ENOENT',
+        path,
+        syscall: 'open'
+      })
+    })
+  })
+
+  describe('write conflicts', () => {
+    test('writing over a directory fails with EISDIR', async () => {
+      await backend.mkdir(testPrefix + '/dir')
+
+      await expect(backend.writeFile(testPrefix + '/dir', 'x')).rejects.toMatchObject({ code: 'EISDIR' })
+      await expect(backend.writeRange(testPrefix + '/dir', 0, new Uint8Array([1]))).rejects.toMatchObject({ code: 'EISDIR' })
+      await expect(backend.createWriteStream(testPrefix + '/dir')).rejects.toMatchObject({ code: 'EISDIR' })
+      expect((await backend.stat(testPrefix + '/dir')).isDirectory).toBe(true)
+    })
+
+    test('writing below a file fails with ENOTDIR', async () => {
+      await backend.writeFile(testPrefix + '/file.txt', 'content')
+
+      await expect(backend.writeFile(testPrefix + '/file.txt/child', 'x')).rejects.toMatchObject({ code: 'ENOTDIR' })
+      await expect(backend.writeBinary(testPrefix + '/file.txt/a/b', new Uint8Array([1]))).rejects.toMatchObject({ code: 'ENOTDIR' })
+      expect(await backend.exists(testPrefix + '/file.txt/child')).toBe(false)
+      expect(await backend.readFile(testPrefix + '/file.txt')).toBe('content')
+    })
   })
 
   describe('writeBinary and readBinary', () => {
@@ -61,6 +130,59 @@ describe('IndexedDBBackend', () => {
     })
   })
 
+  describe('readStream', () => {
+    test('streams file contents in chunks', async () => {
+      const data = new Uint8Array(10000)
+      for (let i = 0; i < data.length; i++) {
+        data[i] = i % 256
+      }
+      await backend.writeBinary(testPrefix + '/large.bin', data)
+
+      const stream = await backend.readStream(testPrefix + '/large.bin', { highWaterMark: 4096 })
+      const chunks: Uint8Array[] = []
+      for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+        chunks.push(chunk)
+      }
+
+      expect(chunks.map(c => c.length)).toEqual([4096, 4096, 1808])
+      expect(new Uint8Array(await new Blob(chunks).arrayBuffer())).toEqual(data)
+    })
+
+    test('streams a byte range', async () => {
+      await backend.writeFile(testPrefix + '/range.txt', 'hello world')
+      const stream = await backend.readStream(testPrefix + '/range.txt', { start: 6, end: 11 })
+      expect(await new Response(stream).text()).toBe('world')
+    })
+
+    test('rejects missing files with ENOENT', async () => {
+      await expect(backend.readStream(testPrefix + '/missing.bin')).rejects.toMatchObject({ code: 'ENOENT' })
+    })
+
+    test('rejects directories with EISDIR', async () => {
+      await backend.mkdir(testPrefix + '/dir')
+      await expect(backend.readStream(testPrefix + '/dir')).rejects.toMatchObject({ code: 'EISDIR' })
+      await expect(backend.readFile(testPrefix + '/dir')).rejects.toMatchObject({ code: 'EISDIR', syscall: 'open' })
+      await expect(backend.readBinary(testPrefix + '/dir')).rejects.toMatchObject({ code: 'EISDIR' })
+      await expect(backend.hash(testPrefix + '/dir', 'SHA-256')).rejects.toMatchObject({ code: 'EISDIR' })
+      await expect(backend.readRange(testPrefix + '/dir', 0, 1)).rejects.toMatchObject({ code: 'EISDIR' })
+      await expect(backend.readFile('/')).rejects.toMatchObject({ code: 'EISDIR' })
+    })
+  })
+
+  describe('createWriteStream', () => {
+    test('writes streamed chunks on close', async () => {
+      const path = testPrefix + '/streamed.bin'
+      const writer = (await backend.createWriteStream(path)).getWriter()
+
+      await writer.write(new Uint8Array([1, 2]))
+      await writer.write(new Uint8Array([3, 4]))
+      expect(await backend.exists(path)).toBe(false)
+
+      await writer.close()
+      expect(await backend.readBinary(path)).toEqual(new Uint8Array([1, 2, 3, 4]))
+    })
+  })
+
   describe('readBinaryBatch', () => {
     test('reads multiple files in one transaction', async () => {
       await backend.writeBinary(testPrefix + '/a.bin', new Uint8Array([1]))
@@ -125,6 +247,25 @@ describe('IndexedDBBackend', () => {
       expect(stats.mtime).toBeInstanceOf(Date)
     })
 
+    test('keeps modes recorded by writeBinaryBatch across rewrites', async () => {
+      await backend.writeBinaryBatch([{ path: testPrefix + '/run.sh', content: new Uint8Array([1]), mode: 0o755 }])
+      expect((await backend.stat(testPrefix + '/run.sh')).mode).toBe(0o755)
+
+      await backend.writeFile(testPrefix + '/run.sh', 'echo')
+      expect((await backend.stat(testPrefix + '/run.sh')).mode).toBe(0o755)
+      expect((await backend.stat(testPrefix + '/run.sh')).size).toBe(4)
+    })
+
+    test('keeps the creation time of files rewritten by writeBinaryBatch', async () => {
+      await backend.writeFile(testPrefix + '/main.tex', 'one')
+      const { ctime } = await getRecord(testPrefix + '/main.tex')
+      await Bun.sleep(5)
+
+      await backend.writeBinaryBatch([{ path: testPrefix + '/main.tex', content: new Uint8Array([1]) }])
+
+      expect((await getRecord(testPrefix + '/main.tex')).ctime).toBe(ctime)
+    })
+
     test('returns stats for directory', async () => {
       await backend.mkdir(testPrefix + '/testdir')
       const stats = await backend.stat(testPrefix + '/testdir')
@@ -136,6 +277,11 @@ describe('IndexedDBBackend', () => {
     test('throws for non-existent path', async () => {
       await expect(backend.stat(testPrefix + '/nonexistent')).rejects.toThrow()
     })
+
+    test('reports non-existent path as ENOENT', async () => {
+      await expect(backend.stat(testPrefix + '/nonexistent')).rejects.toBeInstanceOf(FileSystemError)
+      await expect(backend.stat(testPrefix + '/nonexistent')).rejects.toMatchObject({ code: 'ENOENT' })
+    })
   })
 
   describe('mkdir', () => {
@@ -150,6 +296,15 @@ describe('IndexedDBBackend', () => {
       expect(await backend.exists(testPrefix + '/a/b')).toBe(true)
       expect(await backend.exists(testPrefix + '/a/b/c')).toBe(true)
     })
+
+    test('fails with ENOTDIR over a file', async () => {
+      await backend.writeFile(testPrefix + '/file.txt', 'content')
+
+      await expect(backend.mkdir(testPrefix + '/file.txt')).rejects.toMatchObject({ code: 'ENOTDIR' })
+      await expect(backend.mkdir(testPrefix + '/file.txt/sub')).rejects.toMatchObject({ code: 'ENOTDIR' })
+      expect((await backend.stat(testPrefix + '/file.txt')).isFile).toBe(true)
+      expect(await backend.exists(testPrefix + '/file.txt/sub')).toBe(false)
+    })
   })
 
   describe('readdir', () => {
@@ -182,6 +337,45 @@ describe('IndexedDBBackend', () => {
       expect(file?.isDirectory).toBe(false)
       expect(dir?.isDirectory).toBe(true)
     })
+    test('fails with ENOENT for a missing directory', async () => {
+      await expect(backend.readdir(testPrefix + '/missing')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'scandir' })
+    })
+
+    test('fails with ENOTDIR for a file', async () => {
+      await backend.writeFile(testPrefix + '/file.txt', 'content')
+      await expect(backend.readdir(testPrefix + '/file.txt')).rejects.toMatchObject({ code: 'ENOTDIR' })
+    })
+  })
+
+  describe('listTree', () => {
+    test('lists all descendants with one scan', async () => {
+      await backend.writeFile(testPrefix + '/proj/main.tex', 'main')
+      await backend.writeFile(testPrefix + '/proj/chapters/one.tex', 'one')
+      await backend.mkdir(testPrefix + '/proj/empty')
+      await backend.writeFile(testPrefix + '/proj-other/file.txt', 'other')
+
+      const entries = await backend.listTree(testPrefix + '/proj')
+      const paths = entries.map(e => e.path.slice(testPrefix.length))
+
+      expect(paths.slice(0, 2)).toEqual(['/proj/chapters', '/proj/empty'])
+      expect(paths.slice(2).sort()).toEqual(['/proj/chapters/one.tex', '/proj/main.tex'])
+      expect(entries.find(e => e.name === 'one.tex')?.isDirectory).toBe(false)
+    })
+
+    test('returns nothing for a missing directory', async () => {
+      expect(await backend.listTree(testPrefix + '/missing')).toEqual([])
+    })
+
+    test('reads stats from the records when asked', async () => {
+      await backend.writeFile(testPrefix + '/dir/sub/file.txt', 'content')
+
+      const entries = await backend.listTree(testPrefix + '/dir', { withStats: true })
+
+      expect(entries.map(e => [e.name, e.stats?.size, e.stats?.isDirectory])).toEqual([
+        ['sub', 0, true],
+        ['file.txt', 7, false]
+      ])
+    })
   })
 
   describe('deleteFile', () => {
@@ -191,13 +385,35 @@ describe('IndexedDBBackend', () => {
       expect(await backend.exists(testPrefix + '/test.txt')).toBe(false)
     })
 
-    test('succeeds silently for non-existent file', async () => {
-      // IndexedDB delete doesn't throw if key doesn't exist
-      await backend.deleteFile(testPrefix + '/nonexistent.txt')
+    test('fails with ENOENT for non-existent file', async () => {
+      await expect(backend.deleteFile(testPrefix + '/nonexistent.txt')).rejects.toMatchObject({ code: 'ENOENT' })
+    })
+
+    test('fails with EISDIR for a directory', async () => {
+      await backend.mkdir(testPrefix + '/dir')
+      await expect(backend.deleteFile(testPrefix + '/dir')).rejects.toMatchObject({ code: 'EISDIR' })
+      expect(await backend.exists(testPrefix + '/dir')).toBe(true)
     })
   })
 
   describe('rmdir', () => {
+    test('fails with ENOENT for a missing directory', async () => {
+      await expect(backend.rmdir(testPrefix + '/missing')).rejects.toMatchObject({ code: 'ENOENT', syscall: 'rmdir' })
+    })
+
+    test('fails with ENOTDIR for a file', async () => {
+      await backend.writeFile(testPrefix + '/file.txt', 'content')
+      await expect(backend.rmdir(testPrefix + '/file.txt')).rejects.toMatchObject({ code: 'ENOTDIR' })
+      await expect(backend.rmdir(testPrefix + '/file.txt', { recursive: true })).rejects.toMatchObject({ code: 'ENOTDIR' })
+      expect(await backend.exists(testPrefix + '/file.txt')).toBe(true)
+    })
+
+    test('refuses non-empty directory without recursive', async () => {
+      await backend.writeFile(testPrefix + '/full/file.txt', 'content')
+      await expect(backend.rmdir(testPrefix + '/full')).rejects.toMatchObject({ code: 'ENOTEMPTY' })
+      expect(await backend.exists(testPrefix + '/full/file.txt')).toBe(true)
+    })
+
     test('deletes empty directory', async () => {
       await backend.mkdir(testPrefix + '/emptydir')
       await backend.rmdir(testPrefix + '/emptydir')
@@ -242,6 +458,43 @@ describe('IndexedDBBackend', () => {
       expect(await backend.exists(testPrefix + '/new.txt')).toBe(true)
       expect(await backend.readFile(testPrefix + '/new.txt')).toBe('content')
     })
+
+    test('keeps file mtime', async () => {
+      await backend.writeFile(testPrefix + '/old.txt', 'content')
+      const mtime = (await backend.stat(testPrefix + '/old.txt')).mtime
+      await Bun.sleep(5)
+      await backend.rename(testPrefix + '/old.txt', testPrefix + '/new.txt')
+
+      expect((await backend.stat(testPrefix + '/new.txt')).mtime).toEqual(mtime)
+    })
+
+    test('renames directory tree', async () => {
+      await backend.writeFile(testPrefix + '/proj/main.tex', 'main')
+      await backend.writeFile(testPrefix + '/proj/chapters/one.tex', 'one')
+      await backend.mkdir(testPrefix + '/proj/empty')
+      // Sibling sharing the name prefix must not move
+      await backend.writeFile(testPrefix + '/project.txt', 'sibling')
+
+      await backend.rename(testPrefix + '/proj', testPrefix + '/moved/proj2')
+
+      expect(await backend.exists(testPrefix + '/proj')).toBe(false)
+      expect(await backend.exists(testPrefix + '/proj/chapters/one.tex')).toBe(false)
+      expect(await backend.readFile(testPrefix + '/moved/proj2/main.tex')).toBe('main')
+      expect(await backend.readFile(testPrefix + '/moved/proj2/chapters/one.tex')).toBe('one')
+      expect(await backend.exists(testPrefix + '/moved/proj2/empty')).toBe(true)
+      expect(await backend.readFile(testPrefix + '/project.txt')).toBe('sibling')
+    })
+
+    test('refuses to move a directory into itself', async () => {
+      await backend.mkdir(testPrefix + '/dir')
+      await expect(backend.rename(testPrefix + '/dir', testPrefix + '/dir/sub')).rejects.toMatchObject({ code: 'EINVAL' })
+    })
+
+    test('refuses to replace an existing directory', async () => {
+      await backend.mkdir(testPrefix + '/a')
+      await backend.mkdir(testPrefix + '/b')
+      await expect(backend.rename(testPrefix + '/a', testPrefix + '/b')).rejects.toMatchObject({ code: 'EEXIST' })
+    })
   })
 
   describe('copyFile', () => {
@@ -273,4 +526,425 @@ describe('IndexedDBBackend', () => {
       expect(await backend.readFile(testPrefix + '/test/file.txt')).toBe('content')
     })
   })
+
+  describe('hash', () => {
+    const HELLO_SHA256 = '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824'
+
+    test('caches the digest on the file record', async () => {
+      await backend.writeFile(testPrefix + '/file.txt', 'hello')
+
+      expect(await backend.hash(testPrefix + '/file.txt', 'SHA-256')).toBe(HELLO_SHA256)
+      expect(await backend.hash(testPrefix + '/file.txt', 'SHA-1')).toBe('aaf4c61ddcc5e8a2dabede0f3b482cd9aea9434d')
+
+      const record = await getRecord(testPrefix + '/file.txt')
+      expect(record.hashes).toEqual({ 'SHA-256': HELLO_SHA256, 'SHA-1': 'aaf4c61ddcc5e8a2dabede0f3b482cd9aea9434d' })
+    })
+
+    test('writes drop the cached digest', async () => {
+      await backend.writeFile(testPrefix + '/file.txt', 'hello')
+      await backend.hash(testPrefix + '/file.txt', 'SHA-256')
+
+      await backend.writeFile(testPrefix + '/file.txt', 'world')
+
+      expect((await getRecord(testPrefix + '/file.txt')).hashes).toBeUndefined()
+      expect(await backend.hash(testPrefix + '/file.txt', 'SHA-256')).not.toBe(HELLO_SHA256)
+    })
+
+    test('a write while hashing keeps the old digest out of the cache', async () => {
+      await backend.writeFile(testPrefix + '/file.txt', 'hello')
+
+      // Rewrite the file between reading it and caching its digest, with the
+      // same size and mtime, so only the contents tell the versions apart
+      const now = Date.now
+      const digest = crypto.subtle.digest
+      Date.now = () => 1000
+      crypto.subtle.digest = async (algorithm, data) => {
+        crypto.subtle.digest = digest
+        await backend.writeFile(testPrefix + '/file.txt', 'world')
+        return digest.call(crypto.subtle, algorithm, data)
+      }
+      try {
+        await backend.writeFile(testPrefix + '/file.txt', 'hello')
+        expect(await backend.hash(testPrefix + '/file.txt', 'SHA-256')).toBe(HELLO_SHA256)
+      } finally {
+        Date.now = now
+        crypto.subtle.digest = digest
+      }
+
+      expect(await backend.hash(testPrefix + '/file.txt', 'SHA-256')).not.toBe(HELLO_SHA256)
+    })
+
+    test('range writes to chunked files drop the cached digest', async () => {
+      const chunked = new IndexedDBBackend({ chunkSize: 4 })
+      await chunked.writeFile(testPrefix + '/big.txt', 'hello world')
+      const before = await chunked.hash(testPrefix + '/big.txt', 'SHA-256')
+
+      await chunked.writeRange(testPrefix + '/big.txt', 0, new TextEncoder().encode('J'))
+
+      expect((await getRecord(testPrefix + '/big.txt')).hashes).toBeUndefined()
+      expect(await chunked.hash(testPrefix + '/big.txt', 'SHA-256')).not.toBe(before)
+    })
+
+    test('rejects missing files', async () => {
+      await expect(backend.hash(testPrefix + '/missing', 'SHA-256')).rejects.toMatchObject({ code: 'ENOENT' })
+    })
+  })
+
+  describe('chunked storage', () => {
+    let chunked: IndexedDBBackend
+
+    beforeEach(() => {
+      chunked = new IndexedDBBackend({ chunkSize: 1024 })
+    })
+
+    test('stores large files as chunk records behind a manifest', async () => {
+      const data = bytes(2500)
+      await chunked.writeBinary(testPrefix + '/big.bin', data)
+
+      const record = await getRecord(testPrefix + '/big.bin')
+      expect(record.chunkId).toBeDefined()
+      expect(record.size).toBe(2500)
+      expect(await countChunks(record.chunkId!)).toBe(3)
+
+      expect(await chunked.readBinary(testPrefix + '/big.bin')).toEqual(data)
+      expect((await chunked.stat(testPrefix + '/big.bin')).size).toBe(2500)
+    })
+
+    test('keeps small files in a single record', async () => {
+      await chunked.writeBinary(testPrefix + '/small.bin', bytes(1024))
+      expect((await getRecord(testPrefix + '/small.bin')).chunkId).toBeUndefined()
+    })
+
+    test('chunks large text files and reads them back', async () => {
+      const text = 'x'.repeat(3000)
+      await chunked.writeFile(testPrefix + '/big.txt', text)
+
+      expect((await getRecord(testPrefix + '/big.txt')).chunkId).toBeDefined()
+      expect(await chunked.readFile(testPrefix + '/big.txt')).toBe(text)
+    })
+
+    test('readRange only needs the overlapping chunks', async () => {
+      const data = bytes(4000)
+      await chunked.writeBinary(testPrefix + '/big.bin', data)
+
+      expect(await chunked.readRange(testPrefix + '/big.bin', 1000, 2100)).toEqual(data.slice(1000, 2100))
+      expect(await chunked.readRange(testPrefix + '/big.bin', 3900, 5000)).toEqual(data.slice(3900))
+      expect(await chunked.readRange(testPrefix + '/big.bin', 10, 10)).toEqual(new Uint8Array(0))
+    })
+
+    test('overwriting or deleting removes old chunks', async () => {
+      await chunked.writeBinary(testPrefix + '/big.bin', bytes(3000))
+      const first = (await getRecord(testPrefix + '/big.bin')).chunkId!
+
+      await chunked.writeBinary(testPrefix + '/big.bin', bytes(10))
+      expect(await countChunks(first)).toBe(0)
+
+      await chunked.writeBinary(testPrefix + '/big.bin', bytes(3000))
+      const second = (await getRecord(testPrefix + '/big.bin')).chunkId!
+      await chunked.deleteFile(testPrefix + '/big.bin')
+
+      expect(await countChunks(second)).toBe(0)
+      expect(await chunked.exists(testPrefix + '/big.bin')).toBe(false)
+    })
+
+    test('writeRange rewrites only the chunks it touches', async () => {
+      const data = bytes(3000)
+      await chunked.writeBinary(testPrefix + '/big.bin', data)
+      const { chunkId } = await getRecord(testPrefix + '/big.bin')
+
+      const patch = new Uint8Array(100).fill(7)
+      await chunked.writeRange(testPrefix + '/big.bin', 1000, patch)
+
+      const expected = data.slice()
+      expected.set(patch, 1000)
+      expect(await chunked.readBinary(testPrefix + '/big.bin')).toEqual(expected)
+      expect((await getRecord(testPrefix + '/big.bin')).chunkId).toBe(chunkId)
+    })
+
+    test('writeRange past the end zero-fills the gap', async () => {
+      await chunked.writeBinary(testPrefix + '/big.bin', bytes(1500))
+      await chunked.writeRange(testPrefix + '/big.bin', 3000, new Uint8Array([1, 2]))
+
+      const content = await chunked.readBinary(testPrefix + '/big.bin')
+      expect(content.length).toBe(3002)
+      expect(content.slice(0, 1500)).toEqual(bytes(1500))
+      expect(content.slice(1500, 3000)).toEqual(new Uint8Array(1500))
+      expect(content.slice(3000)).toEqual(new Uint8Array([1, 2]))
+    })
+
+    test('writeRange grows a small file into a chunked one', async () => {
+      await chunked.writeFile(testPrefix + '/grow.txt', 'hello')
+      await chunked.writeRange(testPrefix + '/grow.txt', 5, bytes(2000))
+
+      expect((await getRecord(testPrefix + '/grow.txt')).chunkId).toBeDefined()
+      expect((await chunked.readBinary(testPrefix + '/grow.txt')).slice(0, 5)).toEqual(new TextEncoder().encode('hello'))
+    })
+
+    test('truncate drops chunks past the new end', async () => {
+      const data = bytes(3000)
+      await chunked.writeBinary(testPrefix + '/big.bin', data)
+      const { chunkId } = await getRecord(testPrefix + '/big.bin')
+
+      await chunked.truncate(testPrefix + '/big.bin', 1500)
+
+      expect(await countChunks(chunkId!)).toBe(2)
+      expect(await chunked.readBinary(testPrefix + '/big.bin')).toEqual(data.slice(0, 1500))
+
+      await chunked.truncate(testPrefix + '/big.bin', 1600)
+      const content = await chunked.readBinary(testPrefix + '/big.bin')
+      expect(content.slice(1500)).toEqual(new Uint8Array(100))
+    })
+
+    test('reads large files stored as a single record', async () => {
+      // Files written before chunking existed stay in one record
+      const data = bytes(5000)
+      const path = testPrefix + '/legacy.bin'
+      await rawRequest(IDB_FILES_STORE, 'readwrite', store => store.put({
+        path, content: data, isBinary: true, size: data.length, mtime: 1, ctime: 1
+      }))
+
+      expect(await chunked.readBinary(path)).toEqual(data)
+      expect(await chunked.readRange(path, 4000, 4010)).toEqual(data.slice(4000, 4010))
+
+      await chunked.writeRange(path, 0, new Uint8Array([9]))
+      const content = await chunked.readBinary(path)
+      expect(content[0]).toBe(9)
+      expect(content.slice(1)).toEqual(data.slice(1))
+    })
+
+    test('rename keeps the chunks of a file', async () => {
+      const data = bytes(2500)
+      await chunked.writeBinary(testPrefix + '/dir/big.bin', data)
+      const { chunkId } = await getRecord(testPrefix + '/dir/big.bin')
+
+      await chunked.rename(testPrefix + '/dir', testPrefix + '/moved')
+
+      expect((await getRecord(testPrefix + '/moved/big.bin')).chunkId).toBe(chunkId)
+      expect(await chunked.readBinary(testPrefix + '/moved/big.bin')).toEqual(data)
+    })
+
+    test('readStream yields chunked contents', async () => {
+      const data = bytes(3500)
+      await chunked.writeBinary(testPrefix + '/big.bin', data)
+
+      const stream = await chunked.readStream(testPrefix + '/big.bin', { start: 100 })
+      const chunks: Uint8Array[] = []
+      for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+        chunks.push(chunk)
+      }
+
+      expect(chunks.map(chunk => chunk.length)).toEqual([1024, 1024, 1024, 328])
+      expect(new Uint8Array(await new Blob(chunks).arrayBuffer())).toEqual(data.slice(100))
+    })
+
+    test('createWriteStream stores chunks as they arrive', async () => {
+      const data = bytes(3000)
+      const writer = (await chunked.createWriteStream(testPrefix + '/streamed.bin')).getWriter()
+      for (let offset = 0; offset < data.length; offset += 700) {
+        await writer.write(data.slice(offset, offset + 700))
+      }
+      await writer.close()
+
+      const record = await getRecord(testPrefix + '/streamed.bin')
+      expect(await countChunks(record.chunkId!)).toBe(3)
+      expect(await chunked.readBinary(testPrefix + '/streamed.bin')).toEqual(data)
+    })
+
+    test('aborting a write stream keeps the previous contents', async () => {
+      await chunked.writeBinary(testPrefix + '/file.bin', bytes(10))
+
+      const writer = (await chunked.createWriteStream(testPrefix + '/file.bin')).getWriter()
+      await writer.write(bytes(2000))
+      await writer.abort()
+
+      expect(await chunked.readBinary(testPrefix + '/file.bin')).toEqual(bytes(10))
+    })
+
+    test('batch writes of the same path keep the last contents and no stray chunks', async () => {
+      const countAll = () => rawRequest<number>(IDB_CHUNKS_STORE, 'readonly', store => store.count())
+      const before = await countAll()
+
+      await chunked.writeBinaryBatch([
+        { path: testPrefix + '/a.bin', content: bytes(3000) },
+        { path: testPrefix + '/a.bin', content: bytes(2048, 1) }
+      ])
+
+      expect(await chunked.readBinary(testPrefix + '/a.bin')).toEqual(bytes(2048, 1))
+      expect(await countAll()).toBe(before + 2)
+    })
+
+    test('batch reads and writes handle chunked files', async () => {
+      await chunked.writeBinaryBatch([
+        { path: testPrefix + '/a.bin', content: bytes(2048) },
+        { path: testPrefix + '/b.bin', content: bytes(10) }
+      ])
+
+      const results = await chunked.readBinaryBatch([testPrefix + '/a.bin', testPrefix + '/b.bin'])
+      expect(results.get(testPrefix + '/a.bin')).toEqual(bytes(2048))
+      expect(results.get(testPrefix + '/b.bin')).toEqual(bytes(10))
+    })
+  })
+
+  describe('deduplication', () => {
+    let deduped: IndexedDBBackend
+    // Blobs are shared across the database, so contents are unique per test
+    let content: (length: number) => Uint8Array
+
+    beforeEach(() => {
+      deduped = new IndexedDBBackend({ chunkSize: 1024, dedupe: true })
+      content = length => new TextEncoder().encode(testPrefix.padEnd(length, 'x'))
+    })
+
+    test('stores identical contents once', async () => {
+      await deduped.writeBinary(testPrefix + '/a.bin', content(2500))
+      await deduped.writeBinary(testPrefix + '/b.bin', content(2500))
+
+      const a = await getRecord(testPrefix + '/a.bin')
+      const b = await getRecord(testPrefix + '/b.bin')
+      expect(b.chunkId).toBe(a.chunkId!)
+      expect(await countChunks(a.chunkId!)).toBe(3)
+      expect(await getBlob(a.chunkId!)).toMatchObject({ refs: 2, size: 2500 })
+      expect(await deduped.readBinary(testPrefix + '/b.bin')).toEqual(content(2500))
+      expect(await deduped.hash(testPrefix + '/b.bin', 'SHA-256')).toBe(a.hashes!['SHA-256'])
+    })
+
+    test('copyFile only adds a reference', async () => {
+      await deduped.writeFile(testPrefix + '/a.txt', 'shared ' + testPrefix)
+      const { chunkId } = await getRecord(testPrefix + '/a.txt')
+
+      await deduped.copyFile(testPrefix + '/a.txt', testPrefix + '/copy/a.txt')
+
+      expect((await getRecord(testPrefix + '/copy/a.txt')).chunkId).toBe(chunkId)
+      expect(await getBlob(chunkId!)).toMatchObject({ refs: 2 })
+      expect(await deduped.readFile(testPrefix + '/copy/a.txt')).toBe('shared ' + testPrefix)
+    })
+
+    test('deletes a blob with its last reference', async () => {
+      await deduped.writeBinary(testPrefix + '/a.bin', content(2000))
+      await deduped.copyFile(testPrefix + '/a.bin', testPrefix + '/b.bin')
+      const { chunkId } = await getRecord(testPrefix + '/a.bin')
+
+      await deduped.deleteFile(testPrefix + '/a.bin')
+      expect(await getBlob(chunkId!)).toMatchObject({ refs: 1 })
+
+      await deduped.writeBinary(testPrefix + '/b.bin', content(10))
+      expect(await getBlob(chunkId!)).toBeUndefined()
+      expect(await countChunks(chunkId!)).toBe(0)
+    })
+
+    test('copies a shared file before writing into it', async () => {
+      await deduped.writeBinary(testPrefix + '/a.bin', content(2000))
+      await deduped.copyFile(testPrefix + '/a.bin', testPrefix + '/b.bin')
+      const { chunkId } = await getRecord(testPrefix + '/a.bin')
+
+      await deduped.writeRange(testPrefix + '/b.bin', 0, new Uint8Array([1]))
+      await deduped.truncate(testPrefix + '/a.bin', 100)
+
+      expect(await getBlob(chunkId!)).toBeUndefined()
+      expect((await deduped.readBinary(testPrefix + '/b.bin'))[0]).toBe(1)
+      expect(await deduped.readBinary(testPrefix + '/a.bin')).toEqual(content(2000).slice(0, 100))
+    })
+
+    test('a transaction writing and deleting a file leaves no blob', async () => {
+      await deduped.applyTransaction([
+        { type: 'write', path: testPrefix + '/a.bin', content: content(1500) },
+        { type: 'delete', path: testPrefix + '/a.bin' }
+      ])
+      await deduped.writeBinaryBatch([{ path: testPrefix + '/b.bin', content: content(1500) }])
+
+      const { chunkId } = await getRecord(testPrefix + '/b.bin')
+      expect(await getBlob(chunkId!)).toMatchObject({ refs: 1 })
+    })
+
+    test('a batch writing one path twice holds a single reference', async () => {
+      await deduped.writeBinaryBatch([
+        { path: testPrefix + '/a.bin', content: content(1500) },
+        { path: testPrefix + '/a.bin', content: content(1500) }
+      ])
+
+      const { chunkId } = await getRecord(testPrefix + '/a.bin')
+      expect(await getBlob(chunkId!)).toMatchObject({ refs: 1 })
+    })
+
+    test('collectGarbage frees unreferenced blobs and fixes counts', async () => {
+      await deduped.writeBinary(testPrefix + '/a.bin', content(2000))
+      await deduped.writeBinary(testPrefix + '/b.bin', content(3000))
+      await deduped.copyFile(testPrefix + '/b.bin', testPrefix + '/c.bin')
+      const a = await getRecord(testPrefix + '/a.bin')
+      const b = await getRecord(testPrefix + '/b.bin')
+
+      // Remove records behind the backend's back
+      await rawRequest(IDB_FILES_STORE, 'readwrite', store => store.delete(testPrefix + '/a.bin'))
+      await rawRequest(IDB_FILES_STORE, 'readwrite', store => store.delete(testPrefix + '/c.bin'))
+
+      const freed = await deduped.collectGarbage()
+
+      expect(freed.blobs).toBeGreaterThanOrEqual(1)
+      expect(freed.bytes).toBeGreaterThanOrEqual(2000)
+      expect(await getBlob(a.chunkId!)).toBeUndefined()
+      expect(await countChunks(a.chunkId!)).toBe(0)
+      expect(await getBlob(b.chunkId!)).toMatchObject({ refs: 1 })
+      expect(await deduped.readBinary(testPrefix + '/b.bin')).toEqual(content(3000))
+    })
+
+    test('collectGarbage only restores blob records whose chunks exist', async () => {
+      await deduped.writeBinary(testPrefix + '/a.bin', content(2000))
+      await deduped.writeBinary(testPrefix + '/b.bin', content(3000))
+      const a = await getRecord(testPrefix + '/a.bin')
+      const b = await getRecord(testPrefix + '/b.bin')
+
+      await rawRequest(IDB_BLOBS_STORE, 'readwrite', store => store.delete(a.chunkId!))
+      await rawRequest(IDB_BLOBS_STORE, 'readwrite', store => store.delete(b.chunkId!))
+      await rawRequest(IDB_CHUNKS_STORE, 'readwrite', store => store.delete([b.chunkId!, 1]))
+
+      await deduped.collectGarbage()
+
+      expect(await getBlob(a.chunkId!)).toMatchObject({ refs: 1, size: 2000 })
+      expect(await getBlob(b.chunkId!)).toBeUndefined()
+    })
+
+    test('write streams store contents by digest', async () => {
+      await deduped.writeBinary(testPrefix + '/a.bin', content(2500))
+      const { chunkId } = await getRecord(testPrefix + '/a.bin')
+
+      for (const name of ['/large.bin', '/small.bin']) {
+        const size = name === '/large.bin' ? 2500 : 100
+        const writer = (await deduped.createWriteStream(testPrefix + name)).getWriter()
+        await writer.write(content(size).slice(0, 1500))
+        await writer.write(content(size).slice(1500))
+        await writer.close()
+        expect(await deduped.readBinary(testPrefix + name)).toEqual(content(size))
+      }
+
+      expect((await getRecord(testPrefix + '/large.bin')).chunkId).toBe(chunkId!)
+      expect(await getBlob(chunkId!)).toMatchObject({ refs: 2 })
+      expect(await countChunks(chunkId!)).toBe(3)
+      expect((await getRecord(testPrefix + '/small.bin')).chunkId).toStartWith('sha256-')
+    })
+
+    test('range writes and truncation keep small files deduplicated', async () => {
+      await deduped.writeBinary(testPrefix + '/a.bin', content(200))
+      await deduped.writeBinary(testPrefix + '/b.bin', content(100))
+      await deduped.writeRange(testPrefix + '/b.bin', 100, content(200).slice(100))
+      await deduped.writeBinary(testPrefix + '/c.bin', content(300))
+      await deduped.truncate(testPrefix + '/c.bin', 200)
+
+      const { chunkId } = await getRecord(testPrefix + '/a.bin')
+      expect((await getRecord(testPrefix + '/b.bin')).chunkId).toBe(chunkId!)
+      expect((await getRecord(testPrefix + '/c.bin')).chunkId).toBe(chunkId!)
+      expect(await getBlob(chunkId!)).toMatchObject({ refs: 3 })
+      expect(await deduped.readBinary(testPrefix + '/c.bin')).toEqual(content(200))
+    })
+
+    test('copyFile deduplicates copies of private files', async () => {
+      await backend.writeBinary(testPrefix + '/private.bin', content(1500))
+      await deduped.writeBinary(testPrefix + '/a.bin', content(1500))
+      const { chunkId } = await getRecord(testPrefix + '/a.bin')
+
+      await deduped.copyFile(testPrefix + '/private.bin', testPrefix + '/copy.bin')
+
+      expect((await getRecord(testPrefix + '/copy.bin')).chunkId).toBe(chunkId!)
+      expect(await getBlob(chunkId!)).toMatchObject({ refs: 2 })
+    })
+  })
 })
@@ -0,0 +1,322 @@
+import { describe, expect, test, beforeEach } from 'bun:test'
+import { MemoryBackend } from '../src/MemoryBackend'
+import { FileSystemService } from '../src/FileSystemService'
+
+describe('MemoryBackend', () => {
+  let backend: MemoryBackend
+
+  beforeEach(() => {
+    backend = new MemoryBackend()
+  })
+
+  test('name is memory', () => {
+    expect(backend.name).toBe('memory')
+  })
+
+  describe('writeFile and readFile', () => {
+    test('writes and reads text file', async () => {
+      await backend.writeFile('/test.txt', 'hello world')
+      expect(await backend.readFile('/test.txt')).toBe('hello world')
+    })
+
+    test('overwrites existing file', async () => {
+      await backend.writeFile('/test.txt', 'first')
+      await backend.writeFile('/test.txt', 'second')
+      expect(await backend.readFile('/test.txt')).toBe('second')
+    })
+
+    test('creates parent directories', async () => {
+      await backend.writeFile('/a/b/test.txt', 'content')
+      expect((await backend.stat('/a')).isDirectory).toBe(true)
+      expect((await backend.stat('/a/b')).isDirectory).toBe(true)
+    })
+
+    test('throws on reading non-existent file', async () => {
+      await expect(backend.readFile('/nonexistent.txt')).rejects.toThrow('ENOENT')
+    })
+
+    test('throws when writing over a directory', async () => {
+      await backend.mkdir('/dir')
+      await expect(backend.writeFile('/dir', 'content')).rejects.toThrow('EISDIR')
+    })
+  })
+
+  describe('writeBinary and readBinary', () => {
+    test('writes and reads binary data', async () => {
+      const data = new Uint8Array([1, 2, 3, 4, 5])
+      await backend.writeBinary('/test.bin', data)
+      expect(await backend.readBinary('/test.bin')).toEqual(data)
+    })
+
+    test('stores a copy of the written buffer', async () => {
+      const data = new Uint8Array([1, 2, 3])
+      await backend.writeBinary('/test.bin', data)
+      data[0] = 99
+
+      const result = await backend.readBinary('/test.bin')
+      result[1] = 99
+
+      expect(await backend.readBinary('/test.bin')).toEqual(new Uint8Array([1, 2, 3]))
+    })
+  })
+
+  describe('readStream', () => {
+    test('streams a byte range in chunks', async () => {
+      await backend.writeFile('/text.txt', 'hello world')
+
+      const stream = await backend.readStream('/text.txt', { start: 2, end: 9, highWaterMark: 3 })
+      const chunks: string[] = []
+      for await (const chunk of stream as unknown as AsyncIterable<Uint8Array>) {
+        chunks.push(new TextDecoder().decode(chunk))
+      }
+
+      expect(chunks).toEqual(['llo', ' wo', 'r'])
+    })
+
+    test('rejects directories with EISDIR', async () => {
+      await backend.mkdir('/dir')
+      await expect(backend.readStream('/dir')).rejects.toMatchObject({ code: 'EISDIR' })
+    })
+  })
+
+  describe('range operations', () => {
+    test('readRange, writeRange and truncate', async () => {
+      await backend.writeFile('/file.txt', 'hello world')
+
+      expect(new TextDecoder().decode(await backend.readRange('/file.txt', 6, 11))).toBe('world')
+
+      await backend.writeRange('/file.txt', 13, new TextEncoder().encode('!'))
+      expect(await backend.readBinary('/file.txt')).toEqual(new TextEncoder().encode('hello world\0\0!'))
+
+      await backend.truncate('/file.txt', 5)
+      expect(await backend.readFile('/file.txt')).toBe('hello')
+    })
+  })
+
+  describe('hash', () => {
+    test('hashes contents and recomputes after writes', async () => {
+      await backend.writeFile('/file.txt', 'hello')
+      expect(await backend.hash('/file.txt', 'SHA-256'))
+        .toBe('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824')
+
+      await backend.writeRange('/file.txt', 0, new TextEncoder().encode('J'))
+      expect(await backend.hash('/file.txt', 'SHA-1')).toBe(await backend.hash('/file.txt', 'SHA-1'))
+      expect(await backend.hash('/file.txt', 'SHA-256'))
+        .not.toBe('2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824')
+    })
+  })
+
+  describe('stat', () => {
+    test('returns stats for file', async () => {
+      await backend.writeFile('/test.txt', 'hello')
+      const stats = await backend.stat('/test.txt')
+
+      expect(stats.isFile).toBe(true)
+      expect(stats.isDirectory).toBe(false)
+      expect(stats.size).toBe(5)
+      expect(stats.mtime).toBeInstanceOf(Date)
+    })
+
+    test('keeps modes recorded by writeBinaryBatch across rewrites', async () => {
+      await backend.writeBinaryBatch([{ path: '/run.sh', content: new Uint8Array([1]), mode: 0o755 }])
+      expect((await backend.stat('/run.sh')).mode).toBe(0o755)
+
+      await backend.writeFile('/run.sh', 'echo')
+      expect((await backend.stat('/run.sh')).mode).toBe(0o755)
+      expect((await backend.stat('/run.sh')).size).toBe(4)
+    })
+
+    test('returns stats for root directory', async () => {
+      const stats = await backend.stat('/')
+      expect(stats.isDirectory).toBe(true)
+    })
+
+    test('updates file mtime on write', async () => {
+      await backend.writeFile('/test.txt', 'first')
+      const before = (await backend.stat('/test.txt')).mtime.getTime()
+      await Bun.sleep(5)
+      await backend.writeFile('/test.txt', 'second')
+      const after = (await backend.stat('/test.txt')).mtime.getTime()
+
+      expect(after).toBeGreaterThan(before)
+    })
+
+    test('updates directory mtime when children change', async () => {
+      await backend.mkdir('/dir')
+      const before = (await backend.stat('/dir')).mtime.getTime()
+      await Bun.sleep(5)
+      await backend.writeFile('/dir/file.txt', 'content')
+      const after = (await backend.stat('/dir')).mtime.getTime()
+
+      expect(after).toBeGreaterThan(before)
+    })
+
+    test('throws for non-existent path', async () => {
+      await expect(backend.stat('/nonexistent')).rejects.toThrow('ENOENT')
+    })
+  })
+
+  describe('directories', () => {
+    test('creates nested directories', async () => {
+      await backend.mkdir('/a/b/c')
+      expect(await backend.exists('/a')).toBe(true)
+      expect(await backend.exists('/a/b')).toBe(true)
+      expect(await backend.exists('/a/b/c')).toBe(true)
+    })
+
+    test('mkdir fails when a file is in the way', async () => {
+      await backend.writeFile('/file', 'content')
+      await expect(backend.mkdir('/file/sub')).rejects.toThrow('ENOTDIR')
+    })
+
+    test('readdir lists direct children, directories first', async () => {
+      await backend.writeFile('/dir/b.txt', 'b')
+      await backend.writeFile('/dir/a.txt', 'a')
+      await backend.writeFile('/dir/sub/nested.txt', 'nested')
+
+      const entries = await backend.readdir('/dir')
+      expect(entries).toEqual([
+        { name: 'sub', path: '/dir/sub', isDirectory: true },
+        { name: 'a.txt', path: '/dir/a.txt', isDirectory: false },
+        { name: 'b.txt', path: '/dir/b.txt', isDirectory: false }
+      ])
+    })
+
+    test('readdir throws for missing directory', async () => {
+      await expect(backend.readdir('/missing')).rejects.toThrow('ENOENT')
+    })
+
+    test('listTree lists the whole subtree, directories first', async () => {
+      await backend.writeFile('/dir/sub/nested.txt', 'nested')
+      await backend.writeFile('/dir/a.txt', 'a')
+      await backend.writeFile('/other.txt', 'other')
+
+      expect(await backend.listTree('/dir')).toEqual([
+        { name: 'sub', path: '/dir/sub', isDirectory: true },
+        { name: 'nested.txt', path: '/dir/sub/nested.txt', isDirectory: false },
+        { name: 'a.txt', path: '/dir/a.txt', isDirectory: false }
+      ])
+    })
+
+    test('rmdir refuses non-empty directory without recursive', async () => {
+      await backend.writeFile('/dir/file.txt', 'content')
+      await expect(backend.rmdir('/dir')).rejects.toThrow('ENOTEMPTY')
+    })
+
+    test('rmdir recursive removes the whole subtree', async () => {
+      await backend.writeFile('/dir/sub/nested.txt', 'nested')
+      await backend.writeFile('/dir/file.txt', 'content')
+      await backend.writeFile('/dir2/keep.txt', 'keep')
+
+      await backend.rmdir('/dir', { recursive: true })
+
+      expect(await backend.exists('/dir')).toBe(false)
+      expect(await backend.exists('/dir/sub')).toBe(false)
+      expect(await backend.exists('/dir/sub/nested.txt')).toBe(false)
+      expect(await backend.exists('/dir2/keep.txt')).toBe(true)
+    })
+  })
+
+  describe('deleteFile', () => {
+    test('deletes existing file', async () => {
+      await backend.writeFile('/test.txt', 'content')
+      await backend.deleteFile('/test.txt')
+      expect(await backend.exists('/test.txt')).toBe(false)
+    })
+
+    test('throws for non-existent file', async () => {
+      await expect(backend.deleteFile('/nonexistent.txt')).rejects.toThrow('ENOENT')
+    })
+  })
+
+  describe('rename and copyFile', () => {
+    test('renames file and keeps its mtime', async () => {
+      await backend.writeFile('/old.txt', 'content')
+      const mtime = (await backend.stat('/old.txt')).mtime
+      await Bun.sleep(5)
+      await backend.rename('/old.txt', '/new.txt')
+
+      expect(await backend.exists('/old.txt')).toBe(false)
+      expect(await backend.readFile('/new.txt')).toBe('content')
+      expect((await backend.stat('/new.txt')).mtime).toEqual(mtime)
+    })
+
+    test('renames directory tree and keeps timestamps', async () => {
+      await backend.writeFile('/proj/main.tex', 'main')
+      await backend.writeFile('/proj/sub/one.tex', 'one')
+      const mtime = (await backend.stat('/proj/sub/one.tex')).mtime
+      await Bun.sleep(5)
+
+      await backend.rename('/proj', '/archive/proj')
+
+      expect(await backend.exists('/proj')).toBe(false)
+      expect(await backend.readFile('/archive/proj/main.tex')).toBe('main')
+      expect((await backend.stat('/archive/proj/sub/one.tex')).mtime).toEqual(mtime)
+      expect(await backend.readdir('/archive/proj')).toEqual([
+        { name: 'sub', path: '/archive/proj/sub', isDirectory: true },
+        { name: 'main.tex', path: '/archive/proj/main.tex', isDirectory: false }
+      ])
+    })
+
+    test('refuses to move a directory into itself', async () => {
+      await backend.mkdir('/dir')
+      await expect(backend.rename('/dir', '/dir/sub')).rejects.toMatchObject({ code: 'EINVAL' })
+    })
+
+    test('copies file', async () => {
+      const data = new Uint8Array([1, 2, 3])
+      await backend.writeBinary('/src.bin', data)
+      await backend.copyFile('/src.bin', '/dst.bin')
+
+      expect(await backend.readBinary('/src.bin')).toEqual(data)
+      expect(await backend.readBinary('/dst.bin')).toEqual(data)
+    })
+  })
+
+  describe('batch operations', () => {
+    test('readBinaryBatch omits missing files', async () => {
+      await backend.writeBinary('/a.bin', new Uint8Array([1]))
+
+      const results = await backend.readBinaryBatch(['/a.bin', '/missing.bin'])
+
+      expect(results.size).toBe(1)
+      expect(results.get('/a.bin')).toEqual(new Uint8Array([1]))
+    })
+
+    test('writeBinaryBatch writes files and reports progress', async () => {
+      const progress: Array<[number, number]> = []
+
+      await backend.writeBinaryBatch([
+        { path: '/batch/a.bin', content: new Uint8Array([1]) },
+        { path: '/batch/b.bin', content: new Uint8Array([2]) },
+        { path: '/batch/c.bin', content: new Uint8Array([3]) }
+      ], {
+        concurrency: 2,
+        onProgress: (completed, total) => progress.push([completed, total])
+      })
+
+      expect(await backend.readBinary('/batch/c.bin')).toEqual(new Uint8Array([3]))
+      expect(progress).toEqual([[2, 3], [3, 3]])
+    })
+
+    test('writeBinaryBatch without createParents requires parent directories', async () => {
+      await expect(backend.writeBinaryBatch(
+        [{ path: '/missing/a.bin', content: new Uint8Array([1]) }],
+        { createParents: false }
+      )).rejects.toThrow('ENOENT')
+    })
+  })
+
+  describe('through FileSystemService', () => {
+    test('mountAuto selects the memory backend', async () => {
+      const service = new FileSystemService()
+      const mounted = await service.mountAuto('/tmp', { backend: 'memory' })
+
+      expect(mounted.name).toBe('memory')
+      expect(service.getBackendType('/tmp/file.txt')).toBe('memory')
+
+      await service.writeFile('/tmp/file.txt', 'scratch')
+      expect(await service.readFile('/tmp/file.txt')).toBe('scratch')
+    })
+  })
+})
@@ -0,0 +1,206 @@
+import { describe, expect, test, beforeAll, afterAll } from 'bun:test'
+import { OPFSBackend } from '../src/OPFSBackend'
+import { writeBinaryOPFS } from '../src/worker'
+import { digest } from '../src/hash'
+import { OPFS_TEMP_PREFIX } from '../src/constants'
+
+// In-memory stand-ins for OPFS handles. Every file reports the same
+// lastModified, like rewrites landing within one mtime tick.
+type FakeHandle = FakeFile | FakeDirectory
+
+const domError = (name: string) => new DOMException(name, name)
+
+const toBytes = async (data: string | Uint8Array | Blob) => {
+  if (typeof data === 'string') return new TextEncoder().encode(data)
+  if (data instanceof Blob) return new Uint8Array(await data.arrayBuffer())
+  return data.slice()
+}
+
+abstract class FakeEntry {
+  constructor(public parent: FakeDirectory | null, public name: string) {}
+
+  async move(parent: FakeDirectory, name: string) {
+    this.parent!.entries.delete(this.name)
+    parent.entries.set(name, this as unknown as FakeHandle)
+    this.parent = parent
+    this.name = name
+  }
+}
+
+class FakeFile extends FakeEntry {
+  readonly kind = 'file'
+  data = new Uint8Array()
+
+  async getFile() {
+    return new File([this.data], this.name, { lastModified: 1 })
+  }
+
+  async createWritable() {
+    let buffer = new Uint8Array()
+    const write = async (data: string | Uint8Array | Blob) => {
+      const bytes = await toBytes(data)
+      const next = new Uint8Array(buffer.length + bytes.length)
+      next.set(buffer)
+      next.set(bytes, buffer.length)
+      buffer = next
+    }
+    const close = async () => {
+      this.data = buffer
+    }
+    return Object.assign(new WritableStream({ write, close }), { write, close })
+  }
+}
+
+class FakeDirectory extends FakeEntry {
+  readonly kind = 'directory'
+  entries = new Map<string, FakeHandle>()
+
+  private async get(name: string, kind: string, create: boolean | undefined) {
+    let entry = this.entries.get(name)
+    if (!entry) {
+      if (!create) throw domError('NotFoundError')
+      entry = kind === 'file' ? new FakeFile(this, name) : new FakeDirectory(this, name)
+      this.entries.set(name, entry)
+    }
+    if (entry.kind !== kind) throw domError('TypeMismatchError')
+    return entry
+  }
+
+  getFileHandle(name: string, options?: { create?: boolean }) {
+    return this.get(name, 'file', options?.create)
+  }
+
+  getDirectoryHandle(name: string, options?: { create?: boolean }) {
+    return this.get(name, 'directory', options?.create)
+  }
+
+  async removeEntry(name: string, options?: { recursive?: boolean }) {
+    const entry = this.entries.get(name)
+    if (!entry) throw domError('NotFoundError')
+    if (entry.kind === 'directory' && entry.entries.size > 0 && !options?.recursive) {
+      throw domError('InvalidModificationError')
+    }
+    this.entries.delete(name)
+  }
+
+  async *[Symbol.asyncIterator]() {
+    yield* this.entries
+  }
+}
+
+const encode = (text: string) => new TextEncoder().encode(text)
+const sha256 = (text: string) => digest(encode(text), 'SHA-256')
+
+describe('OPFSBackend', () => {
+  const root = new FakeDirectory(null, '')
+  const original = Object.getOwnPropertyDescriptor(globalThis, 'navigator')
+
+  beforeAll(() => {
+    Object.defineProperty(globalThis, 'navigator', {
+      configurable: true,
+      value: { storage: { getDirectory: async () => root } }
+    })
+  })
+
+  afterAll(() => {
+    if (original) {
+      Object.defineProperty(globalThis, 'navigator', original)
+    } else {
+      delete (globalThis as { navigator?: unknown }).navigator
+    }
+  })
+
+  describe('hash caching', () => {
+    test('writeBinaryBatch invalidates cached digests', async () => {
+      const backend = new OPFSBackend()
+      await backend.writeFile('/batch.txt', 'aaa')
+      expect(await backend.hash('/batch.txt', 'SHA-256')).toBe(await sha256('aaa'))
+
+      await backend.writeBinaryBatch([{ path: '/batch.txt', content: encode('bbb') }])
+      expect(await backend.hash('/batch.txt', 'SHA-256')).toBe(await sha256('bbb'))
+    })
+
+    test('createWriteStream invalidates cached digests on close', async () => {
+      const backend = new OPFSBackend()
+      await backend.writeFile('/stream.txt', 'aaa')
+      expect(await backend.hash('/stream.txt', 'SHA-256')).toBe(await sha256('aaa'))
+
+      const writer = (await backend.createWriteStream('/stream.txt')).getWriter()
+      await writer.write(encode('bbb'))
+      await writer.close()
+      expect(await backend.hash('/stream.txt', 'SHA-256')).toBe(await sha256('bbb'))
+    })
+
+    test('rename invalidates cached digests of the target', async () => {
+      const backend = new OPFSBackend()
+      await backend.writeFile('/from.txt', 'aaa')
+      await backend.writeFile('/to.txt', 'bbb')
+      expect(await backend.hash('/from.txt', 'SHA-256')).toBe(await sha256('aaa'))
+      expect(await backend.hash('/to.txt', 'SHA-256')).toBe(await sha256('bbb'))
+
+      await backend.rename('/from.txt', '/to.txt')
+      expect(await backend.hash('/to.txt', 'SHA-256')).toBe(await sha256('aaa'))
+
+      // The source's sidecar doesn't outlive it either
+      await backend.rename('/to.txt', '/from.txt')
+      expect(await backend.hash('/from.txt', 'SHA-256')).toBe(await sha256('aaa'))
+    })
+
+    test('directory renames invalidate cached digests underneath', async () => {
+      const backend = new OPFSBackend()
+      await backend.writeFile('/old/a.txt', 'aaa')
+      await backend.writeFile('/new-a.txt', 'bbb')
+      expect(await backend.hash('/old/a.txt', 'SHA-256')).toBe(await sha256('aaa'))
+
+      await backend.rename('/old', '/new')
+      await backend.mkdir('/old')
+      await backend.rename('/new-a.txt', '/old/a.txt')
+      expect(await backend.hash('/old/a.txt', 'SHA-256')).toBe(await sha256('bbb'))
+      expect(await backend.hash('/new/a.txt', 'SHA-256')).toBe(await sha256('aaa'))
+    })
+
+    test('applyTransaction invalidates cached digests', async () => {
+      const backend = new OPFSBackend()
+      await backend.writeFile('/tx.txt', 'aaa')
+      expect(await backend.hash('/tx.txt', 'SHA-256')).toBe(await sha256('aaa'))
+
+      await backend.applyTransaction([{ type: 'write', path: '/tx.txt', content: 'bbb' }])
+      expect(await backend.hash('/tx.txt', 'SHA-256')).toBe(await sha256('bbb'))
+    })
+
+    test('worker writes invalidate cached digests', async () => {
+      const backend = new OPFSBackend()
+      await backend.writeFile('/worker.txt', 'aaa')
+      expect(await backend.hash('/worker.txt', 'SHA-256')).toBe(await sha256('aaa'))
+
+      await writeBinaryOPFS('/worker.txt', encode('bbb'))
+      expect(await backend.hash('/worker.txt', 'SHA-256')).toBe(await sha256('bbb'))
+    })
+  })
+
+  describe('temp file cleanup', () => {
+    const orphan = `${OPFS_TEMP_PREFIX}earlier-1-main.tex`
+    const wait = () => new Promise(resolve => setTimeout(resolve, 10))
+
+    test('atomic writes sweep only the directories they write to', async () => {
+      const backend = new OPFSBackend()
+      await backend.writeFile('/swept/nested/orphan.txt', '')
+      await backend.writeFile('/kept/orphan.txt', '')
+      await backend.rename('/swept/nested/orphan.txt', `/swept/nested/${orphan}`)
+      await backend.rename('/kept/orphan.txt', `/kept/${orphan}`)
+      await backend.writeFile('/swept/orphan.txt', '')
+      await backend.rename('/swept/orphan.txt', `/swept/${orphan}`)
+
+      await backend.writeFile('/swept/main.tex', 'new', { atomic: true })
+      await wait()
+
+      expect(await backend.exists(`/swept/${orphan}`)).toBe(false)
+      expect(await backend.exists(`/swept/nested/${orphan}`)).toBe(true)
+      expect(await backend.exists(`/kept/${orphan}`)).toBe(true)
+
+      expect(await backend.cleanupTempFiles()).toBeGreaterThanOrEqual(2)
+      expect(await backend.exists(`/swept/nested/${orphan}`)).toBe(false)
+      expect(await backend.exists(`/kept/${orphan}`)).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,56 @@
+import { describe, expect, test, afterEach } from 'bun:test'
+import { FileSystemService } from '../src/FileSystemService'
+import { MemoryBackend } from '../src/MemoryBackend'
+import type { FileSystemEvent } from '../src/types'
+
+describe('broadcastEvents', () => {
+  const disconnects: Array<() => void> = []
+  const channel = `test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+
+  afterEach(() => {
+    disconnects.splice(0).forEach(disconnect => disconnect())
+  })
+
+  function createTab(contextId: string): { service: FileSystemService; events: FileSystemEvent[] } {
+    const service = new FileSystemService()
+    service.mount('/docs', new MemoryBackend())
+    const events: FileSystemEvent[] = []
+    service.subscribe(event => events.push(event))
+    disconnects.push(service.broadcastEvents({ channel, contextId }))
+    return { service, events }
+  }
+
+  test('re-emits events from other contexts with their origin', async () => {
+    const a = createTab('tab-a')
+    const b = createTab('tab-b')
+
+    await a.service.writeFile('/docs/main.tex', 'main')
+    await Bun.sleep(20)
+
+    expect(b.events).toEqual([{ type: 'file:created', path: '/docs/main.tex', origin: 'tab-a' }])
+  })
+
+  test('does not echo events back or forward them again', async () => {
+    const a = createTab('tab-a')
+    const b = createTab('tab-b')
+    const c = createTab('tab-c')
+
+    await a.service.writeFile('/docs/main.tex', 'main')
+    await Bun.sleep(20)
+
+    expect(a.events).toEqual([{ type: 'file:created', path: '/docs/main.tex' }])
+    expect(b.events).toHaveLength(1)
+    expect(c.events).toEqual([{ type: 'file:created', path: '/docs/main.tex', origin: 'tab-a' }])
+  })
+
+  test('stops after disconnecting', async () => {
+    const a = createTab('tab-a')
+    const b = createTab('tab-b')
+    disconnects.splice(1, 1)[0]()
+
+    await a.service.writeFile('/docs/main.tex', 'main')
+    await Bun.sleep(20)
+
+    expect(b.events).toEqual([])
+  })
+})
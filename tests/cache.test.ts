@@ -0,0 +1,194 @@
+import { describe, expect, test, beforeEach } from 'bun:test'
+import { MountCache } from '../src/cache'
+import { FileSystemService } from '../src/FileSystemService'
+import { MemoryBackend } from '../src/MemoryBackend'
+import type { CacheOptions, FileSystemEvent } from '../src/types'
+
+describe('MountCache', () => {
+  let evicted: string[]
+
+  const createCache = (options: CacheOptions, files: Array<{ path: string; size: number; mtime: number }> = []) => {
+    evicted = []
+    const scan = async () => files.map(f => ({ ...f, mtime: new Date(f.mtime) }))
+    return new MountCache(options, scan, async (path) => { evicted.push(path) })
+  }
+
+  test('evicts least recently modified files found by the scan first', async () => {
+    const cache = createCache({ maxBytes: 10 }, [
+      { path: '/new.aux', size: 4, mtime: 2 },
+      { path: '/old.aux', size: 4, mtime: 1 }
+    ])
+
+    await cache.reserve('/main.pdf', 4)
+
+    expect(evicted).toEqual(['/old.aux'])
+    expect(cache.usage).toEqual({ bytes: 8, files: 2 })
+  })
+
+  test('touch moves a file to the back of the queue', async () => {
+    const cache = createCache({ maxFiles: 2 })
+    await cache.reserve('/a', 1)
+    await cache.reserve('/b', 1)
+    cache.touch('/a')
+
+    await cache.reserve('/c', 1)
+
+    expect(evicted).toEqual(['/b'])
+  })
+
+  test('rewriting a file replaces its size', async () => {
+    const cache = createCache({ maxBytes: 10 })
+    await cache.reserve('/a', 8)
+    await cache.reserve('/a', 10)
+
+    expect(evicted).toEqual([])
+    expect(cache.usage).toEqual({ bytes: 10, files: 1 })
+  })
+
+  test('never evicts pinned files', async () => {
+    const cache = createCache({ maxFiles: 2, pinned: 'fmt/**' })
+    await cache.reserve('/fmt/pdflatex.fmt', 1)
+    await cache.reserve('/a', 1)
+
+    await cache.reserve('/b', 1)
+
+    expect(evicted).toEqual(['/a'])
+  })
+
+  test('fails with ENOSPC, evicting nothing, when pinned files leave no room', async () => {
+    const cache = createCache({ maxBytes: 10, pinned: ['*.fmt'] })
+    await cache.reserve('/latex.fmt', 6)
+    await cache.reserve('/a', 2)
+
+    await expect(cache.reserve('/big', 6)).rejects.toMatchObject({ code: 'ENOSPC' })
+
+    expect(evicted).toEqual([])
+    expect(cache.usage).toEqual({ bytes: 8, files: 2 })
+  })
+
+  test('forget drops whole directories', async () => {
+    const cache = createCache({})
+    await cache.reserve('/dir/a', 1)
+    await cache.reserve('/dir/sub/b', 1)
+    await cache.reserve('/dirty', 1)
+
+    cache.forget('/dir')
+
+    expect(cache.usage).toEqual({ bytes: 1, files: 1 })
+  })
+})
+
+describe('cache mounts', () => {
+  let service: FileSystemService
+  let events: FileSystemEvent[]
+
+  beforeEach(() => {
+    service = new FileSystemService()
+    events = []
+  })
+
+  test('evict least recently read files and emit file:deleted', async () => {
+    service.mount('/output', new MemoryBackend(), { cache: { maxBytes: 12 } })
+    service.subscribe(event => events.push(event))
+
+    await service.writeFile('/output/a.aux', 'aaaa')
+    await service.writeFile('/output/b.aux', 'bbbb')
+    await service.writeFile('/output/c.aux', 'cccc')
+    await service.readFile('/output/a.aux')
+    events = []
+
+    await service.writeFile('/output/d.aux', 'dddd')
+
+    expect(events).toEqual([
+      { type: 'file:deleted', path: '/output/b.aux' },
+      { type: 'file:created', path: '/output/d.aux' }
+    ])
+    expect(await service.exists('/output/a.aux')).toBe(true)
+    expect(await service.exists('/output/b.aux')).toBe(false)
+  })
+
+  test('count files already on the backend', async () => {
+    const backend = new MemoryBackend()
+    await backend.writeFile('/old.log', 'old')
+    service.mount('/compiler', backend, { cache: { maxFiles: 1 } })
+
+    await service.writeBinaryBatch([{ path: '/compiler/new.log', content: new Uint8Array(3) }])
+
+    expect(await backend.exists('/old.log')).toBe(false)
+    expect(await backend.exists('/new.log')).toBe(true)
+  })
+
+  test('reject writes that pinned files leave no room for', async () => {
+    service.mount('/compiler', new MemoryBackend(), { cache: { maxBytes: 8, pinned: '*.fmt' } })
+    await service.writeFile('/compiler/latex.fmt', 'formats!')
+
+    await expect(service.writeFile('/compiler/x.log', 'x')).rejects.toMatchObject({ code: 'ENOSPC' })
+    expect(await service.exists('/compiler/latex.fmt')).toBe(true)
+  })
+
+  test('make room for streamed writes, even silent ones', async () => {
+    const backend = new MemoryBackend()
+    service.mount('/output', backend, { cache: { maxBytes: 8 } })
+    await service.writeFile('/output/a.aux', 'aaaa')
+
+    const writer = (await service.createWriteStream('/output/b.pdf', { silent: true })).getWriter()
+    await writer.write(new Uint8Array(3))
+    await writer.write(new Uint8Array(3))
+    await writer.close()
+
+    expect(await backend.exists('/a.aux')).toBe(false)
+    await service.writeFile('/output/c.aux', 'cc')
+    expect(await backend.exists('/b.pdf')).toBe(true)
+    await service.writeFile('/output/d.aux', 'd')
+    expect(await backend.exists('/b.pdf')).toBe(false)
+  })
+
+  test('reject streamed writes that pinned files leave no room for', async () => {
+    const backend = new MemoryBackend()
+    service.mount('/compiler', backend, { cache: { maxBytes: 8, pinned: '*.fmt' } })
+    await service.writeFile('/compiler/latex.fmt', 'formats!')
+
+    const writer = (await service.createWriteStream('/compiler/x.log')).getWriter()
+    await writer.write(new Uint8Array(1))
+    await expect(writer.close()).rejects.toMatchObject({ code: 'ENOSPC' })
+    expect(await backend.exists('/x.log')).toBe(false)
+  })
+
+  test('make room for file handle writes, even silent ones', async () => {
+    const backend = new MemoryBackend()
+    service.mount('/output', backend, { cache: { maxBytes: 8 } })
+    await service.writeFile('/output/a.aux', 'aaaa')
+    await service.writeFile('/output/b.log', 'b')
+
+    const handle = await service.open('/output/b.log', 'a', { silent: true })
+    await handle.write('bbb')
+    expect(await backend.exists('/a.aux')).toBe(true)
+    await handle.write('b')
+    await handle.close()
+    expect(await backend.exists('/a.aux')).toBe(false)
+    expect(await backend.readFile('/b.log')).toBe('bbbbb')
+  })
+
+  test('reject file handle writes that pinned files leave no room for', async () => {
+    service.mount('/compiler', new MemoryBackend(), { cache: { maxBytes: 8, pinned: '*.fmt' } })
+    await service.writeFile('/compiler/latex.fmt', 'format')
+
+    const handle = await service.open('/compiler/x.log', 'w')
+    await handle.write('xx')
+    await expect(handle.write('x')).rejects.toMatchObject({ code: 'ENOSPC' })
+    await expect(handle.truncate(3)).rejects.toMatchObject({ code: 'ENOSPC' })
+    await handle.close()
+    expect(await service.readFile('/compiler/x.log')).toBe('xx')
+  })
+
+  test('follow deletes made through the service', async () => {
+    service.mount('/output', new MemoryBackend(), { cache: { maxFiles: 2 } })
+    await service.writeFile('/output/build/a.aux', 'a', { createParents: true })
+    await service.writeFile('/output/b.aux', 'b')
+    await service.rmdir('/output/build', { recursive: true })
+
+    await service.writeFile('/output/c.aux', 'c')
+
+    expect(await service.exists('/output/b.aux')).toBe(true)
+  })
+})
@@ -4,6 +4,9 @@ import {
   IDB_VERSION,
   IDB_FILES_STORE,
   IDB_DIRS_STORE,
+  IDB_CHUNKS_STORE,
+  IDB_BLOBS_STORE,
+  IDB_CHUNK_SIZE,
   OPFS_ROOT
 } from '../src/constants'
 
@@ -13,7 +16,7 @@ describe('constants', () => {
   })
 
   test('IDB_VERSION is correct', () => {
-    expect(IDB_VERSION).toBe(1)
+    expect(IDB_VERSION).toBe(3)
   })
 
   test('IDB_FILES_STORE is correct', () => {
@@ -24,6 +27,18 @@ describe('constants', () => {
     expect(IDB_DIRS_STORE).toBe('directories')
   })
 
+  test('IDB_CHUNKS_STORE is correct', () => {
+    expect(IDB_CHUNKS_STORE).toBe('chunks')
+  })
+
+  test('IDB_BLOBS_STORE is correct', () => {
+    expect(IDB_BLOBS_STORE).toBe('blobs')
+  })
+
+  test('IDB_CHUNK_SIZE is 1 MiB', () => {
+    expect(IDB_CHUNK_SIZE).toBe(1024 * 1024)
+  })
+
   test('OPFS_ROOT is empty string', () => {
     expect(OPFS_ROOT).toBe('')
   })
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test'
+import { FileSystemError, isFileSystemError, toFileSystemError } from '../src/errors'
+
+describe('FileSystemError', () => {
+  test('exposes code, path and syscall', () => {
+    const error = new FileSystemError('ENOENT', '/missing.txt', 'open')
+
+    expect(error).toBeInstanceOf(Error)
+    expect(error.name).toBe('FileSystemError')
+    expect(error.code).toBe('ENOENT')
+    expect(error.path).toBe('/missing.txt')
+    expect(error.syscall).toBe('open')
+    expect(error.message).toBe("ENOENT: no such file or directory, open '/missing.txt'")
+  })
+
+  test('message omits missing syscall', () => {
+    const error = new FileSystemError('ENOMOUNT', '/unmounted')
+    expect(error.message).toBe("ENOMOUNT: no filesystem mounted '/unmounted'")
+  })
+
+  test('isFileSystemError checks the code', () => {
+    const error = new FileSystemError('EISDIR', '/dir', 'open')
+
+    expect(isFileSystemError(error)).toBe(true)
+    expect(isFileSystemError(error, 'EISDIR')).toBe(true)
+    expect(isFileSystemError(error, 'ENOENT')).toBe(false)
+    expect(isFileSystemError(new Error('EISDIR'))).toBe(false)
+  })
+})
+
+describe('toFileSystemError', () => {
+  const cases: Array<[string, string]> = [
+    ['NotFoundError', 'ENOENT'],
+    ['InvalidModificationError', 'ENOTEMPTY'],
+    ['NoModificationAllowedError', 'EACCES'],
+    ['NotAllowedError', 'EACCES'],
+    ['SecurityError', 'EACCES'],
+    ['QuotaExceededError', 'ENOSPC']
+  ]
+
+  for (const [name, code] of cases) {
+    test(`maps ${name} to ${code}`, () => {
+      const cause = new DOMException('native failure', name)
+      const error = toFileSystemError(cause, '/file', 'write') as FileSystemError
+
+      expect(error).toBeInstanceOf(FileSystemError)
+      expect(error.code).toBe(code as FileSystemError['code'])
+      expect(error.path).toBe('/file')
+      expect(error.syscall).toBe('write')
+      expect(error.cause).toBe(cause)
+    })
+  }
+
+  test('maps TypeMismatchError to the requested code', () => {
+    const cause = new DOMException('wrong kind', 'TypeMismatchError')
+
+    expect((toFileSystemError(cause, '/a', 'open') as FileSystemError).code).toBe('ENOTDIR')
+    expect((toFileSystemError(cause, '/a', 'open', 'EISDIR') as FileSystemError).code).toBe('EISDIR')
+  })
+
+  test('passes FileSystemErrors through unchanged', () => {
+    const error = new FileSystemError('EEXIST', '/a', 'mkdir')
+    expect(toFileSystemError(error, '/b', 'open')).toBe(error)
+  })
+
+  test('returns unknown errors as-is', () => {
+    const error = new TypeError('boom')
+    expect(toFileSystemError(error, '/a', 'open')).toBe(error)
+  })
+})
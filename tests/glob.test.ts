@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test'
+import { createGlobMatcher, globToRegExp, getGlobBase } from '../src/glob'
+
+describe('glob', () => {
+  describe('globToRegExp', () => {
+    const matches = (pattern: string, path: string, dot = false) => globToRegExp(pattern, { dot }).test(path)
+
+    test('* and ? stay within one segment', () => {
+      expect(matches('*.tex', 'main.tex')).toBe(true)
+      expect(matches('*.tex', 'sections/intro.tex')).toBe(false)
+      expect(matches('ch?.tex', 'ch1.tex')).toBe(true)
+      expect(matches('ch?.tex', 'ch10.tex')).toBe(false)
+    })
+
+    test('** matches any number of segments', () => {
+      expect(matches('**/*.tex', 'main.tex')).toBe(true)
+      expect(matches('**/*.tex', 'a/b/c/main.tex')).toBe(true)
+      expect(matches('src/**/*.ts', 'src/index.ts')).toBe(true)
+      expect(matches('src/**/*.ts', 'src/lib/deep/index.ts')).toBe(true)
+      expect(matches('src/**', 'src')).toBe(true)
+      expect(matches('src/**', 'src/a/b')).toBe(true)
+      expect(matches('src/**', 'lib/a')).toBe(false)
+      expect(matches('**', 'anything/at/all')).toBe(true)
+    })
+
+    test('braces expand to alternatives, also nested', () => {
+      expect(matches('*.{tex,bib}', 'refs.bib')).toBe(true)
+      expect(matches('*.{tex,bib}', 'main.aux')).toBe(false)
+      expect(matches('{src,lib/{a,b}}/*.ts', 'lib/b/x.ts')).toBe(true)
+      expect(matches('{src,lib/{a,b}}/*.ts', 'lib/c/x.ts')).toBe(false)
+    })
+
+    test('character classes', () => {
+      expect(matches('ch[0-9].tex', 'ch3.tex')).toBe(true)
+      expect(matches('ch[!0-9].tex', 'ch3.tex')).toBe(false)
+      expect(matches('ch[!0-9].tex', 'chA.tex')).toBe(true)
+    })
+
+    test('wildcards skip dotfiles unless dot is set', () => {
+      expect(matches('*', '.hidden')).toBe(false)
+      expect(matches('**/*.tex', '.git/main.tex')).toBe(false)
+      expect(matches('.*', '.hidden')).toBe(true)
+      expect(matches('*', '.hidden', true)).toBe(true)
+      expect(matches('**/*.tex', '.git/main.tex', true)).toBe(true)
+    })
+
+    test('escapes regex characters', () => {
+      expect(matches('a+b(1).tex', 'a+b(1).tex')).toBe(true)
+      expect(matches('a.tex', 'aXtex')).toBe(false)
+    })
+  })
+
+  describe('createGlobMatcher', () => {
+    test('combines patterns with negation', () => {
+      const match = createGlobMatcher(['**/*.tex', '!build/**'])
+      expect(match('main.tex')).toBe(true)
+      expect(match('build/main.tex')).toBe(false)
+      expect(match('main.aux')).toBe(false)
+    })
+
+    test('negation only excludes from everything', () => {
+      const match = createGlobMatcher('!*.aux')
+      expect(match('main.tex')).toBe(true)
+      expect(match('main.aux')).toBe(false)
+    })
+  })
+
+  describe('getGlobBase', () => {
+    test('returns the literal directory prefix', () => {
+      expect(getGlobBase('src/lib/**/*.ts')).toBe('src/lib')
+      expect(getGlobBase('**/*.tex')).toBe('')
+      expect(getGlobBase('output/*.aux')).toBe('output')
+      expect(getGlobBase('{a,b}/x.tex')).toBe('')
+    })
+  })
+})
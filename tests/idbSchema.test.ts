@@ -0,0 +1,194 @@
+import { describe, expect, test } from 'bun:test'
+import './setup'
+import { IDBFactory } from 'fake-indexeddb'
+import { IDB_MIGRATIONS, upgradeDatabase, type IDBMigration } from '../src/idbSchema'
+import { IndexedDBBackend } from '../src/IndexedDBBackend'
+import { IDB_VERSION, IDB_FILES_STORE, IDB_DIRS_STORE, IDB_CHUNKS_STORE, IDB_BLOBS_STORE } from '../src/constants'
+import { IDB_NAME, IDB_VERSION as WORKER_IDB_VERSION, readBinaryIDB, writeBinaryIDB } from '../src/worker'
+import { digest } from '../src/hash'
+
+function uniqueName(): string {
+  return `schema-test-${Date.now()}-${Math.random().toString(36).slice(2)}`
+}
+
+function openDB(name: string, version: number, migrations: readonly IDBMigration[] = IDB_MIGRATIONS): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+    request.onupgradeneeded = (event) => {
+      upgradeDatabase(request.result, request.transaction!, event.oldVersion, migrations)
+    }
+  })
+}
+
+function getAll<T>(db: IDBDatabase, storeName: string): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction([storeName], 'readonly').objectStore(storeName).getAll()
+    request.onsuccess = () => resolve(request.result as T[])
+    request.onerror = () => reject(request.error)
+  })
+}
+
+/** A database as the first release left it, with files in the v1 record shape */
+async function createV1Database(name: string): Promise<void> {
+  const db = await new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, 1)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+    request.onupgradeneeded = () => {
+      const files = request.result.createObjectStore('files', { keyPath: 'path' })
+      files.createIndex('mtime', 'mtime', { unique: false })
+      request.result.createObjectStore('directories', { keyPath: 'path' })
+    }
+  })
+
+  await new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(['files', 'directories'], 'readwrite')
+    transaction.objectStore('directories').put({ path: '/paper', ctime: 1000 })
+    transaction.objectStore('files').put({
+      path: '/paper/main.tex', content: '\\documentclass{article}', isBinary: false, size: 23, mtime: 2000, ctime: 1000
+    })
+    transaction.objectStore('files').put({
+      path: '/paper/fig.png', content: new Uint8Array([137, 80, 78, 71]), isBinary: true, size: 4, mtime: 3000, ctime: 1000
+    })
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+  db.close()
+}
+
+describe('IDB_MIGRATIONS', () => {
+  test('are in ascending order and end at IDB_VERSION', () => {
+    const versions = IDB_MIGRATIONS.map(step => step.version)
+    expect(versions).toEqual([...versions].sort((a, b) => a - b))
+    expect(versions[versions.length - 1]).toBe(IDB_VERSION)
+  })
+
+  test('the worker opens the same version', () => {
+    expect(WORKER_IDB_VERSION).toBe(IDB_VERSION)
+  })
+
+  test('create every store in a new database', async () => {
+    const db = await openDB(uniqueName(), IDB_VERSION)
+    expect([...db.objectStoreNames].sort()).toEqual(
+      [IDB_BLOBS_STORE, IDB_CHUNKS_STORE, IDB_DIRS_STORE, IDB_FILES_STORE].sort()
+    )
+    db.close()
+  })
+})
+
+describe('upgrading a v1 database', () => {
+  test('keeps its files and directories', async () => {
+    const name = uniqueName()
+    await createV1Database(name)
+    const backend = new IndexedDBBackend({ databaseName: name })
+
+    expect(await backend.readFile('/paper/main.tex')).toBe('\\documentclass{article}')
+    expect(await backend.readBinary('/paper/fig.png')).toEqual(new Uint8Array([137, 80, 78, 71]))
+    expect((await backend.stat('/paper/main.tex')).mtime).toEqual(new Date(2000))
+    expect((await backend.readdir('/paper')).map(entry => entry.name).sort()).toEqual(['fig.png', 'main.tex'])
+  })
+
+  test('adds the stores later versions need', async () => {
+    const name = uniqueName()
+    await createV1Database(name)
+    const content = new Uint8Array(10 * 1024).fill(7)
+
+    const backend = new IndexedDBBackend({ databaseName: name, chunkSize: 4096, dedupe: true })
+    await backend.writeBinary('/paper/data.bin', content)
+    await backend.copyFile('/paper/data.bin', '/paper/copy.bin')
+
+    expect(await backend.readBinary('/paper/copy.bin')).toEqual(content)
+    const db = await openDB(name, IDB_VERSION)
+    expect(db.version).toBe(IDB_VERSION)
+    expect(await getAll<{ refs: number }>(db, IDB_BLOBS_STORE)).toMatchObject([{ refs: 2 }])
+    expect((await getAll(db, IDB_CHUNKS_STORE)).length).toBe(3)
+    db.close()
+  })
+
+  test('runs only the missing steps, in order, with access to existing records', async () => {
+    const name = uniqueName()
+    await createV1Database(name)
+    const ran: number[] = []
+    const migrations: IDBMigration[] = [
+      { version: 1, migrate: () => ran.push(1) },
+      {
+        version: 2,
+        migrate: (_db, transaction) => {
+          ran.push(2)
+          const request = transaction.objectStore('files').openCursor()
+          request.onsuccess = () => {
+            const cursor = request.result
+            if (!cursor) return
+            cursor.update({ ...cursor.value, migrated: true })
+            cursor.continue()
+          }
+        }
+      },
+      { version: 3, migrate: db => { ran.push(3); db.createObjectStore('extra') } }
+    ]
+
+    const db = await openDB(name, 3, migrations)
+
+    expect(ran).toEqual([2, 3])
+    expect([...db.objectStoreNames]).toContain('extra')
+    const files = await getAll<{ migrated?: boolean }>(db, 'files')
+    expect(files.map(file => file.migrated)).toEqual([true, true])
+    db.close()
+  })
+
+  test('a failing step leaves the database as it was', async () => {
+    const name = uniqueName()
+    await createV1Database(name)
+    const migrations: IDBMigration[] = [
+      ...IDB_MIGRATIONS.slice(0, 1),
+      { version: 2, migrate: db => { db.createObjectStore('files') } }
+    ]
+
+    await expect(openDB(name, 2, migrations)).rejects.toBeDefined()
+
+    const db = await new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(name)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    expect(db.version).toBe(1)
+    expect((await getAll(db, 'files')).length).toBe(2)
+    db.close()
+  })
+})
+
+describe('upgrading a v1 database from the worker', () => {
+  test('applies the worker copy of the migrations', async () => {
+    // The worker always opens IDB_NAME, so give it a factory of its own
+    const shared = globalThis.indexedDB
+    globalThis.indexedDB = new IDBFactory()
+    try {
+      await createV1Database(IDB_NAME)
+
+      expect(await readBinaryIDB('/paper/fig.png')).toEqual(new Uint8Array([137, 80, 78, 71]))
+      expect(new TextDecoder().decode((await readBinaryIDB('/paper/main.tex'))!)).toBe('\\documentclass{article}')
+
+      const content = new Uint8Array(3 * 1024 * 1024).fill(1)
+      await writeBinaryIDB('/paper/large.bin', content)
+      expect(await readBinaryIDB('/paper/large.bin')).toEqual(content)
+
+      // Rewrites keep the mode and give hash() a new version to compare
+      const backend = new IndexedDBBackend()
+      await backend.writeBinaryBatch([{ path: '/paper/run.sh', content: new Uint8Array([1]), mode: 0o755 }])
+      expect(await backend.hash('/paper/run.sh', 'SHA-256')).toBeDefined()
+      await writeBinaryIDB('/paper/run.sh', new Uint8Array([2]))
+      expect((await backend.stat('/paper/run.sh')).mode).toBe(0o755)
+      expect(await backend.hash('/paper/run.sh', 'SHA-256')).toBe(await digest(new Uint8Array([2]), 'SHA-256'))
+
+      const db = await openDB(IDB_NAME, IDB_VERSION)
+      expect([...db.objectStoreNames].sort()).toEqual(
+        [IDB_BLOBS_STORE, IDB_CHUNKS_STORE, IDB_DIRS_STORE, IDB_FILES_STORE].sort()
+      )
+      db.close()
+    } finally {
+      globalThis.indexedDB = shared
+    }
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, expect, test, afterEach } from 'bun:test'
+import { watchDirectory, diffSnapshots } from '../src/opfsWatch'
+import type { FileSystemEvent } from '../src/types'
+
+// Minimal stand-ins for OPFS handles: enough for iterating and getFile()
+class FakeFile {
+  readonly kind = 'file'
+  constructor(public size: number, public lastModified = 1) {}
+  async getFile() {
+    return { size: this.size, lastModified: this.lastModified }
+  }
+}
+
+class FakeDirectory {
+  readonly kind = 'directory'
+  entries = new Map<string, FakeFile | FakeDirectory>()
+  async *[Symbol.asyncIterator]() {
+    yield* this.entries
+  }
+}
+
+const asRoot = (dir: FakeDirectory) => () => Promise.resolve(dir as unknown as FileSystemDirectoryHandle)
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms))
+
+describe('watchDirectory', () => {
+  let stop = () => {}
+
+  afterEach(() => {
+    stop()
+    delete (globalThis as { FileSystemObserver?: unknown }).FileSystemObserver
+  })
+
+  describe('polling', () => {
+    test('reports created, modified and deleted entries', async () => {
+      const root = new FakeDirectory()
+      const file = new FakeFile(3)
+      root.entries.set('main.tex', file)
+      root.entries.set('old.log', new FakeFile(1))
+
+      const events: FileSystemEvent[] = []
+      stop = watchDirectory(asRoot(root), event => events.push(event), { pollIntervalMs: 10 })
+      await wait(5)
+
+      const build = new FakeDirectory()
+      build.entries.set('main.pdf', new FakeFile(100))
+      root.entries.set('build', build)
+      root.entries.delete('old.log')
+      file.lastModified = 2
+      await wait(30)
+
+      expect(events).toEqual([
+        { type: 'file:deleted', path: '/old.log' },
+        { type: 'file:modified', path: '/main.tex' },
+        { type: 'directory:created', path: '/build' },
+        { type: 'file:created', path: '/build/main.pdf' }
+      ])
+    })
+
+    test('ignores temp files of atomic writes', async () => {
+      const root = new FakeDirectory()
+      const events: FileSystemEvent[] = []
+      stop = watchDirectory(asRoot(root), event => events.push(event), { pollIntervalMs: 10 })
+      await wait(5)
+
+      root.entries.set('.siglum-tmp-abc-1-main.tex', new FakeFile(1))
+      root.entries.set('main.tex.crswap', new FakeFile(1))
+      await wait(30)
+
+      expect(events).toEqual([])
+    })
+
+    test('stops scanning when stopped', async () => {
+      const root = new FakeDirectory()
+      const events: FileSystemEvent[] = []
+      stop = watchDirectory(asRoot(root), event => events.push(event), { pollIntervalMs: 10 })
+      await wait(5)
+      stop()
+
+      root.entries.set('late.txt', new FakeFile(1))
+      await wait(30)
+
+      expect(events).toEqual([])
+    })
+  })
+
+  describe('FileSystemObserver', () => {
+    let callback: (records: unknown[]) => void
+    let observed: unknown
+    let disconnected: boolean
+
+    const installObserver = () => {
+      disconnected = false
+      ;(globalThis as { FileSystemObserver?: unknown }).FileSystemObserver = class {
+        constructor(cb: (records: unknown[]) => void) {
+          callback = cb
+        }
+        async observe(handle: unknown, options: unknown) {
+          observed = { handle, options }
+        }
+        disconnect() {
+          disconnected = true
+        }
+      }
+    }
+
+    test('maps change records to events', async () => {
+      installObserver()
+      const root = new FakeDirectory()
+      const events: FileSystemEvent[] = []
+      stop = watchDirectory(asRoot(root), event => events.push(event))
+      await wait(0)
+
+      expect(observed).toEqual({ handle: root, options: { recursive: true } })
+
+      const file = { kind: 'file' }
+      callback([
+        { type: 'appeared', changedHandle: file, relativePathComponents: ['out', 'main.pdf'] },
+        { type: 'modified', changedHandle: file, relativePathComponents: ['main.tex'] },
+        { type: 'moved', changedHandle: file, relativePathComponents: ['b.tex'], relativePathMovedFrom: ['a.tex'] },
+        { type: 'disappeared', changedHandle: { kind: 'directory' }, relativePathComponents: ['tmp'] },
+        { type: 'appeared', changedHandle: file, relativePathComponents: ['main.tex.crswap'] },
+        { type: 'unknown', changedHandle: null, relativePathComponents: [] }
+      ])
+
+      expect(events).toEqual([
+        { type: 'file:created', path: '/out/main.pdf' },
+        { type: 'file:modified', path: '/main.tex' },
+        { type: 'file:deleted', path: '/a.tex' },
+        { type: 'file:created', path: '/b.tex' },
+        { type: 'directory:deleted', path: '/tmp' }
+      ])
+
+      stop()
+      expect(disconnected).toBe(true)
+    })
+
+    test('falls back to polling when the observer errors', async () => {
+      installObserver()
+      const root = new FakeDirectory()
+      const events: FileSystemEvent[] = []
+      stop = watchDirectory(asRoot(root), event => events.push(event), { pollIntervalMs: 10 })
+      await wait(0)
+
+      callback([{ type: 'errored', changedHandle: null, relativePathComponents: [] }])
+      expect(disconnected).toBe(true)
+      await wait(5)
+
+      root.entries.set('new.txt', new FakeFile(1))
+      await wait(30)
+
+      expect(events).toEqual([{ type: 'file:created', path: '/new.txt' }])
+    })
+
+    test('forcePolling skips the observer', async () => {
+      installObserver()
+      observed = undefined
+      stop = watchDirectory(asRoot(new FakeDirectory()), () => {}, { forcePolling: true })
+      await wait(0)
+
+      expect(observed).toBeUndefined()
+    })
+  })
+})
+
+describe('diffSnapshots', () => {
+  test('reports deletions deepest first, before creations', () => {
+    const previous = new Map([
+      ['/a', { isDirectory: true, size: 0, mtime: 0 }],
+      ['/a/b.txt', { isDirectory: false, size: 1, mtime: 1 }]
+    ])
+    const current = new Map([
+      ['/a', { isDirectory: false, size: 2, mtime: 2 }]
+    ])
+
+    expect(diffSnapshots(previous, current)).toEqual([
+      { type: 'file:deleted', path: '/a/b.txt' },
+      { type: 'directory:deleted', path: '/a' },
+      { type: 'file:created', path: '/a' }
+    ])
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  concatChunks,
+  createBufferedWriteStream,
+  createRangeStream,
+  limitChunkSize,
+  resolveRange
+} from '../src/streams'
+
+async function collectChunks(stream: ReadableStream<Uint8Array>): Promise<Uint8Array[]> {
+  const chunks: Uint8Array[] = []
+  const reader = stream.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) return chunks
+    chunks.push(value)
+  }
+}
+
+describe('resolveRange', () => {
+  test('defaults to the whole file', () => {
+    expect(resolveRange(10, {}, '/f')).toEqual({ start: 0, end: 10 })
+  })
+
+  test('clamps end to the file size', () => {
+    expect(resolveRange(10, { start: 4, end: 100 }, '/f')).toEqual({ start: 4, end: 10 })
+  })
+
+  test('clamps start past the end to an empty range', () => {
+    expect(resolveRange(10, { start: 20 }, '/f')).toEqual({ start: 10, end: 10 })
+  })
+
+  test('rejects invalid ranges', () => {
+    expect(() => resolveRange(10, { start: -1 }, '/f')).toThrow('EINVAL')
+    expect(() => resolveRange(10, { start: 5, end: 2 }, '/f')).toThrow('EINVAL')
+    expect(() => resolveRange(10, { highWaterMark: 0 }, '/f')).toThrow('EINVAL')
+  })
+})
+
+describe('createRangeStream', () => {
+  test('reads the range in bounded chunks', async () => {
+    const data = new Uint8Array([0, 1, 2, 3, 4, 5, 6, 7, 8, 9])
+    const reads: Array<[number, number]> = []
+
+    const chunks = await collectChunks(createRangeStream(async (start, end) => {
+      reads.push([start, end])
+      return data.slice(start, end)
+    }, 2, 9, 3))
+
+    expect(reads).toEqual([[2, 5], [5, 8], [8, 9]])
+    expect(chunks).toEqual([
+      new Uint8Array([2, 3, 4]),
+      new Uint8Array([5, 6, 7]),
+      new Uint8Array([8])
+    ])
+  })
+
+  test('closes immediately for an empty range', async () => {
+    const chunks = await collectChunks(createRangeStream(async () => new Uint8Array(0), 0, 0))
+    expect(chunks).toEqual([])
+  })
+})
+
+describe('limitChunkSize', () => {
+  test('splits oversized chunks', async () => {
+    const source = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new Uint8Array([1, 2, 3, 4, 5]))
+        controller.enqueue(new Uint8Array([6]))
+        controller.close()
+      }
+    })
+
+    const chunks = await collectChunks(limitChunkSize(source, 2))
+    expect(chunks).toEqual([
+      new Uint8Array([1, 2]),
+      new Uint8Array([3, 4]),
+      new Uint8Array([5]),
+      new Uint8Array([6])
+    ])
+  })
+})
+
+describe('createBufferedWriteStream', () => {
+  test('commits the concatenated content on close', async () => {
+    const commits: Uint8Array[] = []
+    const stream = createBufferedWriteStream(async content => { commits.push(content) })
+    const writer = stream.getWriter()
+
+    await writer.write(new Uint8Array([1, 2]))
+    await writer.write(new Uint8Array([3]))
+    expect(commits).toEqual([])
+
+    await writer.close()
+    expect(commits).toEqual([new Uint8Array([1, 2, 3])])
+  })
+
+  test('discards content on abort', async () => {
+    const commits: Uint8Array[] = []
+    const writer = createBufferedWriteStream(async content => { commits.push(content) }).getWriter()
+
+    await writer.write(new Uint8Array([1]))
+    await writer.abort('cancelled')
+
+    expect(commits).toEqual([])
+  })
+})
+
+describe('concatChunks', () => {
+  test('joins chunks in order', () => {
+    expect(concatChunks([new Uint8Array([1]), new Uint8Array([]), new Uint8Array([2, 3])]))
+      .toEqual(new Uint8Array([1, 2, 3]))
+  })
+})
@@ -0,0 +1,234 @@
+import { describe, expect, test, beforeEach } from 'bun:test'
+import { readTar, gunzipIfNeeded } from '../src/tar'
+import { FileSystemService } from '../src/FileSystemService'
+import { MemoryBackend } from '../src/MemoryBackend'
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+interface HeaderOptions {
+  type?: string
+  size?: number
+  mode?: number
+  mtime?: number
+  linkName?: string
+  prefix?: string
+}
+
+/** A ustar header block */
+function header(path: string, options: HeaderOptions = {}): Uint8Array {
+  const { type = '0', size = 0, mode = 0o644, mtime = 1700000000, linkName = '', prefix = '' } = options
+  const block = new Uint8Array(512)
+  const write = (offset: number, text: string) => block.set(encode(text), offset)
+  const octal = (offset: number, length: number, value: number) =>
+    write(offset, value.toString(8).padStart(length - 1, '0'))
+
+  write(0, path)
+  octal(100, 8, mode)
+  octal(108, 8, 0)
+  octal(116, 8, 0)
+  octal(124, 12, size)
+  octal(136, 12, mtime)
+  block.fill(0x20, 148, 156)
+  write(156, type)
+  write(157, linkName)
+  write(257, 'ustar\0')
+  write(263, '00')
+  write(345, prefix)
+  const sum = block.reduce((total, byte) => total + byte, 0)
+  write(148, sum.toString(8).padStart(6, '0') + '\0 ')
+  return block
+}
+
+/** Header plus contents padded to whole blocks */
+function entry(path: string, content: string | Uint8Array = '', options: HeaderOptions = {}): Uint8Array {
+  const data = typeof content === 'string' ? encode(content) : content
+  const result = new Uint8Array(512 + Math.ceil(data.length / 512) * 512)
+  result.set(header(path, { size: data.length, ...options }))
+  result.set(data, 512)
+  return result
+}
+
+function tar(...entries: Uint8Array[]): Uint8Array {
+  const size = entries.reduce((total, e) => total + e.length, 0)
+  const result = new Uint8Array(size + 1024)
+  let offset = 0
+  for (const e of entries) {
+    result.set(e, offset)
+    offset += e.length
+  }
+  return result
+}
+
+/** Deliver bytes in small, unaligned chunks */
+function streamOf(data: Uint8Array, chunkSize = 100): ReadableStream<Uint8Array> {
+  let offset = 0
+  return new ReadableStream({
+    pull(controller) {
+      if (offset >= data.length) {
+        controller.close()
+        return
+      }
+      controller.enqueue(data.slice(offset, offset + chunkSize))
+      offset += chunkSize
+    }
+  })
+}
+
+function gzip(data: Uint8Array): ReadableStream<Uint8Array> {
+  return streamOf(data).pipeThrough(new CompressionStream('gzip'))
+}
+
+async function list(stream: ReadableStream<Uint8Array>) {
+  const entries = []
+  for await (const e of readTar(stream)) {
+    entries.push({ path: e.path, type: e.type, content: e.type === 'file' ? new TextDecoder().decode(await e.read()) : null })
+  }
+  return entries
+}
+
+describe('readTar', () => {
+  test('parses entries across chunk boundaries', async () => {
+    const archive = tar(
+      entry('proj/', '', { type: '5', mode: 0o755 }),
+      entry('proj/main.tex', 'x'.repeat(700), { mode: 0o600, mtime: 1600000000 }),
+      entry('proj/empty.tex')
+    )
+
+    const entries = []
+    for await (const e of readTar(streamOf(archive, 77))) {
+      entries.push({ path: e.path, type: e.type, size: e.size, mode: e.mode, mtime: e.mtime.getTime() })
+    }
+
+    expect(entries).toEqual([
+      { path: 'proj/', type: 'directory', size: 0, mode: 0o755, mtime: 1700000000000 },
+      { path: 'proj/main.tex', type: 'file', size: 700, mode: 0o600, mtime: 1600000000000 },
+      { path: 'proj/empty.tex', type: 'file', size: 0, mode: 0o644, mtime: 1700000000000 }
+    ])
+  })
+
+  test('skips contents that are not read', async () => {
+    const archive = tar(entry('a.bin', 'a'.repeat(1500)), entry('b.txt', 'b'))
+
+    const paths = []
+    for await (const e of readTar(streamOf(archive))) {
+      paths.push(e.path)
+      if (e.path === 'b.txt') expect(new TextDecoder().decode(await e.read())).toBe('b')
+    }
+    expect(paths).toEqual(['a.bin', 'b.txt'])
+  })
+
+  test('supports ustar prefixes, GNU long names and pax headers', async () => {
+    const long = 'dir/' + 'n'.repeat(150) + '.tex'
+    // A record's length counts its own digits
+    const record = ` path=${long}\n`
+    const pax = encode(`${record.length + 3}${record}`)
+    const archive = tar(
+      entry('file.tex', 'prefixed', { prefix: 'some/prefix' }),
+      entry('././@LongLink', long + '\0', { type: 'L' }),
+      entry(long.slice(0, 100), 'gnu'),
+      entry('PaxHeaders/x', pax, { type: 'x' }),
+      entry(long.slice(0, 100), 'pax'),
+      entry('link', '', { type: '2', linkName: 'file.tex' })
+    )
+
+    expect(await list(streamOf(archive))).toEqual([
+      { path: 'some/prefix/file.tex', type: 'file', content: 'prefixed' },
+      { path: long, type: 'file', content: 'gnu' },
+      { path: long, type: 'file', content: 'pax' },
+      { path: 'link', type: 'symlink', content: null }
+    ])
+  })
+
+  test('fails with EINVAL on corrupt or truncated archives', async () => {
+    const corrupt = tar(entry('a.txt', 'a'))
+    corrupt[0] = 'b'.charCodeAt(0)
+    await expect(list(streamOf(corrupt))).rejects.toMatchObject({ code: 'EINVAL' })
+
+    const truncated = entry('a.txt', 'a'.repeat(1000)).slice(0, 700)
+    await expect(list(streamOf(truncated))).rejects.toMatchObject({ code: 'EINVAL' })
+  })
+
+  test('gunzipIfNeeded detects gzip from the first bytes', async () => {
+    const archive = tar(entry('a.txt', 'a'))
+
+    expect(await list(await gunzipIfNeeded(gzip(archive)))).toHaveLength(1)
+    expect(await list(await gunzipIfNeeded(streamOf(archive)))).toHaveLength(1)
+  })
+})
+
+describe('importTar', () => {
+  let service: FileSystemService
+  let memory: MemoryBackend
+
+  beforeEach(() => {
+    service = new FileSystemService()
+    memory = new MemoryBackend()
+    service.mount('/compiler', memory)
+  })
+
+  const bundle = () => tar(
+    entry('texlive/', '', { type: '5' }),
+    entry('texlive/bin/', '', { type: '5' }),
+    entry('texlive/bin/pdftex', 'binary', { mode: 0o755, mtime: 1600000000 }),
+    entry('texlive/fonts/', '', { type: '5' }),
+    entry('texlive/tex/latex.ltx', 'latex'),
+    entry('texlive/tex/alias.ltx', '', { type: '1', linkName: 'texlive/tex/latex.ltx' }),
+    entry('texlive/bin/tex', '', { type: '2', linkName: 'pdftex' })
+  )
+
+  test('unpacks a gzipped stream with directories, modes and mtimes', async () => {
+    await service.importTar(gzip(bundle()), '/compiler/dist', { gzip: true, stripComponents: 1 })
+
+    expect(await service.readFile('/compiler/dist/bin/pdftex')).toBe('binary')
+    const stats = await service.stat('/compiler/dist/bin/pdftex')
+    expect(stats.mode).toBe(0o755)
+    expect(stats.mtime).toEqual(new Date(1600000000 * 1000))
+    expect((await service.stat('/compiler/dist/fonts')).isDirectory).toBe(true)
+    // Hard links become copies; symbolic links are skipped
+    expect(await service.readFile('/compiler/dist/tex/alias.ltx')).toBe('latex')
+    expect(await service.exists('/compiler/dist/bin/tex')).toBe(false)
+  })
+
+  test('skips filtered entries and the contents of filtered directories', async () => {
+    const seen: string[] = []
+    await service.importTar(streamOf(bundle()), '/compiler', {
+      filter: (e) => {
+        seen.push(e.path)
+        return e.path !== 'texlive/bin'
+      }
+    })
+
+    expect(seen).not.toContain('texlive/bin/pdftex')
+    expect(await service.exists('/compiler/texlive/bin')).toBe(false)
+    expect(await service.readFile('/compiler/texlive/tex/latex.ltx')).toBe('latex')
+  })
+
+  test('writes in batches and reports progress', async () => {
+    const files = Array.from({ length: 45 }, (_, i) => entry(`f${i}.txt`, String(i)))
+    const progress: Array<[number, number]> = []
+    let batches = 0
+    const writeBinaryBatch = service.writeBinaryBatch.bind(service)
+    service.writeBinaryBatch = async (entries, options) => {
+      batches++
+      return writeBinaryBatch(entries, options)
+    }
+
+    const archive = tar(...files)
+    await service.importTar(streamOf(archive), '/compiler/many', {
+      onProgress: (entries, bytes) => progress.push([entries, bytes])
+    })
+
+    expect(batches).toBe(3)
+    const [unpacked, bytes] = progress[progress.length - 1]
+    expect(unpacked).toBe(45)
+    // Reading stops at the end-of-archive block
+    expect(bytes).toBeGreaterThanOrEqual(45 * 1024)
+    expect(await service.readFile('/compiler/many/f44.txt')).toBe('44')
+  })
+
+  test('rejects entries leading outside the destination', async () => {
+    await expect(service.importTar(streamOf(tar(entry('../evil', 'x'))), '/compiler/dist'))
+      .rejects.toMatchObject({ code: 'EINVAL' })
+    expect(await service.exists('/compiler/evil')).toBe(false)
+  })
+})
@@ -0,0 +1,91 @@
+import { describe, expect, test, beforeEach } from 'bun:test'
+import { FileSystemService } from '../src/FileSystemService'
+import { MemoryBackend } from '../src/MemoryBackend'
+import type { FileSystemEvent } from '../src/types'
+
+describe('watch', () => {
+  let service: FileSystemService
+
+  beforeEach(() => {
+    service = new FileSystemService()
+    service.mount('/docs', new MemoryBackend())
+  })
+
+  test('only reports direct children unless recursive', async () => {
+    const batches: FileSystemEvent[][] = []
+    const stop = service.watch('/docs/proj', {}, events => batches.push(events))
+
+    await service.writeFile('/docs/proj/main.tex', 'main')
+    await service.writeFile('/docs/proj/sections/intro.tex', 'intro')
+    await service.writeFile('/docs/other.tex', 'other')
+    await Bun.sleep(5)
+    stop()
+
+    expect(batches).toEqual([[{ type: 'file:created', path: '/docs/proj/main.tex' }]])
+  })
+
+  test('filters by include patterns relative to the watched path', async () => {
+    const batches: FileSystemEvent[][] = []
+    const stop = service.watch('/docs/proj/', { recursive: true, include: ['**/*.tex', '!build/**'] }, events => batches.push(events))
+
+    await service.writeFile('/docs/proj/sections/intro.tex', 'intro')
+    await service.writeFile('/docs/proj/main.aux', 'aux')
+    await service.writeFile('/docs/proj/build/main.tex', 'copy')
+    await Bun.sleep(5)
+    stop()
+
+    expect(batches.flat()).toEqual([{ type: 'file:created', path: '/docs/proj/sections/intro.tex' }])
+  })
+
+  test('coalesces a burst into one batch', async () => {
+    const batches: FileSystemEvent[][] = []
+    const stop = service.watch('/docs', { recursive: true, debounceMs: 20 }, events => batches.push(events))
+
+    await service.writeBinaryBatch([
+      { path: '/docs/a.bin', content: new Uint8Array([1]) },
+      { path: '/docs/b.bin', content: new Uint8Array([2]) }
+    ])
+    await service.writeFile('/docs/a.bin', 'again')
+    await service.writeFile('/docs/a.bin', 'and again')
+    await Bun.sleep(40)
+    stop()
+
+    expect(batches).toEqual([[
+      { type: 'file:created', path: '/docs/a.bin' },
+      { type: 'file:created', path: '/docs/b.bin' },
+      { type: 'file:modified', path: '/docs/a.bin' }
+    ]])
+  })
+
+  test('unsubscribing drops pending events', async () => {
+    const batches: FileSystemEvent[][] = []
+    const stop = service.watch('/docs', { debounceMs: 10 }, events => batches.push(events))
+
+    await service.writeFile('/docs/a.txt', 'a')
+    stop()
+    await Bun.sleep(20)
+
+    expect(batches).toEqual([])
+  })
+
+  test('works as an async iterator', async () => {
+    const watcher = service.watch('/docs', { recursive: true })
+
+    await service.writeFile('/docs/a.txt', 'a')
+    const first = await watcher.next()
+    expect(first.value).toEqual([{ type: 'file:created', path: '/docs/a.txt' }])
+
+    const received: FileSystemEvent[][] = []
+    const consuming = (async () => {
+      for await (const events of watcher) {
+        received.push(events)
+        break
+      }
+    })()
+    await service.deleteFile('/docs/a.txt')
+    await consuming
+
+    expect(received).toEqual([[{ type: 'file:deleted', path: '/docs/a.txt' }]])
+    expect((await watcher.next()).done).toBe(true)
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test'
+import { crc32, createZipStream, readZip, type ZipEntry } from '../src/zip'
+
+async function zip(entries: ZipEntry[], compression?: 'deflate' | 'store'): Promise<Uint8Array> {
+  async function* generate() {
+    yield* entries
+  }
+  return new Uint8Array(await new Response(createZipStream(generate(), compression)).arrayBuffer())
+}
+
+const encode = (text: string) => new TextEncoder().encode(text)
+
+describe('crc32', () => {
+  test('matches the standard check value', () => {
+    expect(crc32(encode('123456789'))).toBe(0xcbf43926)
+    expect(crc32(new Uint8Array(0))).toBe(0)
+  })
+})
+
+describe('zip', () => {
+  const mtime = new Date('2024-05-06T07:08:09Z')
+
+  test('round-trips files and directories', async () => {
+    const archive = await zip([
+      { name: 'sections/', mtime },
+      { name: 'sections/intro.tex', mtime, content: encode('intro '.repeat(100)) },
+      { name: 'figure.bin', mtime, content: Uint8Array.from({ length: 64 }, (_, i) => (i * 37) % 256) },
+      { name: 'ünïcode.tex', mtime, content: encode('x') }
+    ])
+
+    const entries = readZip(archive)
+    expect(entries.map(e => [e.name, e.isDirectory, e.size])).toEqual([
+      ['sections/', true, 0],
+      ['sections/intro.tex', false, 600],
+      ['figure.bin', false, 64],
+      ['ünïcode.tex', false, 1]
+    ])
+    expect(entries.every(e => e.mtime.getTime() === mtime.getTime())).toBe(true)
+    expect(new TextDecoder().decode(await entries[1].read())).toBe('intro '.repeat(100))
+    expect((await entries[2].read())[1]).toBe(37)
+  })
+
+  test('deflates compressible files and stores the rest', async () => {
+    const text = encode('a'.repeat(10000))
+    const deflated = await zip([{ name: 'a.txt', mtime, content: text }])
+    const stored = await zip([{ name: 'a.txt', mtime, content: text }], 'store')
+
+    expect(deflated.length).toBeLessThan(1000)
+    expect(stored.length).toBeGreaterThan(10000)
+    expect(await readZip(stored)[0].read()).toEqual(text)
+  })
+
+  test('writes an empty archive', async () => {
+    expect(readZip(await zip([]))).toEqual([])
+  })
+
+  test('rejects data that is not an archive', () => {
+    expect(() => readZip(encode('not a zip file'))).toThrow(expect.objectContaining({ code: 'EINVAL' }))
+  })
+
+  test('fails with EIO when contents are corrupt', async () => {
+    const archive = await zip([{ name: 'a.txt', mtime, content: encode('hello') }], 'store')
+    // Local header (30 bytes) + name + timestamp field, then the data
+    archive[30 + 5 + 9] ^= 0xff
+
+    await expect(readZip(archive)[0].read()).rejects.toMatchObject({ code: 'EIO' })
+  })
+})